@@ -0,0 +1,116 @@
+import { createRng, hashString, nextFloat } from './rng';
+import type { SimEvent, SimState } from './types';
+
+// --- Achievements & Missions ---
+// Both are goals measured against tallies built from the simulation's own
+// events and timers. Achievements are permanent; missions rotate daily and
+// only count what happens within a single run.
+
+// Everything goals are measured against. Frames are 60 Hz simulation steps.
+export interface Tally {
+    runs: number;
+    coins: number;
+    shieldPops: number;
+    nearMisses: number;
+    slowMoFrames: number;
+    distance: number;
+    // Longest stretch without thrusting while in the lower half of the screen
+    bestCalmFrames: number;
+}
+
+export interface RunTally extends Tally {
+    calmFrames: number; // Current stretch
+}
+
+export type GoalScope = 'RUN' | 'LIFETIME';
+
+export interface Goal {
+    id: string;
+    name: string;
+    description: string;
+    scope: GoalScope;
+    target: number;
+    measure: (t: Tally) => number;
+}
+
+const SECOND = 60; // frames
+const METRE = 100; // px of distance, as shown in the UI
+
+export const createTally = (): Tally => ({
+    runs: 0, coins: 0, shieldPops: 0, nearMisses: 0, slowMoFrames: 0, distance: 0, bestCalmFrames: 0
+});
+
+export const createRunTally = (): RunTally => ({ ...createTally(), calmFrames: 0 });
+
+// Feeds one simulation step in; call with the events that step returned
+export const trackStep = (t: RunTally, s: SimState, events: SimEvent[]) => {
+    for (const ev of events) {
+        if (ev.type === 'PICKUP' && ev.kind === 'COIN') t.coins++;
+        else if (ev.type === 'SHIELD_POP') t.shieldPops++;
+        else if (ev.type === 'NEAR_MISS') t.nearMisses++;
+    }
+    t.distance = s.distance;
+    t.slowMoFrames = s.stats.powerupFrames.SLOWMO ?? 0;
+    const low = s.py + s.height / 2 > s.worldHeight / 2;
+    t.calmFrames = s.isThrusting && low ? 0 : t.calmFrames + 1;
+    t.bestCalmFrames = Math.max(t.bestCalmFrames, t.calmFrames);
+};
+
+// Lifetime totals with a run added on top (the run counts once it is finished)
+export const addTally = (life: Tally, run: Tally): Tally => ({
+    runs: life.runs + run.runs,
+    coins: life.coins + run.coins,
+    shieldPops: life.shieldPops + run.shieldPops,
+    nearMisses: life.nearMisses + run.nearMisses,
+    slowMoFrames: life.slowMoFrames + run.slowMoFrames,
+    distance: life.distance + run.distance,
+    bestCalmFrames: Math.max(life.bestCalmFrames, run.bestCalmFrames)
+});
+
+export const goalProgress = (goal: Goal, run: Tally, life: Tally) =>
+    Math.min(goal.measure(goal.scope === 'RUN' ? run : addTally(life, run)), goal.target);
+
+// Goals reached that aren't in `done` yet
+export const checkGoals = (goals: Goal[], run: Tally, life: Tally, done: (id: string) => boolean) =>
+    goals.filter(g => !done(g.id) && goalProgress(g, run, life) >= g.target);
+
+// --- Achievements ---
+
+export const ACHIEVEMENTS: Goal[] = [
+    { id: 'first-flight', name: 'FIRST FLIGHT', description: 'Finish a run', scope: 'LIFETIME', target: 1, measure: t => t.runs },
+    { id: 'coins-100', name: 'POCKET CHANGE', description: 'Collect 100 coins', scope: 'LIFETIME', target: 100, measure: t => t.coins },
+    { id: 'coins-1000', name: 'TREASURE HUNTER', description: 'Collect 1000 coins', scope: 'LIFETIME', target: 1000, measure: t => t.coins },
+    { id: 'shield-pop', name: 'SAVED BY THE BUBBLE', description: 'Have a shield absorb a hit', scope: 'LIFETIME', target: 1, measure: t => t.shieldPops },
+    { id: 'shield-pop-3', name: 'BULLETPROOF', description: 'Pop 3 shields in one run', scope: 'RUN', target: 3, measure: t => t.shieldPops },
+    { id: 'near-miss', name: 'CLOSE CALL', description: 'Scrape past a hazard', scope: 'LIFETIME', target: 1, measure: t => t.nearMisses },
+    { id: 'near-miss-10', name: 'DAREDEVIL', description: '10 near-misses in one run', scope: 'RUN', target: 10, measure: t => t.nearMisses },
+    { id: 'slowmo-60', name: 'TIME BENDER', description: 'Spend 60s under SLOWMO', scope: 'LIFETIME', target: 60 * SECOND, measure: t => t.slowMoFrames },
+    { id: 'distance-100', name: 'LIFTOFF', description: 'Fly 100m in one run', scope: 'RUN', target: 100 * METRE, measure: t => t.distance },
+    { id: 'distance-500', name: 'CRUISING', description: 'Fly 500m in one run', scope: 'RUN', target: 500 * METRE, measure: t => t.distance },
+    { id: 'distance-1000', name: 'LONG HAUL', description: 'Fly 1000m in one run', scope: 'RUN', target: 1000 * METRE, measure: t => t.distance },
+    { id: 'distance-10000', name: 'FREQUENT FLYER', description: 'Fly 10000m in total', scope: 'LIFETIME', target: 10000 * METRE, measure: t => t.distance }
+];
+
+// --- Missions ---
+
+export const MISSION_POOL: Goal[] = [
+    { id: 'coins-200', name: 'GOLD RUSH', description: 'Collect 200 coins in one run', scope: 'RUN', target: 200, measure: t => t.coins },
+    { id: 'calm-30', name: 'STEADY HANDS', description: 'Survive 30s without thrusting below mid-screen', scope: 'RUN', target: 30 * SECOND, measure: t => t.bestCalmFrames },
+    { id: 'near-miss-5', name: 'THREAD THE NEEDLE', description: '5 near-misses in one run', scope: 'RUN', target: 5, measure: t => t.nearMisses },
+    { id: 'shield-pop-2', name: 'DOUBLE BUBBLE', description: 'Pop 2 shields in one run', scope: 'RUN', target: 2, measure: t => t.shieldPops },
+    { id: 'distance-300', name: 'DISTANCE RUN', description: 'Fly 300m in one run', scope: 'RUN', target: 300 * METRE, measure: t => t.distance },
+    { id: 'slowmo-15', name: 'BULLET TIME', description: 'Spend 15s under SLOWMO in one run', scope: 'RUN', target: 15 * SECOND, measure: t => t.slowMoFrames }
+];
+
+export const MISSIONS_PER_DAY = 3;
+
+// The same missions for everyone on a given day (key from dailyKey)
+export const getActiveMissions = (key: string): Goal[] => {
+    const rng = createRng(hashString(`missions:${key}`));
+    const pool = [...MISSION_POOL];
+    const picked: Goal[] = [];
+    while (picked.length < MISSIONS_PER_DAY && pool.length) {
+        picked.push(pool.splice(Math.floor(nextFloat(rng) * pool.length), 1)[0]);
+    }
+    return picked;
+};
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WORLD_WIDTH, WORLD_HEIGHT } from './constants';
+import { PRESETS, cloneConfig, type GameConfig } from './config';
+import { applyEffect } from './effects';
+import { DEFEAT_BONUS, SURVIVE_BONUS, createBoss, getBossBeams, updateBoss, type BossAction } from './boss';
+import { startRun, step } from './simulation';
+import type { SimEvent, SimState } from './types';
+
+// Holds the middle of the sky, level with the boss's core
+const hover = (s: SimState, fire = false) => ({ thrust: s.py + s.pvy * 6 > s.worldHeight / 2 - s.height / 2, power: 1, fire });
+
+test('a boss flies in, fights until its time is up, then leaves', () => {
+    const s = startRun(WORLD_WIDTH, WORLD_HEIGHT, 4, PRESETS.NORMAL);
+    const boss = createBoss(3);
+    assert.equal(boss.maxHp, 50);
+
+    const phases: string[] = [];
+    const actions: BossAction[] = [];
+    let frames = 0;
+    while (!actions.some(a => a.kind === 'ESCAPED') && frames < 5000) {
+        actions.push(...updateBoss(s, boss, 1));
+        frames++;
+        if (phases[phases.length - 1] !== boss.phase) phases.push(boss.phase);
+        // Beams warn before they burn, and only during beam attacks
+        const beams = getBossBeams(s, boss);
+        if (beams.length > 0) {
+            assert.ok(boss.attack === 'SWEEP' || boss.attack === 'WEAVE');
+            assert.ok(beams.every(b => b.live === boss.attackFrame >= 60));
+        }
+    }
+    assert.deepEqual(phases, ['ENTER', 'FIGHT', 'LEAVE']);
+    assert.equal(frames, 120 + 1800 + 120);
+
+    // Barrages drop a rock in each lane ahead of the ship, all at once
+    const drops = actions.filter(a => a.kind === 'DROP');
+    assert.ok(drops.length > 0 && drops.length % 5 === 0);
+    for (const drop of drops) assert.ok(drop.kind === 'DROP' && drop.x > s.px + 150 && drop.x < s.worldWidth - 250);
+});
+
+const runToBoss = (config: GameConfig, seed: number) => {
+    const s = startRun(WORLD_WIDTH, WORLD_HEIGHT, seed, config);
+    s.nextBossAt = 0;
+    applyEffect(s, 'GHOST', 100000); // Nothing it throws can touch the ship
+    return s;
+};
+
+const flyBoss = (s: SimState, fire = false) => {
+    let end: SimEvent | undefined;
+    let frames = 0;
+    while (!end && s.isPlaying && frames < 5000) {
+        end = step(s, hover(s, fire)).find(e => e.type === 'BOSS_END');
+        frames++;
+    }
+    return end;
+};
+
+test('outlasting a boss pays the survival bonus and moves on a sector', () => {
+    const s = runToBoss(PRESETS.NORMAL, 4);
+    assert.deepEqual(flyBoss(s), { type: 'BOSS_END', defeated: false, bonus: SURVIVE_BONUS });
+    assert.equal(s.boss, null);
+    assert.equal(s.sector, 2);
+    assert.equal(s.stats.bossesSurvived, 1);
+    assert.equal(s.nextBossAt, s.distance + s.config.bossInterval);
+});
+
+test('in combat a boss can be shot down once it has arrived', () => {
+    const s = runToBoss({ ...cloneConfig(PRESETS.NORMAL), combat: true }, 4);
+    step(s, hover(s));
+    assert.equal(s.boss?.phase, 'ENTER');
+    s.boss.hp = 3;
+    assert.deepEqual(flyBoss(s, true), { type: 'BOSS_END', defeated: true, bonus: DEFEAT_BONUS });
+    assert.equal(s.stats.bossesDefeated, 1);
+    assert.equal(s.sector, 2);
+});
@@ -0,0 +1,286 @@
+import { GAME_COLORS } from './constants';
+import { circle, placeShape, polygon, rect, type Shape } from './collision';
+import { drawBeam } from './entities';
+import { nextFloat } from './rng';
+import type { Point, SimState } from './types';
+
+// --- Boss Encounters ---
+// Every config.bossInterval px of distance a boss holds the sky for a while.
+// Regular spawning stops and it cycles through telegraphed attacks until the
+// ship outlasts it or, in combat mode, shoots it down. This module owns the
+// boss's state machine and shapes; the simulation applies what it does.
+
+export type BossAttack = 'SWEEP' | 'WEAVE' | 'BARRAGE';
+export type BossPhase = 'ENTER' | 'FIGHT' | 'LEAVE';
+
+export interface BossState {
+    phase: BossPhase;
+    phaseFrame: number;  // Frames into the phase
+    hp: number;
+    maxHp: number;
+    timeLeft: number;    // FIGHT frames left before the ship has outlasted it
+    attack: BossAttack | null; // Null while resting between attacks
+    attackFrame: number; // Frames into the attack (telegraph included) or the rest
+    drops: number[];     // Screen x of each rock in the barrage being telegraphed
+}
+
+// What the boss did this step, for the simulation to carry out
+export type BossAction =
+    | { kind: 'DROP'; x: number } // Release a rock from above the screen
+    | { kind: 'ESCAPED' };        // Flown off after the ship outlasted it
+
+export interface BossBeam {
+    x: number;
+    y: number;
+    angle: number;
+    length: number;
+    live: boolean; // False while it is only being telegraphed
+}
+
+const ENTER_FRAMES = 120;
+const LEAVE_FRAMES = 120;
+const FIGHT_FRAMES = 1800;
+const TELEGRAPH_FRAMES = 60;
+const REST_FRAMES = 40;
+const ATTACK_FRAMES: Record<BossAttack, number> = { SWEEP: 240, WEAVE: 300, BARRAGE: 90 };
+const ATTACKS = Object.keys(ATTACK_FRAMES) as BossAttack[];
+const BARRAGE_ROCKS = 5;
+const BEAM_THICKNESS = 10;
+const BASE_HEALTH = 30;
+const HEALTH_PER_SECTOR = 10;
+const CORE_RADIUS = 60;
+const POD_RADIUS = 25;
+
+// Score for getting through sector n's boss, times n
+export const SURVIVE_BONUS = 1000;
+export const DEFEAT_BONUS = 2500;
+
+export const createBoss = (sector: number): BossState => {
+    const maxHp = BASE_HEALTH + HEALTH_PER_SECTOR * (sector - 1);
+    return {
+        phase: 'ENTER', phaseFrame: 0, hp: maxHp, maxHp, timeLeft: FIGHT_FRAMES,
+        attack: null, attackFrame: 0, drops: []
+    };
+};
+
+// --- Geometry ---
+
+const easeOut = (t: number) => 1 - (1 - t) * (1 - t);
+
+export const getBossCore = (s: SimState, boss: BossState): Point => {
+    const home = s.worldWidth - 130;
+    const away = s.worldWidth + 200;
+    let x = home;
+    if (boss.phase === 'ENTER') x = away + (home - away) * easeOut(Math.min(boss.phaseFrame / ENTER_FRAMES, 1));
+    if (boss.phase === 'LEAVE') x = home + (away - home) * Math.min(boss.phaseFrame / LEAVE_FRAMES, 1);
+    const bob = boss.phase === 'FIGHT' ? Math.sin(boss.phaseFrame * 0.02) * 20 : 0;
+    return { x, y: s.worldHeight / 2 + bob };
+};
+
+// The two beam emitters, above and below the core
+export const getBossPods = (s: SimState, boss: BossState): Point[] => {
+    const core = getBossCore(s, boss);
+    const spread = s.worldHeight * 0.3;
+    return [{ x: core.x - 30, y: core.y - spread }, { x: core.x - 30, y: core.y + spread }];
+};
+
+export const getBossShapes = (s: SimState, boss: BossState): Shape[] => {
+    const core = getBossCore(s, boss);
+    const hexagon: [number, number][] = [];
+    for (let i = 0; i < 6; i++) {
+        const a = (i / 6) * Math.PI * 2;
+        hexagon.push([Math.cos(a) * CORE_RADIUS, Math.sin(a) * CORE_RADIUS]);
+    }
+    return [
+        placeShape(polygon(...hexagon), core.x, core.y),
+        ...getBossPods(s, boss).map(p => circle(p.x, p.y, POD_RADIUS))
+    ];
+};
+
+// Where each beam crosses the ship's column, as fractions of the screen height.
+// Every pattern keeps a gap the ship can fly in.
+const beamTargets = (attack: BossAttack, t: number): [number, number] => {
+    if (attack === 'SWEEP') {
+        // Pincer closing on the middle and opening again
+        const close = Math.sin(Math.PI * t) * 0.35;
+        return [0.05 + close, 0.95 - close];
+    }
+    // A gap that weaves up and down
+    const gap = 0.5 + 0.25 * Math.sin(Math.PI * 2 * t);
+    return [gap - 0.12, gap + 0.12];
+};
+
+export const getBossBeams = (s: SimState, boss: BossState): BossBeam[] => {
+    const { attack } = boss;
+    if (boss.phase !== 'FIGHT' || (attack !== 'SWEEP' && attack !== 'WEAVE')) return [];
+    // Telegraphed at the angle the attack opens with
+    const t = Math.max(0, Math.min((boss.attackFrame - TELEGRAPH_FRAMES) / ATTACK_FRAMES[attack], 1));
+    const targets = beamTargets(attack, t);
+    const aimX = s.px + s.width / 2;
+    return getBossPods(s, boss).map((pod, i) => {
+        const angle = Math.atan2(targets[i] * s.worldHeight - pod.y, aimX - pod.x);
+        return {
+            x: pod.x, y: pod.y, angle,
+            // Out past the left edge of the screen
+            length: (pod.x + 50) / Math.abs(Math.cos(angle)),
+            live: boss.attackFrame >= TELEGRAPH_FRAMES
+        };
+    });
+};
+
+export const getBeamShape = (beam: BossBeam): Shape =>
+    placeShape(rect(0, -BEAM_THICKNESS / 2, beam.length, BEAM_THICKNESS), beam.x, beam.y, beam.angle);
+
+// --- Behaviour ---
+
+const startAttack = (s: SimState, boss: BossState) => {
+    const attack = ATTACKS[Math.floor(nextFloat(s.rng) * ATTACKS.length)];
+    boss.attack = attack;
+    boss.attackFrame = 0;
+    boss.drops = [];
+    if (attack === 'BARRAGE') {
+        // Spread across the screen ahead of the ship, one per lane
+        const left = s.px + 150;
+        const lane = (s.worldWidth - 250 - left) / BARRAGE_ROCKS;
+        for (let i = 0; i < BARRAGE_ROCKS; i++) boss.drops.push(left + (i + 0.2 + nextFloat(s.rng) * 0.6) * lane);
+    }
+};
+
+/**
+ * Advances the boss by `dt` frames (slowed by SLOWMO like the rest of the
+ * world). Damage and defeat are up to the caller.
+ */
+export const updateBoss = (s: SimState, boss: BossState, dt: number): BossAction[] => {
+    const actions: BossAction[] = [];
+    boss.phaseFrame += dt;
+
+    if (boss.phase === 'ENTER') {
+        if (boss.phaseFrame >= ENTER_FRAMES) {
+            boss.phase = 'FIGHT';
+            boss.phaseFrame = 0;
+        }
+        return actions;
+    }
+    if (boss.phase === 'LEAVE') {
+        if (boss.phaseFrame >= LEAVE_FRAMES) actions.push({ kind: 'ESCAPED' });
+        return actions;
+    }
+
+    boss.timeLeft -= dt;
+    if (boss.timeLeft <= 0) {
+        boss.phase = 'LEAVE';
+        boss.phaseFrame = 0;
+        boss.attack = null;
+        return actions;
+    }
+
+    const before = boss.attackFrame;
+    boss.attackFrame += dt;
+    if (boss.attack === null) {
+        if (boss.attackFrame >= REST_FRAMES) startAttack(s, boss);
+        return actions;
+    }
+    // The barrage falls when its telegraph ends
+    if (boss.attack === 'BARRAGE' && before < TELEGRAPH_FRAMES && boss.attackFrame >= TELEGRAPH_FRAMES) {
+        boss.drops.forEach(x => actions.push({ kind: 'DROP', x }));
+        boss.drops = [];
+    }
+    if (boss.attackFrame >= TELEGRAPH_FRAMES + ATTACK_FRAMES[boss.attack]) {
+        boss.attack = null;
+        boss.attackFrame = 0;
+    }
+    return actions;
+};
+
+// --- Drawing ---
+
+// `steady` holds the warnings at one brightness instead of flashing them
+export const renderBoss = (ctx: CanvasRenderingContext2D, s: SimState, boss: BossState, steady = false) => {
+    const core = getBossCore(s, boss);
+    const pods = getBossPods(s, boss);
+    const flash = steady ? 0.5 : Math.abs(Math.sin(boss.attackFrame * 0.3));
+
+    // Beams: a flickering sight line while telegraphed, the full laser once live
+    getBossBeams(s, boss).forEach(beam => {
+        ctx.save();
+        ctx.translate(beam.x, beam.y);
+        ctx.rotate(beam.angle);
+        if (beam.live) {
+            // Centred on the beam's axis
+            ctx.translate(0, -BEAM_THICKNESS / 2);
+            drawBeam(ctx, beam.length, BEAM_THICKNESS);
+        } else {
+            ctx.globalAlpha = 0.3 + 0.3 * flash;
+            ctx.strokeStyle = '#ff0000';
+            ctx.lineWidth = 2;
+            ctx.setLineDash([12, 8]);
+            ctx.beginPath();
+            ctx.moveTo(0, 0);
+            ctx.lineTo(beam.length, 0);
+            ctx.stroke();
+        }
+        ctx.restore();
+    });
+
+    // Barrage warnings along the top edge
+    if (boss.drops.length > 0) {
+        ctx.save();
+        ctx.globalAlpha = 0.5 + 0.5 * flash;
+        ctx.fillStyle = GAME_COLORS.obstacle;
+        ctx.font = 'bold 16px Orbitron';
+        ctx.textAlign = 'center';
+        boss.drops.forEach(x => {
+            ctx.beginPath();
+            ctx.moveTo(x - 12, 4);
+            ctx.lineTo(x + 12, 4);
+            ctx.lineTo(x, 24);
+            ctx.closePath();
+            ctx.fill();
+            ctx.fillText('!', x, 42);
+        });
+        ctx.restore();
+    }
+
+    ctx.save();
+    ctx.shadowBlur = 20;
+    ctx.shadowColor = GAME_COLORS.obstacle;
+    ctx.strokeStyle = GAME_COLORS.obstacle;
+    ctx.lineWidth = 3;
+
+    // Struts out to the pods
+    ctx.beginPath();
+    pods.forEach(p => {
+        ctx.moveTo(core.x, core.y);
+        ctx.lineTo(p.x, p.y);
+    });
+    ctx.stroke();
+
+    // Pods glow while their beams are charging or firing
+    const charging = getBossBeams(s, boss).length > 0;
+    pods.forEach(p => {
+        ctx.fillStyle = charging ? '#ff0000' : '#2d3436';
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, POD_RADIUS, 0, Math.PI*2);
+        ctx.fill();
+        ctx.stroke();
+    });
+
+    // Core
+    ctx.fillStyle = '#1a0b2e';
+    ctx.beginPath();
+    for (let i = 0; i < 6; i++) {
+        const a = (i / 6) * Math.PI * 2;
+        ctx.lineTo(core.x + Math.cos(a) * CORE_RADIUS, core.y + Math.sin(a) * CORE_RADIUS);
+    }
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    // Eye dims as it takes damage
+    ctx.fillStyle = GAME_COLORS.obstacle;
+    ctx.globalAlpha = 0.3 + 0.7 * (boss.hp / boss.maxHp);
+    ctx.beginPath();
+    ctx.arc(core.x - 10, core.y, 18, 0, Math.PI*2);
+    ctx.fill();
+    ctx.restore();
+};
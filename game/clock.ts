@@ -0,0 +1,33 @@
+// --- Fixed-Step Clock ---
+// Turns requestAnimationFrame timestamps into a whole number of 60 Hz
+// simulation steps, so the game runs at the same speed on every display.
+
+export const FIXED_STEP_MS = 1000 / 60;
+// Longer frames (tab switches, debugger pauses) are clamped instead of simulated
+export const MAX_FRAME_MS = 100;
+
+export interface FixedStepClock {
+    lastTime: number | null;
+    accumulator: number;
+    // Real time covered by the last frame, in 60 Hz frames (for purely visual motion)
+    frameScale: number;
+}
+
+export const createClock = (): FixedStepClock => ({ lastTime: null, accumulator: 0, frameScale: 0 });
+
+/**
+ * Feeds one animation frame into the clock and returns how many fixed steps to
+ * run. `timeScale` speeds up or stops simulated time (replay speed, pause).
+ */
+export const advanceClock = (clock: FixedStepClock, time: number, timeScale = 1) => {
+    const elapsed = clock.lastTime === null ? 0 : Math.min(Math.max(time - clock.lastTime, 0), MAX_FRAME_MS);
+    clock.lastTime = time;
+    clock.frameScale = elapsed / FIXED_STEP_MS;
+    clock.accumulator += elapsed * timeScale;
+    const steps = Math.floor(clock.accumulator / FIXED_STEP_MS);
+    clock.accumulator -= steps * FIXED_STEP_MS;
+    return steps;
+};
+
+// How far between the last two steps the current frame sits, for interpolated drawing.
+export const clockAlpha = (clock: FixedStepClock) => clock.accumulator / FIXED_STEP_MS;
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WORLD_WIDTH, WORLD_HEIGHT } from './constants';
+import { PRESETS } from './config';
+import { circle, compoundPenetration, getShipShapes, penetration, placeShape, rect, segment, shapeBounds } from './collision';
+import { startRun } from './simulation';
+
+const near = (actual: number, expected: number) =>
+    assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} is not ${expected}`);
+
+test('boxes overlap by the smallest push apart and miss by the gap', () => {
+    near(penetration(rect(0, 0, 100, 100), rect(95, 20, 50, 50)), 5);
+    near(penetration(rect(0, 0, 100, 100), rect(110, 20, 50, 50)), -10);
+    near(penetration(rect(0, 0, 100, 100), rect(20, 20, 10, 10)), 30); // Inside: out the nearest side
+});
+
+test('rounded shapes are measured from their curve, not their corners', () => {
+    near(penetration(circle(0, 0, 10), circle(30, 0, 15)), -5);
+    near(penetration(circle(0, 0, 10), circle(20, 0, 15)), 5);
+    // Off the box's corner the bounds overlap but the circle misses
+    const ball = circle(108, 108, 10);
+    assert.ok(shapeBounds([ball]).left < 100 && shapeBounds([ball]).top < 100);
+    near(penetration(rect(0, 0, 100, 100), ball), 10 - Math.hypot(8, 8));
+    near(penetration(rect(0, 0, 100, 100), circle(105, 50, 10)), 5);
+});
+
+test('a beam is a rounded segment and hits along its whole length', () => {
+    const beam = segment(0, 50, 400, 50, 5);
+    near(penetration(beam, rect(300, 52, 10, 10)), 3);
+    near(penetration(beam, rect(300, 60, 10, 10)), -5);
+    near(penetration(beam, rect(410, 45, 10, 10)), -5); // Past its rounded end
+});
+
+test('shapes turn with their angle', () => {
+    const diamond = placeShape(rect(-10, -10, 20, 20), 100, 100, Math.PI / 4);
+    // 2px inside its corner along x is deeper than that from its slanted sides
+    near(penetration(diamond, circle(112, 100, 0)), (Math.SQRT2 * 10 - 12) / Math.SQRT2);
+    assert.ok(penetration(diamond, circle(108, 108, 0)) < 0); // Where the square's corner was
+});
+
+test('the ship is hit by what touches its drawn arrowhead', () => {
+    const ship = startRun(WORLD_WIDTH, WORLD_HEIGHT, 1, PRESETS.NORMAL);
+    ship.px = 0;
+    ship.py = 0;
+    ship.pvy = 0;
+    const mid = ship.height / 2;
+    const hit = (x: number, y: number) => compoundPenetration(getShipShapes(ship), [circle(x, y, 0.5)]) > 0;
+    assert.equal(hit(ship.width / 2, mid), true);
+    assert.equal(hit(ship.width - 2, mid), true);  // The nose
+    assert.equal(hit(1, mid), false);              // The notch at the back
+    assert.equal(hit(ship.width - 2, 2), false);   // Beside the nose
+
+    // Diving tilts the nose down about the top of the tail
+    ship.pvy = 10;
+    assert.equal(hit(ship.width - 2, mid), false);
+    assert.equal(hit(25, 28), true);
+});
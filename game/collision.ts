@@ -0,0 +1,171 @@
+import type { Point, Ship } from './types';
+
+// --- Collision Shapes ---
+// Entities and the ship collide using shapes that follow what is drawn rather
+// than their bounding boxes. Every shape is convex, optionally rounded:
+// a circle is a rounded point and a segment a rounded line, so one separating
+// axis test covers all three kinds.
+
+export type Shape =
+    | { kind: 'polygon'; points: Point[] } // Convex, any winding
+    | { kind: 'circle'; x: number; y: number; radius: number }
+    | { kind: 'segment'; a: Point; b: Point; radius: number };
+
+export const polygon = (...points: [number, number][]): Shape =>
+    ({ kind: 'polygon', points: points.map(([x, y]) => ({ x, y })) });
+
+export const rect = (x: number, y: number, w: number, h: number): Shape =>
+    polygon([x, y], [x + w, y], [x + w, y + h], [x, y + h]);
+
+export const circle = (x: number, y: number, radius: number): Shape => ({ kind: 'circle', x, y, radius });
+
+export const segment = (ax: number, ay: number, bx: number, by: number, radius = 0): Shape =>
+    ({ kind: 'segment', a: { x: ax, y: ay }, b: { x: bx, y: by }, radius });
+
+// Rotates about the local origin, then moves to (x, y)
+export const placeShape = (shape: Shape, x: number, y: number, angle = 0): Shape => {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const move = (p: Point): Point => ({ x: x + p.x * cos - p.y * sin, y: y + p.x * sin + p.y * cos });
+    switch (shape.kind) {
+        case 'polygon': return { kind: 'polygon', points: shape.points.map(move) };
+        case 'circle': return { kind: 'circle', ...move(shape), radius: shape.radius };
+        case 'segment': return { kind: 'segment', a: move(shape.a), b: move(shape.b), radius: shape.radius };
+    }
+};
+
+// --- Ship ---
+
+// Nose-up/nose-down tilt, shared with the renderer so the hitbox turns with the sprite
+export const shipTilt = (pvy: number) => Math.min(pvy * 0.05, 0.5);
+
+// The drawn arrowhead has a notch at the back, so it is split into two convex halves
+export const getShipShapes = (s: Ship): Shape[] => {
+    const angle = shipTilt(s.pvy);
+    const nose: [number, number] = [s.width, s.height / 2];
+    const notch: [number, number] = [5, s.height / 2];
+    return [
+        polygon(nose, [0, 0], notch),
+        polygon(nose, notch, [0, s.height])
+    ].map(shape => placeShape(shape, s.px, s.py, angle));
+};
+
+// --- Separating Axis Test ---
+
+interface Hull {
+    points: Point[];
+    radius: number;
+}
+
+const toHull = (shape: Shape): Hull => {
+    switch (shape.kind) {
+        case 'polygon': return { points: shape.points, radius: 0 };
+        case 'circle': return { points: [{ x: shape.x, y: shape.y }], radius: shape.radius };
+        case 'segment': return { points: [shape.a, shape.b], radius: shape.radius };
+    }
+};
+
+const closestOnSegment = (p: Point, a: Point, b: Point): Point => {
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const len = abx * abx + aby * aby;
+    const t = len === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / len));
+    return { x: a.x + abx * t, y: a.y + aby * t };
+};
+
+// Closest point on the hull's outline (its core, before rounding)
+const closestOnHull = (p: Point, h: Hull): Point => {
+    if (h.points.length === 1) return h.points[0];
+    let best = h.points[0];
+    let bestDist = Infinity;
+    for (let i = 0; i < h.points.length; i++) {
+        const c = closestOnSegment(p, h.points[i], h.points[(i + 1) % h.points.length]);
+        const d = (c.x - p.x) ** 2 + (c.y - p.y) ** 2;
+        if (d < bestDist) { best = c; bestDist = d; }
+    }
+    return best;
+};
+
+const edgeNormals = (h: Hull, axes: Point[]) => {
+    const n = h.points.length;
+    if (n < 2) return;
+    // A segment only has one edge, not two
+    const edges = n === 2 ? 1 : n;
+    for (let i = 0; i < edges; i++) {
+        const a = h.points[i];
+        const b = h.points[(i + 1) % n];
+        axes.push({ x: a.y - b.y, y: b.x - a.x });
+    }
+};
+
+// Rounded corners can also be separated along the line from a vertex to the other hull
+const vertexAxes = (from: Hull, to: Hull, axes: Point[]) => {
+    for (const p of from.points) {
+        const c = closestOnHull(p, to);
+        axes.push({ x: c.x - p.x, y: c.y - p.y });
+    }
+};
+
+const project = (h: Hull, ax: number, ay: number) => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const p of h.points) {
+        const d = p.x * ax + p.y * ay;
+        if (d < min) min = d;
+        if (d > max) max = d;
+    }
+    return { min: min - h.radius, max: max + h.radius };
+};
+
+/**
+ * How deep two shapes overlap, in px: the smallest push that would separate
+ * them. Zero or negative when they don't touch, roughly minus the gap.
+ */
+export const penetration = (a: Shape, b: Shape): number => {
+    const ha = toHull(a);
+    const hb = toHull(b);
+    const axes: Point[] = [];
+    edgeNormals(ha, axes);
+    edgeNormals(hb, axes);
+    if (ha.radius > 0 || hb.radius > 0) {
+        vertexAxes(ha, hb, axes);
+        vertexAxes(hb, ha, axes);
+    }
+
+    let depth = Infinity;
+    for (const axis of axes) {
+        const len = Math.sqrt(axis.x * axis.x + axis.y * axis.y);
+        // Touching cores give a zero-length vertex axis; the edge normals cover that case
+        if (len < 1e-9) continue;
+        const pa = project(ha, axis.x / len, axis.y / len);
+        const pb = project(hb, axis.x / len, axis.y / len);
+        // Every axis is checked so a miss reports its widest gap, which near-misses rely on
+        depth = Math.min(depth, pa.max - pb.min, pb.max - pa.min);
+    }
+    // Only possible for two circles on the same spot
+    return depth === Infinity ? ha.radius + hb.radius : depth;
+};
+
+// Deepest overlap between any part of two compound shapes
+export const compoundPenetration = (a: Shape[], b: Shape[]) => {
+    let depth = -Infinity;
+    for (const sa of a) {
+        for (const sb of b) depth = Math.max(depth, penetration(sa, sb));
+    }
+    return depth;
+};
+
+// Axis-aligned bounds, used to skip the full test for things nowhere near each other
+export const shapeBounds = (shapes: Shape[]) => {
+    let left = Infinity, top = Infinity, right = -Infinity, bottom = -Infinity;
+    for (const shape of shapes) {
+        const h = toHull(shape);
+        for (const p of h.points) {
+            left = Math.min(left, p.x - h.radius);
+            right = Math.max(right, p.x + h.radius);
+            top = Math.min(top, p.y - h.radius);
+            bottom = Math.max(bottom, p.y + h.radius);
+        }
+    }
+    return { left, top, right, bottom };
+};
@@ -0,0 +1,130 @@
+import type { TimedEffectId } from './effects';
+
+// --- Game Tuning ---
+// Everything that decides how a run feels. A copy lives on each SimState, so
+// presets, replays and the dev tuning panel all go through the same object.
+
+export interface GameConfig {
+    // Vertical kinematics, in px per frame (squared)
+    gravity: number;
+    flightPower: number;
+    maxSpeedY: number;
+
+    // Scroll speed at the start of a run
+    initialSpeed: number;
+    // Frames between spawn ticks at difficulty 1 (divided by difficulty)
+    spawnRate: number;
+    // Difficulty rises by difficultyStep every difficultyInterval px of distance
+    difficultyInterval: number;
+    difficultyStep: number;
+
+    // Hazard contact shallower than this many px is forgiven as a graze
+    hitboxPadding: number;
+
+    // Frames each timed powerup effect lasts
+    powerupDurations: Record<TimedEffectId, number>;
+    // How far MAGNET reaches, in px
+    magnetRadius: number;
+    // Frames of shield the ship starts with (bought in the shop)
+    startingShield: number;
+
+    // Distance between boss encounters
+    bossInterval: number;
+
+    // Combat mode: the ship can shoot and shooting enemies spawn
+    combat: boolean;
+    // Frames between shots while fire is held
+    fireInterval: number;
+    // Heat each shot adds (out of MAX_HEAT) and how much bleeds off per frame
+    heatPerShot: number;
+    coolRate: number;
+}
+
+export type PresetId = 'EASY' | 'NORMAL' | 'HARD' | 'INSANE';
+
+export const PRESET_IDS: PresetId[] = ['EASY', 'NORMAL', 'HARD', 'INSANE'];
+
+export const DEFAULT_PRESET: PresetId = 'NORMAL';
+
+export const PRESETS: Record<PresetId, GameConfig> = {
+    EASY: {
+        gravity: 0.35,
+        flightPower: -0.7,
+        maxSpeedY: 7,
+        initialSpeed: 5,
+        spawnRate: 85,
+        difficultyInterval: 2500,
+        difficultyStep: 0.08,
+        hitboxPadding: 4,
+        powerupDurations: { SHIELD: 800, MAGNET: 800, SLOWMO: 400, DOUBLE: 600, GHOST: 300 },
+        magnetRadius: 300,
+        startingShield: 0,
+        bossInterval: 20000,
+        combat: false,
+        fireInterval: 8,
+        heatPerShot: 12,
+        coolRate: 0.6
+    },
+    NORMAL: {
+        gravity: 0.4,
+        flightPower: -0.8,
+        maxSpeedY: 8,
+        initialSpeed: 6,
+        spawnRate: 70,
+        difficultyInterval: 2000,
+        difficultyStep: 0.1,
+        hitboxPadding: 2,
+        powerupDurations: { SHIELD: 600, MAGNET: 600, SLOWMO: 300, DOUBLE: 500, GHOST: 240 },
+        magnetRadius: 300,
+        startingShield: 0,
+        bossInterval: 15000,
+        combat: false,
+        fireInterval: 8,
+        heatPerShot: 12,
+        coolRate: 0.6
+    },
+    HARD: {
+        gravity: 0.45,
+        flightPower: -0.9,
+        maxSpeedY: 9,
+        initialSpeed: 7,
+        spawnRate: 60,
+        difficultyInterval: 1800,
+        difficultyStep: 0.12,
+        hitboxPadding: 1,
+        powerupDurations: { SHIELD: 500, MAGNET: 500, SLOWMO: 250, DOUBLE: 400, GHOST: 200 },
+        magnetRadius: 300,
+        startingShield: 0,
+        bossInterval: 14000,
+        combat: false,
+        fireInterval: 8,
+        heatPerShot: 12,
+        coolRate: 0.6
+    },
+    INSANE: {
+        gravity: 0.5,
+        flightPower: -1.0,
+        maxSpeedY: 10,
+        initialSpeed: 8.5,
+        spawnRate: 48,
+        difficultyInterval: 1500,
+        difficultyStep: 0.15,
+        hitboxPadding: 0,
+        powerupDurations: { SHIELD: 400, MAGNET: 400, SLOWMO: 200, DOUBLE: 300, GHOST: 160 },
+        magnetRadius: 300,
+        startingShield: 0,
+        bossInterval: 12000,
+        combat: false,
+        fireInterval: 8,
+        heatPerShot: 12,
+        coolRate: 0.6
+    }
+};
+
+export const isPresetId = (v: unknown): v is PresetId => PRESET_IDS.includes(v as PresetId);
+
+// Deep enough copy that tuning one run never leaks into the preset table.
+export const cloneConfig = (config: GameConfig): GameConfig => ({
+    ...config,
+    powerupDurations: { ...config.powerupDurations }
+});
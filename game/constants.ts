@@ -0,0 +1,26 @@
+// --- Constants & Config ---
+// Tunable physics and pacing live in config.ts
+// Every run is laid out on a world this size, whatever the window, so a seed
+// flies the same course on any screen; the renderer scales it to fit
+export const WORLD_WIDTH = 1280;
+export const WORLD_HEIGHT = 720;
+export const PLAYER_WIDTH = 40;
+export const PLAYER_HEIGHT = 25;
+// Chance of a lone random entity on a spawn tick, weighed against the authored patterns
+export const SINGLE_SPAWN_WEIGHT = 10;
+// A hazard that passes within this many px of the ship counts as a near-miss
+export const NEAR_MISS_DISTANCE = 12;
+// Combat mode: shots alive at once, their speed in px per frame, and the heat scale
+export const PROJECTILE_POOL_SIZE = 24;
+export const PROJECTILE_SPEED = 14;
+export const MAX_HEAT = 100;
+export const OVERHEAT_RECOVERY = 40;
+export const GAME_COLORS = {
+    bg: '#050510',
+    player: '#00f3ff',
+    playerShield: '#ffffff',
+    ground: '#b026ff',
+    obstacle: '#ff2a6d',
+    coin: '#f1c40f',
+    text: '#05d9e8'
+};
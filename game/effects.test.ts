@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WORLD_WIDTH, WORLD_HEIGHT } from './constants';
+import { PRESETS } from './config';
+import { applyEffect, consumeEffect, getActiveEffects, hasEffect, tickEffects } from './effects';
+import { startRun, step } from './simulation';
+
+const createShip = () => {
+    const s = startRun(WORLD_WIDTH, WORLD_HEIGHT, 1, PRESETS.NORMAL);
+    s.effects = {};
+    return s;
+};
+
+test('timed effects run down and are gone once they expire', () => {
+    const s = createShip();
+    applyEffect(s, 'SHIELD', 10);
+    tickEffects(s, 9);
+    assert.equal(hasEffect(s, 'SHIELD'), true);
+    assert.deepEqual(getActiveEffects(s), [{ id: 'SHIELD', fraction: 0.1, charges: 0 }]);
+    tickEffects(s, 1);
+    assert.equal(hasEffect(s, 'SHIELD'), false);
+    assert.deepEqual(s.effects, {});
+    assert.deepEqual(getActiveEffects(s), []);
+});
+
+test('picking an effect up again follows its stacking rule', () => {
+    const s = createShip();
+    applyEffect(s, 'MAGNET', 10);
+    tickEffects(s, 6);
+    applyEffect(s, 'MAGNET', 10);
+    assert.equal(s.effects.MAGNET?.remaining, 10); // Back to full
+
+    applyEffect(s, 'DOUBLE', 10);
+    tickEffects(s, 4);
+    applyEffect(s, 'DOUBLE', 10);
+    assert.deepEqual(s.effects.DOUBLE, { remaining: 16, duration: 16, charges: 0 }); // On top
+    applyEffect(s, 'DOUBLE', 10);
+    assert.deepEqual(s.effects.DOUBLE, { remaining: 20, duration: 20, charges: 0 }); // Up to two durations
+
+    applyEffect(s, 'REVIVE');
+    applyEffect(s, 'REVIVE');
+    assert.equal(s.effects.REVIVE?.charges, 1);
+    tickEffects(s, 1000); // Charges don't run down
+    assert.equal(hasEffect(s, 'REVIVE'), true);
+    assert.equal(hasEffect(s, 'DOUBLE'), false);
+
+    applyEffect(s, 'BOMB'); // Fired by the caller, never stored
+    assert.equal(s.effects.BOMB, undefined);
+});
+
+test('spending an effect ends it or uses up one charge', () => {
+    const s = createShip();
+    applyEffect(s, 'SHIELD', 100);
+    applyEffect(s, 'REVIVE');
+    assert.equal(consumeEffect(s, 'SHIELD'), true);
+    assert.equal(consumeEffect(s, 'SHIELD'), false);
+    assert.equal(consumeEffect(s, 'REVIVE'), true);
+    assert.equal(consumeEffect(s, 'REVIVE'), false);
+    assert.deepEqual(s.effects, {});
+});
+
+test('a ship\'s effects expire on the frame they run out', () => {
+    const s = createShip();
+    applyEffect(s, 'GHOST', 5);
+    for (let i = 0; i < 4; i++) step(s, { thrust: false, power: 1, fire: false });
+    assert.equal(hasEffect(s, 'GHOST'), true);
+    step(s, { thrust: false, power: 1, fire: false });
+    assert.equal(hasEffect(s, 'GHOST'), false);
+});
@@ -0,0 +1,120 @@
+import { GAME_COLORS } from './constants';
+import type { Ship } from './types';
+
+// --- Active Effects ---
+// What a powerup does once picked up. Timed effects run down frame by frame;
+// charges sit until something spends them; instant effects fire on pickup and
+// are never stored. Picking up an effect that is already running follows its
+// stacking rule.
+
+export type TimedEffectId = 'SHIELD' | 'MAGNET' | 'SLOWMO' | 'DOUBLE' | 'GHOST';
+export type EffectId = TimedEffectId | 'REVIVE' | 'BOMB';
+
+export type StackRule =
+    // Back to the full duration
+    | { kind: 'REFRESH' }
+    // Adds another duration on top, up to `cap` durations in total
+    | { kind: 'EXTEND'; cap: number }
+    // Banks a charge, up to `max`
+    | { kind: 'CHARGE'; max: number }
+    // Fires straight away
+    | { kind: 'INSTANT' };
+
+export interface EffectDefinition {
+    id: EffectId;
+    name: string;
+    // HUD badge text
+    label: string;
+    color: string;
+    stacking: StackRule;
+}
+
+export interface ActiveEffect {
+    remaining: number; // Frames left (timed effects)
+    duration: number;  // What `remaining` drains from, for the HUD
+    charges: number;   // Banked uses (charge effects)
+}
+
+export const EFFECTS: Record<EffectId, EffectDefinition> = {
+    SHIELD: { id: 'SHIELD', name: 'SHIELD', label: 'S', color: GAME_COLORS.playerShield, stacking: { kind: 'REFRESH' } },
+    MAGNET: { id: 'MAGNET', name: 'MAGNET', label: 'M', color: '#9b59b6', stacking: { kind: 'REFRESH' } },
+    SLOWMO: { id: 'SLOWMO', name: 'SLOW-MO', label: 'SM', color: '#2ecc71', stacking: { kind: 'REFRESH' } },
+    DOUBLE: { id: 'DOUBLE', name: '2X SCORE', label: '2X', color: '#ff9900', stacking: { kind: 'EXTEND', cap: 2 } },
+    GHOST: { id: 'GHOST', name: 'GHOST', label: 'G', color: '#a29bfe', stacking: { kind: 'REFRESH' } },
+    REVIVE: { id: 'REVIVE', name: 'EXTRA LIFE', label: '+1', color: '#ff4757', stacking: { kind: 'CHARGE', max: 1 } },
+    BOMB: { id: 'BOMB', name: 'BOMB', label: 'B', color: '#e67e22', stacking: { kind: 'INSTANT' } }
+};
+
+// Display and tally order
+export const EFFECT_IDS = Object.keys(EFFECTS) as EffectId[];
+
+export const isTimedEffect = (id: EffectId): id is TimedEffectId => {
+    const { kind } = EFFECTS[id].stacking;
+    return kind === 'REFRESH' || kind === 'EXTEND';
+};
+
+/**
+ * Starts an effect, or stacks it onto the running one. Instant effects are
+ * left to the caller to fire. `duration` is ignored for charge effects.
+ */
+export const applyEffect = (s: Ship, id: EffectId, duration = 0) => {
+    const rule = EFFECTS[id].stacking;
+    const current = s.effects[id];
+    switch (rule.kind) {
+        case 'REFRESH':
+            s.effects[id] = { remaining: duration, duration, charges: 0 };
+            break;
+        case 'EXTEND': {
+            const remaining = Math.min((current?.remaining ?? 0) + duration, duration * rule.cap);
+            s.effects[id] = { remaining, duration: Math.max(remaining, duration), charges: 0 };
+            break;
+        }
+        case 'CHARGE':
+            s.effects[id] = { remaining: 0, duration: 0, charges: Math.min((current?.charges ?? 0) + 1, rule.max) };
+            break;
+        case 'INSTANT':
+            break;
+    }
+};
+
+export const hasEffect = (s: Ship, id: EffectId) => {
+    const e = s.effects[id];
+    return !!e && (e.remaining > 0 || e.charges > 0);
+};
+
+// Ends a timed effect or spends one charge. False if there was nothing to spend.
+export const consumeEffect = (s: Ship, id: EffectId) => {
+    const e = s.effects[id];
+    if (!e || !hasEffect(s, id)) return false;
+    if (e.charges > 0) e.charges--;
+    else e.remaining = 0;
+    if (e.remaining <= 0 && e.charges <= 0) delete s.effects[id];
+    return true;
+};
+
+export const tickEffects = (s: Ship, dt: number) => {
+    for (const id of EFFECT_IDS) {
+        const e = s.effects[id];
+        if (!e || !isTimedEffect(id)) continue;
+        e.remaining -= dt;
+        if (e.remaining <= 0) delete s.effects[id];
+    }
+};
+
+// For HUDs: `fraction` is how much of a timed effect is left (charges show as full)
+export interface EffectStatus {
+    id: EffectId;
+    fraction: number;
+    charges: number;
+}
+
+export const getActiveEffects = (s: Ship): EffectStatus[] => {
+    const active: EffectStatus[] = [];
+    for (const id of EFFECT_IDS) {
+        const e = s.effects[id];
+        if (!e || !hasEffect(s, id)) continue;
+        const fraction = isTimedEffect(id) ? Math.max(0, Math.min(1, e.remaining / e.duration)) : 1;
+        active.push({ id, fraction, charges: e.charges });
+    }
+    return active;
+};
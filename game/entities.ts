@@ -0,0 +1,374 @@
+import { GAME_COLORS } from './constants';
+import { circle, placeShape, polygon, rect, segment, type Shape } from './collision';
+import { EFFECTS, type EffectId } from './effects';
+import type { Entity, EntityType, SimState } from './types';
+
+// --- Entity Registry ---
+// Every kind of thing that scrolls past the player is one definition here:
+// how big it is, how often and from when it spawns, how it moves, what
+// touching it does and how it is drawn. The simulation only talks to the
+// registry, so new content doesn't need changes anywhere else.
+
+export type CollideEffect =
+    | { kind: 'HAZARD' }
+    | { kind: 'PICKUP'; score: number }
+    // Applies an effect; timed ones last config.powerupDurations[effect] frames
+    | { kind: 'POWERUP'; effect: EffectId };
+
+// Extra per-step motion on top of the world scrolling left
+export type MoveBehavior = (e: Entity, s: SimState) => void;
+
+export interface EntityDefinition {
+    type: EntityType;
+    width: number;
+    height: number;
+    color: string;
+    // Relative chance against the other eligible kinds
+    spawnWeight: number;
+    // Only spawns once the run's difficulty reaches this
+    minDifficulty: number;
+    // Spawn y is picked in [top, worldHeight - bottom)
+    spawnBand: { top: number; bottom: number };
+    // Spawns a row of copies trailing the first one
+    group?: { count: number; spacing: number; wave: number };
+    // Pulled towards the player while MAGNET is active
+    magnetic?: boolean;
+    // Only spawns in combat mode
+    combatOnly?: boolean;
+    // Can be shot down in combat mode: hits it takes (rolled per spawn) and the score for it.
+    // Hazards without this soak up shots unharmed.
+    destructible?: { minHealth: number; maxHealth: number; score: number };
+    // Fires `projectile` entities at the ship every `interval` frames while on screen
+    shooter?: { interval: number; projectile: EntityType; speed: number };
+    move?: MoveBehavior;
+    // Collision shapes relative to the top-left corner, matching the drawing; defaults to the full box
+    hitbox?: Shape[];
+    onCollide: CollideEffect;
+    // Drawn with the origin translated to the entity's top-left corner
+    render: (ctx: CanvasRenderingContext2D, e: Entity) => void;
+}
+
+// Frames a shooter spends visibly charging before it can fire
+export const SHOT_WARNING_FRAMES = 30;
+
+// --- Behaviors ---
+
+export const sineBehavior = (amplitude: number, frequency: number): MoveBehavior => (e, s) => {
+    e.y += Math.sin(s.frameCount * frequency) * amplitude;
+};
+
+
+// --- Registry ---
+
+const registry = new Map<EntityType, EntityDefinition>();
+
+export const registerEntity = (def: EntityDefinition) => {
+    registry.set(def.type, def);
+    return def;
+};
+
+export const getEntityDefinition = (type: EntityType) => {
+    const def = registry.get(type);
+    if (!def) throw new Error(`Unknown entity type ${type}`);
+    return def;
+};
+
+// In registration order, which is also the order spawn weights are laid out in.
+export const getEntityDefinitions = () => [...registry.values()];
+
+// An entity's collision shapes in world space
+export const getEntityShapes = (e: Entity): Shape[] => {
+    const hitbox = getEntityDefinition(e.type).hitbox ?? [rect(0, 0, e.width, e.height)];
+    return hitbox.map(shape => placeShape(shape, e.x, e.y));
+};
+
+// --- Shared Renderers ---
+
+const renderPowerup = (ctx: CanvasRenderingContext2D, e: Entity) => {
+    const { color, onCollide } = getEntityDefinition(e.type);
+    ctx.shadowColor = color;
+    ctx.strokeStyle = color;
+    ctx.fillStyle = 'rgba(255,255,255,0.2)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(e.width/2, e.height/2, e.width/2, 0, Math.PI*2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = '#fff';
+    ctx.font = '14px Orbitron';
+    ctx.textAlign = 'center';
+    ctx.fillText(onCollide.kind === 'POWERUP' ? EFFECTS[onCollide.effect].label : '?', e.width/2, e.height/2 + 5);
+};
+
+// A laser along +x from the origin, `thickness` tall downwards
+export const drawBeam = (ctx: CanvasRenderingContext2D, length: number, thickness: number) => {
+    ctx.shadowColor = '#ff0000';
+    ctx.shadowBlur = 20;
+
+    // Core
+    ctx.fillStyle = '#ff0000';
+    ctx.fillRect(0, 0, length, thickness);
+
+    // Bright center line
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, thickness/2 - 1, length, 2);
+};
+
+// --- Built-in Entities ---
+// Registration order matters for determinism: a seed picks kinds by walking
+// the cumulative weights in this order.
+
+registerEntity({
+    type: 'SHIELD',
+    width: 30, height: 30,
+    color: EFFECTS.SHIELD.color,
+    spawnWeight: 5,
+    minDifficulty: 1,
+    spawnBand: { top: 50, bottom: 50 },
+    hitbox: [circle(15, 15, 15)],
+    onCollide: { kind: 'POWERUP', effect: 'SHIELD' },
+    render: renderPowerup
+});
+
+registerEntity({
+    type: 'MAGNET',
+    width: 30, height: 30,
+    color: EFFECTS.MAGNET.color,
+    spawnWeight: 3,
+    minDifficulty: 1,
+    spawnBand: { top: 50, bottom: 50 },
+    hitbox: [circle(15, 15, 15)],
+    onCollide: { kind: 'POWERUP', effect: 'MAGNET' },
+    render: renderPowerup
+});
+
+registerEntity({
+    type: 'SLOWMO',
+    width: 30, height: 30,
+    color: EFFECTS.SLOWMO.color,
+    spawnWeight: 2,
+    minDifficulty: 1,
+    spawnBand: { top: 50, bottom: 50 },
+    hitbox: [circle(15, 15, 15)],
+    onCollide: { kind: 'POWERUP', effect: 'SLOWMO' },
+    render: renderPowerup
+});
+
+registerEntity({
+    type: 'COIN',
+    width: 20, height: 20,
+    color: GAME_COLORS.coin,
+    spawnWeight: 20,
+    minDifficulty: 1,
+    spawnBand: { top: 50, bottom: 50 },
+    group: { count: 5, spacing: 30, wave: 20 },
+    magnetic: true,
+    hitbox: [circle(10, 10, 10)],
+    onCollide: { kind: 'PICKUP', score: 50 },
+    render: (ctx, e) => {
+        ctx.shadowColor = GAME_COLORS.coin;
+        ctx.fillStyle = GAME_COLORS.coin;
+        ctx.beginPath();
+        ctx.arc(e.width/2, e.height/2, e.width/2, 0, Math.PI*2);
+        ctx.fill();
+        ctx.fillStyle = '#000';
+        ctx.font = 'bold 12px Orbitron';
+        ctx.fillText('$', 6, 14);
+    }
+});
+
+registerEntity({
+    type: 'LASER',
+    // Horizontal beam instead of full height wall
+    width: 200, height: 10,
+    color: '#ff0000',
+    spawnWeight: 20,
+    minDifficulty: 1,
+    spawnBand: { top: 75, bottom: 75 },
+    // The beam only; the emitter ends are scenery
+    hitbox: [rect(0, 0, 200, 10)],
+    onCollide: { kind: 'HAZARD' },
+    render: (ctx, e) => {
+        drawBeam(ctx, e.width, e.height);
+
+        // Emitter ends (visual only)
+        ctx.fillStyle = '#333';
+        ctx.fillRect(-5, -5, 10, e.height + 10);
+        ctx.fillRect(e.width - 5, -5, 10, e.height + 10);
+    }
+});
+
+registerEntity({
+    type: 'BIRD',
+    width: 30, height: 30,
+    color: '#f1c40f',
+    spawnWeight: 20,
+    minDifficulty: 1,
+    spawnBand: { top: 50, bottom: 50 },
+    move: sineBehavior(3, 0.1),
+    // The two wing strokes of the V
+    hitbox: [segment(0, 15, 15, 0, 1), segment(15, 0, 30, 15, 1)],
+    destructible: { minHealth: 1, maxHealth: 1, score: 100 },
+    onCollide: { kind: 'HAZARD' },
+    render: (ctx, e) => {
+        ctx.shadowColor = '#f1c40f';
+        ctx.strokeStyle = '#f1c40f';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(0, e.height/2);
+        ctx.lineTo(e.width/2, 0);
+        ctx.lineTo(e.width, e.height/2);
+        ctx.stroke();
+    }
+});
+
+registerEntity({
+    type: 'ROCK',
+    width: 50, height: 50,
+    color: GAME_COLORS.obstacle,
+    spawnWeight: 30,
+    minDifficulty: 1,
+    spawnBand: { top: 50, bottom: 100 },
+    hitbox: [polygon([10, 0], [50, 10], [45, 50], [0, 45])],
+    // Some rocks are armoured and take a few hits
+    destructible: { minHealth: 1, maxHealth: 3, score: 150 },
+    onCollide: { kind: 'HAZARD' },
+    render: (ctx, e) => {
+        ctx.shadowColor = GAME_COLORS.obstacle;
+        ctx.fillStyle = '#2d3436';
+        ctx.strokeStyle = GAME_COLORS.obstacle;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(10, 0);
+        ctx.lineTo(e.width, 10);
+        ctx.lineTo(e.width - 5, e.height);
+        ctx.lineTo(0, e.height - 5);
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+
+        // Armour plating, one ring per extra hit left
+        for (let i = 1; i < (e.hp ?? 1); i++) {
+            const inset = i * 7;
+            ctx.beginPath();
+            ctx.moveTo(10 + inset * 0.2, inset);
+            ctx.lineTo(e.width - inset, 10 + inset * 0.2);
+            ctx.lineTo(e.width - 5 - inset * 0.2, e.height - inset);
+            ctx.lineTo(inset, e.height - 5 - inset * 0.2);
+            ctx.closePath();
+            ctx.stroke();
+        }
+    }
+});
+
+// Rarer powerups, held back until the run has warmed up
+
+registerEntity({
+    type: 'DOUBLE',
+    width: 30, height: 30,
+    color: EFFECTS.DOUBLE.color,
+    spawnWeight: 2,
+    minDifficulty: 1.1,
+    spawnBand: { top: 50, bottom: 50 },
+    hitbox: [circle(15, 15, 15)],
+    onCollide: { kind: 'POWERUP', effect: 'DOUBLE' },
+    render: renderPowerup
+});
+
+registerEntity({
+    type: 'GHOST',
+    width: 30, height: 30,
+    color: EFFECTS.GHOST.color,
+    spawnWeight: 2,
+    minDifficulty: 1.2,
+    spawnBand: { top: 50, bottom: 50 },
+    hitbox: [circle(15, 15, 15)],
+    onCollide: { kind: 'POWERUP', effect: 'GHOST' },
+    render: renderPowerup
+});
+
+registerEntity({
+    type: 'BOMB',
+    width: 30, height: 30,
+    color: EFFECTS.BOMB.color,
+    spawnWeight: 1,
+    minDifficulty: 1.3,
+    spawnBand: { top: 50, bottom: 50 },
+    hitbox: [circle(15, 15, 15)],
+    onCollide: { kind: 'POWERUP', effect: 'BOMB' },
+    render: renderPowerup
+});
+
+registerEntity({
+    type: 'REVIVE',
+    width: 30, height: 30,
+    color: EFFECTS.REVIVE.color,
+    spawnWeight: 1,
+    minDifficulty: 1.5,
+    spawnBand: { top: 50, bottom: 50 },
+    hitbox: [circle(15, 15, 15)],
+    onCollide: { kind: 'POWERUP', effect: 'REVIVE' },
+    render: renderPowerup
+});
+
+// --- Combat Mode ---
+
+registerEntity({
+    type: 'DRONE',
+    width: 40, height: 24,
+    color: '#ff00aa',
+    spawnWeight: 12,
+    minDifficulty: 1,
+    spawnBand: { top: 50, bottom: 100 },
+    combatOnly: true,
+    move: sineBehavior(1.5, 0.05),
+    hitbox: [polygon([0, 12], [12, 0], [40, 4], [40, 20], [12, 24])],
+    destructible: { minHealth: 2, maxHealth: 2, score: 250 },
+    shooter: { interval: 90, projectile: 'BOLT', speed: 5 },
+    onCollide: { kind: 'HAZARD' },
+    render: (ctx, e) => {
+        ctx.shadowColor = '#ff00aa';
+        ctx.fillStyle = '#1a0011';
+        ctx.strokeStyle = '#ff00aa';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(0, e.height/2);
+        ctx.lineTo(12, 0);
+        ctx.lineTo(e.width, 4);
+        ctx.lineTo(e.width, e.height - 4);
+        ctx.lineTo(12, e.height);
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+
+        // Eye glows up as the next shot charges (telegraph)
+        const charge = 1 - Math.min((e.cooldown ?? SHOT_WARNING_FRAMES) / SHOT_WARNING_FRAMES, 1);
+        ctx.fillStyle = charge > 0 ? `rgba(255, 255, 255, ${0.3 + charge * 0.7})` : '#ff00aa';
+        ctx.beginPath();
+        ctx.arc(12, e.height/2, 3 + charge * 3, 0, Math.PI*2);
+        ctx.fill();
+    }
+});
+
+// Fired by shooters; never spawns on its own
+registerEntity({
+    type: 'BOLT',
+    width: 12, height: 6,
+    color: '#ff00aa',
+    spawnWeight: 0,
+    minDifficulty: 1,
+    spawnBand: { top: 0, bottom: 0 },
+    hitbox: [segment(3, 3, 9, 3, 3)],
+    destructible: { minHealth: 1, maxHealth: 1, score: 10 },
+    onCollide: { kind: 'HAZARD' },
+    render: (ctx, e) => {
+        ctx.shadowColor = '#ff00aa';
+        ctx.fillStyle = '#fff';
+        ctx.strokeStyle = '#ff00aa';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.ellipse(e.width/2, e.height/2, e.width/2, e.height/2, 0, 0, Math.PI*2);
+        ctx.fill();
+        ctx.stroke();
+    }
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WORLD_WIDTH, WORLD_HEIGHT } from './constants';
+import { PRESETS } from './config';
+import { getDifficulty, getShips, startRun, startVersusRun } from './simulation';
+import type { Entity } from './types';
+import { computeSafeCorridor, isFlyable } from './fairness';
+
+const rock = (y: number): Entity => ({ id: y, x: 600, y, width: 50, height: 50, type: 'ROCK', markedForDeletion: false });
+
+// A wall with one 75px gap at 300px
+const GAPPED_WALL = [0, 50, 100, 150, 200, 250, 375, 425, 475, 525, 575, 625, 675];
+
+test('the corridor starts at the ship and narrows to the gap it has to fly through', () => {
+    const s = startRun(WORLD_WIDTH, WORLD_HEIGHT, 1, PRESETS.NORMAL);
+    s.py = 320;
+    assert.deepEqual(computeSafeCorridor(s, getDifficulty(s))[0], { x: s.px, ranges: [[320, 320]] });
+
+    s.entities = GAPPED_WALL.map(y => rock(y));
+    assert.equal(isFlyable(s, getDifficulty(s)), true);
+    const corridor = computeSafeCorridor(s, getDifficulty(s));
+    assert.deepEqual(corridor[0].ranges, [[320, 320]]);
+    const level = corridor.filter(slice => slice.x + s.width > 600 && slice.x < 650);
+    assert.ok(level.length > 0);
+    // Top edge between the rock above and one ship height over the rock below
+    for (const slice of level) assert.deepEqual(slice.ranges, [[300, 350]]);
+});
+
+test('a wall with no gap leaves no way through', () => {
+    const s = startRun(WORLD_WIDTH, WORLD_HEIGHT, 1, PRESETS.NORMAL);
+    s.entities = [...GAPPED_WALL, 300, 325].map(y => rock(y));
+    assert.equal(isFlyable(s, getDifficulty(s)), false);
+    assert.deepEqual(computeSafeCorridor(s, getDifficulty(s)), []);
+
+    // Nor does planning one that hasn't spawned yet
+    s.entities = [];
+    const planned = [...GAPPED_WALL, 300, 325].map(y => ({ type: 'ROCK' as const, x: 600, y }));
+    assert.equal(isFlyable(s, getDifficulty(s), planned), false);
+    assert.equal(isFlyable(s, getDifficulty(s), planned.slice(0, -2)), true);
+});
+
+test('every ship in versus is judged from its own height', () => {
+    const s = startVersusRun(WORLD_WIDTH, WORLD_HEIGHT, 1, PRESETS.NORMAL);
+    const [top, bottom] = getShips(s);
+    // A wall from just under the ceiling to the ground: only a ship high up can reach the opening in time
+    const wall = Array.from({ length: 12 }, (_, i) => ({ type: 'ROCK', x: 400, y: 100 + i * 50 }));
+    assert.equal(isFlyable(s, getDifficulty(s), wall), true);
+    assert.equal(isFlyable(s, getDifficulty(s), wall, top), true);
+    assert.equal(isFlyable(s, getDifficulty(s), wall, bottom), false);
+});
+
+test('hazards with their own velocity are followed to where they will be', () => {
+    const s = startRun(WORLD_WIDTH, WORLD_HEIGHT, 1, PRESETS.NORMAL);
+    s.py = 320;
+    s.entities = GAPPED_WALL.map(y => rock(y));
+    assert.equal(isFlyable(s, getDifficulty(s)), true);
+    // A rock dropping out of the wall above sits in the gap by the time the wall arrives
+    s.entities.push({ ...rock(233), vx: 0, vy: 1 });
+    assert.equal(isFlyable(s, getDifficulty(s)), false);
+});
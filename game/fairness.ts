@@ -0,0 +1,215 @@
+import { getEntityDefinition } from './entities';
+import { hasEffect } from './effects';
+import type { GameConfig } from './config';
+import type { Entity, EntityType, Ship, SimState } from './types';
+
+// --- Fairness ---
+// Before the spawner commits a hazard it asks whether the ship, flying with
+// its real kinematics from where it is right now, still has a way through
+// everything on (and queued for) the screen. The search runs over a grid of
+// (height, vertical speed) states, two frames per step with one input held.
+// Hazards are tested as full bounding boxes while real collisions use their
+// drawn shapes, which absorbs the grid's rounding and keeps the answer conservative.
+
+const CELL = 10;         // px of height per grid row
+const VY_RES = 0.8;      // px/frame of vertical speed per grid column
+const FRAMES_PER_STEP = 2;
+const MAX_HORIZON = 240; // frames
+
+// A hazard that isn't on screen yet
+export interface PlannedHazard {
+    type: EntityType;
+    x: number; // Where it sits at the current frame, possibly past the spawn edge
+    y: number;
+}
+
+export interface CorridorSlice {
+    x: number; // Screen x the ship would be level with at this step
+    ranges: [number, number][]; // Safe ship y ranges (top edge)
+}
+
+interface Grid {
+    rows: number;
+    cols: number;
+    maxSpeedY: number;
+    steps: number;
+    frameSpeed: number;
+    // blocked[step][row]: a ship whose top edge is on this row during the step gets hit
+    blocked: Uint8Array[];
+    // Landing state for each state and held input, or -1 for the ground
+    up: Int32Array;
+    down: Int32Array;
+    start: number;
+}
+
+const vyToCol = (vy: number, maxSpeedY: number) => Math.round((vy + maxSpeedY) / VY_RES);
+const colToVy = (col: number, maxSpeedY: number) => col * VY_RES - maxSpeedY;
+const clampVy = (vy: number, maxSpeedY: number) => Math.max(Math.min(vy, maxSpeedY), -maxSpeedY);
+
+// Hazards ahead of (or level with) the ship, plus queued and planned ones
+const collectHazards = (s: SimState, ship: Ship, planned: PlannedHazard[], frameSpeed: number): Entity[] => {
+    const hazards: Entity[] = [];
+    for (const e of s.entities) {
+        if (e.x + e.width < ship.px) continue;
+        if (getEntityDefinition(e.type).onCollide.kind !== 'HAZARD') continue;
+        hazards.push({ ...e });
+    }
+    for (const q of s.spawnQueue) {
+        const def = getEntityDefinition(q.type);
+        if (def.onCollide.kind !== 'HAZARD') continue;
+        const x = s.worldWidth + 50 + q.dx + (q.frame - s.frameCount) * frameSpeed;
+        hazards.push(plannedToEntity(def.type, x, q.y, -1));
+    }
+    planned.forEach((p, i) => hazards.push(plannedToEntity(p.type, p.x, p.y, -2 - i)));
+    return hazards;
+};
+
+const plannedToEntity = (type: EntityType, x: number, y: number, id: number): Entity => {
+    const def = getEntityDefinition(type);
+    return { id, x, y, width: def.width, height: def.height, type, markedForDeletion: false };
+};
+
+const buildGrid = (s: SimState, ship: Ship, difficulty: number, planned: PlannedHazard[]): Grid => {
+    // Time slows for everyone while any ship still flying has SLOWMO
+    const slowed = [s, ...s.rivals].some(other => other.alive && hasEffect(other, 'SLOWMO'));
+    const timeScale = slowed ? 0.5 : 1;
+    const frameSpeed = (s.speed + difficulty) * timeScale;
+    const hazards = collectHazards(s, ship, planned, frameSpeed);
+
+    // Look ahead until the furthest hazard has slid past the ship
+    const farthest = hazards.reduce((m, h) => Math.max(m, h.x + h.width), ship.px);
+    const frames = Math.min(Math.ceil((farthest - ship.px) / frameSpeed) + FRAMES_PER_STEP, MAX_HORIZON);
+    const steps = Math.ceil(frames / FRAMES_PER_STEP);
+
+    const groundY = s.worldHeight - ship.height - 10;
+    const rows = Math.max(Math.ceil(groundY / CELL) + 1, 1);
+    const { maxSpeedY } = s.config;
+    const cols = vyToCol(maxSpeedY, maxSpeedY) + 1;
+
+    // Move copies of the hazards forward frame by frame, marking the rows they block
+    const probe = { ...s };
+    const blocked: Uint8Array[] = [];
+    for (let step = 0; step < steps; step++) {
+        const mask = new Uint8Array(rows);
+        for (let f = 0; f < FRAMES_PER_STEP; f++) {
+            probe.frameCount++;
+            for (const h of hazards) {
+                // As step() moves them: the scroll, then any velocity of their own, then their pattern
+                h.x -= frameSpeed;
+                if (h.vx !== undefined) h.x += h.vx;
+                if (h.vy !== undefined) h.y += h.vy;
+                getEntityDefinition(h.type).move?.(h, probe);
+                if (h.x >= ship.px + ship.width || h.x + h.width <= ship.px) continue;
+                const from = Math.max(Math.floor((h.y - ship.height) / CELL), 0);
+                const to = Math.min(Math.ceil((h.y + h.height) / CELL), rows - 1);
+                for (let row = from; row <= to; row++) {
+                    const y = row * CELL;
+                    if (y < h.y + h.height && y + ship.height > h.y) mask[row] = 1;
+                }
+            }
+        }
+        blocked.push(mask);
+    }
+
+    // The ship's motion doesn't depend on the hazards, so every transition is worked out once
+    const size = rows * cols;
+    const up = new Int32Array(size);
+    const down = new Int32Array(size);
+    for (let row = 0, i = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++, i++) {
+            up[i] = land(s.config, row, col, true, timeScale, groundY, rows, cols);
+            down[i] = land(s.config, row, col, false, timeScale, groundY, rows, cols);
+        }
+    }
+
+    const startRow = Math.min(Math.max(Math.round(ship.py / CELL), 0), rows - 1);
+    return {
+        rows, cols, maxSpeedY, steps, frameSpeed, blocked, up, down,
+        start: startRow * cols + vyToCol(clampVy(ship.pvy, maxSpeedY), maxSpeedY)
+    };
+};
+
+// Holds one input for a step from a grid state. Returns the landing state, or -1 on the ground.
+const land = (
+    config: GameConfig, row: number, col: number, thrust: boolean,
+    timeScale: number, groundY: number, rows: number, cols: number
+) => {
+    const { maxSpeedY } = config;
+    const accel = (thrust ? config.flightPower : 0) + config.gravity;
+    let y = row * CELL;
+    let vy = colToVy(col, maxSpeedY);
+    for (let f = 0; f < FRAMES_PER_STEP; f++) {
+        vy = clampVy(vy + accel, maxSpeedY);
+        y += vy * timeScale;
+        if (y < 0) { y = 0; vy = 0; }
+        if (y > groundY) return -1;
+    }
+    return Math.min(Math.round(y / CELL), rows - 1) * cols + vyToCol(vy, maxSpeedY);
+};
+
+// States reachable at each step (index 0 is the start); stops early when everything dies
+const search = (g: Grid) => {
+    const seen = new Int32Array(g.rows * g.cols).fill(-1);
+    const layers: number[][] = [[g.start]];
+    for (let step = 0; step < g.steps; step++) {
+        const mask = g.blocked[step];
+        const next: number[] = [];
+        for (const i of layers[step]) {
+            const a = g.up[i];
+            const b = g.down[i];
+            if (a >= 0 && seen[a] !== step && !mask[(a / g.cols) | 0]) { seen[a] = step; next.push(a); }
+            if (b >= 0 && seen[b] !== step && !mask[(b / g.cols) | 0]) { seen[b] = step; next.push(b); }
+        }
+        if (next.length === 0) return null;
+        layers.push(next);
+    }
+    return layers;
+};
+
+/**
+ * True when `ship` (the first by default) can still get past every hazard on
+ * screen, queued, and in `planned`, flying from its current height and speed.
+ */
+export const isFlyable = (s: SimState, difficulty: number, planned: PlannedHazard[] = [], ship: Ship = s) =>
+    search(buildGrid(s, ship, difficulty, planned)) !== null;
+
+/**
+ * The states the ship can be in without being doomed, as y ranges per step,
+ * for the debug overlay. Empty when there is no way through.
+ */
+export const computeSafeCorridor = (s: SimState, difficulty: number, ship: Ship = s): CorridorSlice[] => {
+    const g = buildGrid(s, ship, difficulty, []);
+    const layers = search(g);
+    if (!layers) return [];
+
+    // Walk back from the end, keeping only states with a surviving successor
+    const size = g.rows * g.cols;
+    let ahead = new Uint8Array(size);
+    layers[layers.length - 1].forEach(i => { ahead[i] = 1; });
+    const viable: number[][] = new Array(layers.length);
+    viable[layers.length - 1] = layers[layers.length - 1];
+    for (let step = layers.length - 2; step >= 0; step--) {
+        const mask = g.blocked[step];
+        const keep = new Uint8Array(size);
+        viable[step] = layers[step].filter(i => {
+            const a = g.up[i];
+            const b = g.down[i];
+            const ok = (a >= 0 && ahead[a] === 1 && !mask[(a / g.cols) | 0]) ||
+                (b >= 0 && ahead[b] === 1 && !mask[(b / g.cols) | 0]);
+            if (ok) keep[i] = 1;
+            return ok;
+        });
+        ahead = keep;
+    }
+
+    return viable.map((states, step) => {
+        const rows = [...new Set(states.map(i => (i / g.cols) | 0))].sort((a, b) => a - b);
+        const ranges: [number, number][] = [];
+        for (const row of rows) {
+            const last = ranges[ranges.length - 1];
+            if (last && row * CELL - last[1] <= CELL) last[1] = row * CELL;
+            else ranges.push([row * CELL, row * CELL]);
+        }
+        return { x: ship.px + step * FRAMES_PER_STEP * g.frameSpeed, ranges };
+    });
+};
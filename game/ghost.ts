@@ -0,0 +1,148 @@
+import { cloneConfig, isPresetId, type PresetId } from './config';
+import { parseReplayConfig, type ReplayConfig } from './replay';
+import type { SimState } from './types';
+
+// --- Ghosts ---
+// The flight path of a finished run, one sample per simulation step, so a
+// later run on the same seed can fly against it. Unlike a replay it can't
+// reproduce anything; it is just where the ship was and how far it had got.
+
+export const GHOST_FORMAT = 'sky-rider-ghost';
+export const GHOST_VERSION = 2;
+
+export interface Ghost {
+    format: typeof GHOST_FORMAT;
+    version: number;
+    initials: string;
+    preset: PresetId;
+    seed: number;
+    daily: string;
+    // The course it flew, so racing it flies the same one whoever's upgrades and screen it meets
+    config: ReplayConfig;
+    score: number;
+    recordedAt: string;
+    // Indexed by frame: ship top edge and distance flown, rounded to whole px
+    ys: number[];
+    distances: number[];
+}
+
+export const createGhost = (s: SimState, config: ReplayConfig, daily: string): Ghost => ({
+    format: GHOST_FORMAT,
+    version: GHOST_VERSION,
+    initials: '',
+    preset: config.preset,
+    seed: s.seed,
+    daily,
+    config: { ...config, game: cloneConfig(config.game) },
+    score: 0,
+    recordedAt: new Date().toISOString(),
+    ys: [Math.round(s.py)],
+    distances: [Math.round(s.distance)]
+});
+
+// Call once after each simulation step
+export const recordGhostFrame = (ghost: Ghost, s: SimState) => {
+    ghost.ys.push(Math.round(s.py));
+    ghost.distances.push(Math.round(s.distance));
+};
+
+export const finishGhost = (ghost: Ghost, score: number, initials: string) => {
+    ghost.score = score;
+    ghost.initials = initials;
+};
+
+// Frames the ghost flew before crashing
+export const ghostFrames = (ghost: Ghost) => ghost.ys.length - 1;
+
+export interface GhostPosition {
+    y: number;
+    vy: number;       // Px moved per frame, for the tilt
+    distance: number;
+    done: boolean;    // Past the ghost's crash; it holds its last position
+}
+
+// Where the ghost was at `frame`, which may fall between two steps
+export const ghostAt = (ghost: Ghost, frame: number): GhostPosition => {
+    const last = ghostFrames(ghost);
+    const f = Math.max(0, Math.min(frame, last));
+    const i = Math.min(Math.floor(f), Math.max(last - 1, 0));
+    const j = Math.min(i + 1, last);
+    const t = f - i;
+    return {
+        y: ghost.ys[i] + (ghost.ys[j] - ghost.ys[i]) * t,
+        vy: ghost.ys[j] - ghost.ys[i],
+        distance: ghost.distances[i] + (ghost.distances[j] - ghost.distances[i]) * t,
+        done: frame > last
+    };
+};
+
+// Px the run is ahead of the ghost (negative when behind). Once the ghost has
+// crashed the run is measured against how far it got.
+export const ghostGap = (ghost: Ghost, s: SimState) => s.distance - ghostAt(ghost, s.frameCount).distance;
+
+// --- Import / Export ---
+// Samples are stored as differences from the one before, which are small
+// numbers and keep a long run's file to a manageable size.
+
+const encodeDeltas = (values: number[]) => values.map((v, i) => i === 0 ? v : v - values[i - 1]);
+
+const decodeDeltas = (deltas: number[]) => {
+    const values: number[] = [];
+    deltas.forEach((d, i) => values.push(i === 0 ? d : values[i - 1] + d));
+    return values;
+};
+
+export const serializeGhost = (ghost: Ghost) => {
+    const { ys, distances, ...rest } = ghost;
+    return JSON.stringify({ ...rest, ys: encodeDeltas(ys), distances: encodeDeltas(distances) });
+};
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Parsed JSON whose fields haven't been checked yet
+type Fields = Record<string, unknown>;
+
+const isFields = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isSamples = (v: unknown): v is number[] => Array.isArray(v) && v.length > 0 && v.every(isFiniteNumber);
+
+// Throws with a player-readable message when the file isn't a ghost we can race.
+export const parseGhost = (text: string): Ghost => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Ghost file is not valid JSON');
+    }
+    if (!isFields(data) || data.format !== GHOST_FORMAT) {
+        throw new Error('Not a Sky Rider ghost');
+    }
+    // Version 1 didn't keep the course, so there is no telling what it flew
+    if (isFiniteNumber(data.version) && data.version < GHOST_VERSION) {
+        throw new Error('Ghost was recorded with an older version of the game and can no longer be raced');
+    }
+    if (data.version !== GHOST_VERSION) {
+        throw new Error(`Unsupported ghost version ${data.version}`);
+    }
+    const config = parseReplayConfig(data.config);
+    if (
+        !isFiniteNumber(data.seed) || !isFiniteNumber(data.score) || !isPresetId(data.preset) ||
+        !config || config.preset !== data.preset ||
+        !isSamples(data.ys) || !isSamples(data.distances) || data.ys.length !== data.distances.length
+    ) {
+        throw new Error('Ghost file is corrupted');
+    }
+    return {
+        format: GHOST_FORMAT,
+        version: GHOST_VERSION,
+        initials: typeof data.initials === 'string' ? data.initials.slice(0, 3) : '',
+        preset: data.preset,
+        seed: data.seed >>> 0,
+        daily: typeof data.daily === 'string' ? data.daily : '',
+        config,
+        score: data.score,
+        recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+        ys: decodeDeltas(data.ys),
+        distances: decodeDeltas(data.distances)
+    };
+};
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PATTERNS, parsePatterns, validatePattern, type PatternDefinition } from './patterns';
+
+// Two rocks (50px tall) stacked `spacing` px apart, top to top
+const rocks = (spacing: number): PatternDefinition => ({
+    name: 'rock-pair',
+    weight: 1,
+    minDifficulty: 1,
+    entities: [
+        { type: 'ROCK', at: 0, dx: 0, dy: 0 },
+        { type: 'ROCK', at: 0, dx: 0, dy: spacing }
+    ]
+});
+
+test('the built-in patterns are all valid', () => {
+    assert.ok(PATTERNS.length > 0);
+    for (const p of PATTERNS) assert.deepEqual(validatePattern(p), [], p.name);
+});
+
+// `count` rocks stacked into one touching wall
+const wall = (count: number): PatternDefinition => ({
+    name: 'rock-wall',
+    weight: 1,
+    minDifficulty: 1,
+    entities: Array.from({ length: count }, (_, i) => ({ type: 'ROCK', at: 0, dx: 0, dy: i * 50 }))
+});
+
+test('hazards must touch or leave the ship room to pass', () => {
+    assert.deepEqual(validatePattern(rocks(100)), []); // 50px gap
+    assert.deepEqual(validatePattern(rocks(60)), ['rock-pair: ROCK #0 and ROCK #1 leave a 10px gap, the ship needs 25px']);
+    assert.deepEqual(validatePattern(rocks(60), 5), []);
+});
+
+test('walls that could shut the ship in are rejected', () => {
+    // A 720px sky less the ground strip leaves 660px for a wall with room over or under it
+    assert.deepEqual(validatePattern(wall(13)), []);
+    assert.deepEqual(validatePattern(wall(14)), [
+        'rock-wall: hazards #0, #1, #2, #3, #4, #5, #6, #7, #8, #9, #10, #11, #12, #13 wall off 700px, leaving no way past in a 720px sky'
+    ]);
+    assert.deepEqual(validatePattern(wall(14), 25, 1080), []);
+    // Gaps the ship can't fit through don't break a wall up
+    const leaky = wall(14);
+    leaky.entities[7].dy += 10;
+    assert.match(validatePattern(leaky).join('\n'), /wall off 700px/);
+});
+
+test('malformed patterns report every problem', () => {
+    const errors = validatePattern({
+        name: 'broken',
+        weight: -1,
+        minDifficulty: 1,
+        entities: [
+            { type: 'NOPE', at: 0, dx: 0, dy: 0 },
+            { type: 'ROCK', at: 1.5, dx: -10, dy: 0 }
+        ]
+    });
+    assert.deepEqual(errors, [
+        'broken: weight must be a number >= 0',
+        'broken: entity #0 has unknown type NOPE',
+        "broken: entity #1 needs a whole 'at' >= 0",
+        "broken: entity #1 needs a 'dx' >= 0"
+    ]);
+    assert.deepEqual(validatePattern({ ...rocks(50), entities: [] }), ['rock-pair: needs at least one entity']);
+});
+
+test('a pattern file is rejected with every problem in it', () => {
+    assert.throws(() => parsePatterns({}), /must be a JSON array/);
+    assert.throws(() => parsePatterns([rocks(50), rocks(60)]), /Invalid patterns:\nrock-pair: ROCK #0 and ROCK #1 leave a 10px gap/);
+    assert.equal(parsePatterns([rocks(50)]).length, 1);
+});
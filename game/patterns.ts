@@ -0,0 +1,178 @@
+import { PLAYER_HEIGHT, WORLD_HEIGHT } from './constants';
+import { PRESETS } from './config';
+import { getEntityDefinition, type EntityDefinition } from './entities';
+import type { EntityType } from './types';
+import builtinPatterns from './patterns.json' with { type: 'json' };
+
+// --- Authored Patterns ---
+// Hand-designed obstacle sequences (see patterns.json). Each entry is placed
+// relative to the pattern's anchor: `dy` pixels below it, spawned `at` frames
+// after the pattern starts and `dx` pixels further right than a normal spawn.
+
+export interface PatternEntity {
+    type: EntityType;
+    at: number;
+    dx: number;
+    dy: number;
+}
+
+export interface PatternDefinition {
+    name: string;
+    // Spawn weight at difficulty 1, plus weightPerDifficulty for each full point above it
+    weight: number;
+    weightPerDifficulty?: number;
+    minDifficulty: number;
+    entities: PatternEntity[];
+}
+
+// Keeps patterns clear of the ceiling and the ground strip
+const PATTERN_MARGIN_TOP = 50;
+const PATTERN_MARGIN_BOTTOM = 60;
+// Height of the ground strip the ship crashes into, as the simulation has it
+const GROUND_CLEARANCE = 10;
+
+// Scroll speed used to turn `at` delays into horizontal spacing when validating:
+// the slowest preset's, since real speed only goes up and that widens the spacing.
+const NOMINAL_SCROLL = Math.min(...Object.values(PRESETS).map(c => c.initialSpeed)) + 1;
+
+interface Box {
+    index: number;
+    def: EntityDefinition;
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+}
+
+const layoutBoxes = (p: PatternDefinition): Box[] => p.entities.map((e, index) => {
+    const def = getEntityDefinition(e.type);
+    const left = e.dx + e.at * NOMINAL_SCROLL;
+    return { index, def, left, right: left + def.width, top: e.dy, bottom: e.dy + def.height };
+});
+
+// Vertical span of the pattern relative to its anchor
+export const getPatternExtent = (p: PatternDefinition) => {
+    let top = Infinity;
+    let bottom = -Infinity;
+    for (const e of p.entities) {
+        top = Math.min(top, e.dy);
+        bottom = Math.max(bottom, e.dy + getEntityDefinition(e.type).height);
+    }
+    return { top, bottom };
+};
+
+// Frames until the last entity is on screen and clear of the spawn edge
+export const getPatternDuration = (p: PatternDefinition) => {
+    let frames = 0;
+    for (const e of p.entities) {
+        const def = getEntityDefinition(e.type);
+        frames = Math.max(frames, e.at + Math.ceil((e.dx + def.width) / NOMINAL_SCROLL));
+    }
+    return frames;
+};
+
+export const getPatternWeight = (p: PatternDefinition, difficulty: number) => {
+    if (difficulty < p.minDifficulty) return 0;
+    return Math.max(0, p.weight + (p.weightPerDifficulty ?? 0) * (difficulty - 1));
+};
+
+// Range of anchor y values that keep the whole pattern on screen, or null if it doesn't fit.
+export const getPatternAnchorRange = (p: PatternDefinition, worldHeight: number) => {
+    const extent = getPatternExtent(p);
+    const min = PATTERN_MARGIN_TOP - extent.top;
+    const max = worldHeight - PATTERN_MARGIN_BOTTOM - extent.bottom;
+    return max > min ? { min, max } : null;
+};
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/**
+ * Returns every problem with a pattern; empty means it is safe to use.
+ * Hazards that line up vertically must either touch (forming a wall) or
+ * leave at least `minGap` pixels for the ship to fly through, and no wall may
+ * be so tall that, placed anywhere in a `worldHeight` sky, it could leave the
+ * ship no way over or under it.
+ */
+export const validatePattern = (p: PatternDefinition, minGap = PLAYER_HEIGHT, worldHeight = WORLD_HEIGHT): string[] => {
+    const name = p && typeof p.name === 'string' && p.name ? p.name : '(unnamed)';
+    const errors: string[] = [];
+    if (!p || typeof p.name !== 'string' || !p.name) errors.push('pattern needs a name');
+    if (!isNumber(p?.weight) || p.weight < 0) errors.push(`${name}: weight must be a number >= 0`);
+    if (p?.weightPerDifficulty !== undefined && !isNumber(p.weightPerDifficulty)) {
+        errors.push(`${name}: weightPerDifficulty must be a number`);
+    }
+    if (!isNumber(p?.minDifficulty)) errors.push(`${name}: minDifficulty must be a number`);
+    if (!Array.isArray(p?.entities) || p.entities.length === 0) {
+        errors.push(`${name}: needs at least one entity`);
+        return errors;
+    }
+
+    p.entities.forEach((e, i) => {
+        if (!e || typeof e.type !== 'string') {
+            errors.push(`${name}: entity #${i} has no type`);
+            return;
+        }
+        try {
+            getEntityDefinition(e.type);
+        } catch {
+            errors.push(`${name}: entity #${i} has unknown type ${e.type}`);
+        }
+        if (!isNumber(e.at) || e.at < 0 || !Number.isInteger(e.at)) errors.push(`${name}: entity #${i} needs a whole 'at' >= 0`);
+        if (!isNumber(e.dx) || e.dx < 0) errors.push(`${name}: entity #${i} needs a 'dx' >= 0`);
+        if (!isNumber(e.dy)) errors.push(`${name}: entity #${i} needs a numeric 'dy'`);
+    });
+    if (errors.length) return errors;
+
+    // For each hazard, the nearest hazard below it in the same column decides the gap
+    const hazards = layoutBoxes(p).filter(b => b.def.onCollide.kind === 'HAZARD');
+    for (const a of hazards) {
+        let below: Box | null = null;
+        for (const b of hazards) {
+            if (b === a || b.left >= a.right || b.right <= a.left || b.top < a.top) continue;
+            if (!below || b.top < below.top) below = b;
+        }
+        if (!below) continue;
+        const gap = below.top - a.bottom;
+        if (gap > 0 && gap < minGap) {
+            errors.push(
+                `${name}: ${a.def.type} #${a.index} and ${below.def.type} #${below.index} leave a ${gap}px gap, the ship needs ${minGap}px`
+            );
+        }
+    }
+
+    // Walls, checked at each hazard's leading edge: the ship needs `minGap` clear
+    // above or below, so a wall taller than the sky less two of those can shut it in
+    const tallest = worldHeight - GROUND_CLEARANCE - 2 * minGap;
+    const reported = new Set<string>();
+    const checkWall = (wall: Box[]) => {
+        const height = Math.max(...wall.map(b => b.bottom)) - wall[0].top;
+        const ids = [...wall].sort((a, b) => a.index - b.index).map(b => `#${b.index}`).join(', ');
+        if (height <= tallest || reported.has(ids)) return;
+        reported.add(ids);
+        errors.push(`${name}: hazards ${ids} wall off ${height}px, leaving no way past in a ${worldHeight}px sky`);
+    };
+    for (const edge of hazards) {
+        const column = hazards.filter(b => b.left <= edge.left && b.right > edge.left).sort((a, b) => a.top - b.top);
+        let wall: Box[] = [];
+        for (const b of column) {
+            if (wall.length && b.top - Math.max(...wall.map(w => w.bottom)) >= minGap) {
+                checkWall(wall);
+                wall = [];
+            }
+            wall.push(b);
+        }
+        checkWall(wall);
+    }
+    return errors;
+};
+
+// Validates a list of patterns, throwing with every problem found.
+export const parsePatterns = (data: unknown, minGap = PLAYER_HEIGHT, worldHeight = WORLD_HEIGHT): PatternDefinition[] => {
+    if (!Array.isArray(data)) throw new Error('Patterns must be a JSON array');
+    const patterns = data as PatternDefinition[];
+    const errors = patterns.flatMap(p => validatePattern(p, minGap, worldHeight));
+    if (errors.length) throw new Error(`Invalid patterns:\n${errors.join('\n')}`);
+    return patterns;
+};
+
+export const PATTERNS = parsePatterns(builtinPatterns);
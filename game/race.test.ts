@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WORLD_WIDTH, WORLD_HEIGHT } from './constants';
+import { PRESETS } from './config';
+import { createRemoteRacer, rankStandings, receivePacket } from './race';
+import { startRun, step } from './simulation';
+
+const config = { worldWidth: WORLD_WIDTH, worldHeight: WORLD_HEIGHT, preset: 'NORMAL' as const, game: PRESETS.NORMAL };
+
+const standing = (id: number, distance: number, score: number) => ({
+    id, name: `P${id}`, place: null, distance, score, finished: true, left: false
+});
+
+test('standings are ranked on the runs flown from each racer\'s inputs', () => {
+    // They dive straight into the ground but claim to have flown the furthest
+    const racer = createRemoteRacer(2, 'P2', 9, config);
+    receivePacket(racer, { frame: 400, inputs: [{ frame: 0, thrust: false, power: 1, fire: false }] });
+    assert.equal(racer.sim.isPlaying, false);
+
+    // We hold the middle of the sky for a while
+    const ours = startRun(WORLD_WIDTH, WORLD_HEIGHT, 9, PRESETS.NORMAL);
+    while (ours.isPlaying && ours.frameCount < 240) step(ours, { thrust: ours.pvy > 0, power: 1, fire: false });
+    assert.ok(ours.distance > racer.sim.distance);
+
+    const runs = new Map([[1, ours], [2, racer.sim]]);
+    const standings = rankStandings([standing(2, 1e9, 1e9), standing(1, 0, 0), standing(3, 50, 0)], true, runs);
+    assert.deepEqual(standings.map(r => [r.id, r.place, r.distance]), [
+        [1, 1, Math.floor(ours.distance)],
+        [2, 2, Math.floor(racer.sim.distance)],
+        [3, 3, 50] // No run of theirs here: the relay's figures stand
+    ]);
+
+    // Places wait for the relay to say everyone is done
+    assert.deepEqual(rankStandings([standing(1, 10, 0), standing(2, 20, 0)], false, new Map()).map(r => r.place), [null, null]);
+});
@@ -0,0 +1,165 @@
+import { hasEffect } from './effects';
+import { createGhost, ghostAt, ghostFrames, recordGhostFrame, type Ghost, type GhostPosition } from './ghost';
+import {
+    createReplay, createReplayCursor, nextReplayInput, recordInput, parseReplayInput,
+    type Replay, type ReplayConfig, type ReplayCursor, type ReplayInput
+} from './replay';
+import { startRun, step } from './simulation';
+import type { SimInput, SimState } from './types';
+
+// --- Networked Races ---
+// Everyone in a race flies the same seed and course, so a racer's inputs are
+// all it takes to fly their run again here. Each opponent gets a simulation
+// of their own, stepped only as far as their inputs have arrived, and is
+// drawn where it was on the frame we are on; that lines everyone up on the
+// course however late their packets are. Past their last packet a ship is
+// carried forward on the input it was last given until the next one lands.
+
+// Frames a racer is carried past their last packet before it waits for them
+export const MAX_PREDICTION = 30;
+// Frames between packets while the input isn't changing (changes go at once)
+export const SEND_INTERVAL = 6;
+// Most frames one packet may fly a racer forward, so a bad one can't stall the game catching up
+export const MAX_PACKET_FRAMES = 600;
+
+// The packet each racer streams: input changes since the last one, and how many frames they have flown
+export interface RacePacket {
+    frame: number;
+    inputs: ReplayInput[];
+}
+
+export interface RemoteRacer {
+    id: number;
+    name: string;
+    replay: Replay;       // Their inputs so far
+    cursor: ReplayCursor;
+    frame: number;        // Frames flown, as of their latest packet
+    sim: SimState;        // Their run, flown as far as their inputs go
+    path: Ghost;          // Where `sim` has been, frame by frame
+}
+
+export const createRemoteRacer = (id: number, name: string, seed: number, config: ReplayConfig): RemoteRacer => {
+    const replay = createReplay(seed, '', config);
+    const sim = startRun(config.worldWidth, config.worldHeight, seed, replay.config.game);
+    return { id, name, replay, cursor: createReplayCursor(), frame: 0, sim, path: createGhost(sim, config, '') };
+};
+
+// A clean copy of a packet from the relay, or null if it can't follow the ones
+// before it: frames only move forward, and so do the inputs, which each fall
+// between the racer's last packet and this one
+export const parseRacePacket = (racer: RemoteRacer, frame: unknown, inputs: unknown): RacePacket | null => {
+    if (typeof frame !== 'number' || !Number.isInteger(frame) || frame < racer.frame || !Array.isArray(inputs)) return null;
+    const parsed: ReplayInput[] = [];
+    let from = racer.frame;
+    for (const data of inputs) {
+        const input = parseReplayInput(data);
+        if (!input || input.frame < from || input.frame > frame) return null;
+        parsed.push(input);
+        from = input.frame;
+    }
+    return { frame, inputs: parsed };
+};
+
+// Flies the racer on as far as the packet goes, or MAX_PACKET_FRAMES of it;
+// the next packet picks up any that are left
+export const receivePacket = (racer: RemoteRacer, packet: RacePacket) => {
+    racer.replay.inputs.push(...packet.inputs);
+    racer.frame = packet.frame;
+    const { sim } = racer;
+    const until = Math.min(packet.frame, sim.frameCount + MAX_PACKET_FRAMES);
+    while (sim.isPlaying && sim.frameCount < until) {
+        step(sim, nextReplayInput(racer.replay, racer.cursor, sim.frameCount));
+        recordGhostFrame(racer.path, sim);
+    }
+};
+
+// Crashed, as far as their inputs have shown
+export const racerFinished = (racer: RemoteRacer) => !racer.sim.isPlaying;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Dead reckoning from their last known state: the simulation's climb and fall
+// on the input they last sent, with nothing to hit
+const predict = (racer: RemoteRacer, frames: number): GhostPosition => {
+    const { sim, cursor } = racer;
+    const { gravity, flightPower, maxSpeedY } = sim.config;
+    const floor = sim.worldHeight - sim.height - 10;
+    const speed = sim.speed * (hasEffect(sim, 'SLOWMO') ? 0.5 : 1);
+    const steps = Math.ceil(frames);
+    let y = sim.py, vy = sim.pvy, distance = sim.distance;
+    let lastY = y, lastDistance = distance;
+    for (let i = 0; i < steps; i++) {
+        lastY = y;
+        lastDistance = distance;
+        if (cursor.thrust) vy += flightPower * cursor.power;
+        vy = Math.max(Math.min(vy + gravity, maxSpeedY), -maxSpeedY);
+        y = Math.min(Math.max(y + vy, 0), floor);
+        distance += speed;
+    }
+    // Part-way through the last step
+    const t = frames - (steps - 1);
+    return { y: lerp(lastY, y, t), vy: y - lastY, distance: lerp(lastDistance, distance, t), done: false };
+};
+
+// Where the racer was on `frame` of their run, which may fall between two steps
+export const racerAt = (racer: RemoteRacer, frame: number): GhostPosition => {
+    const known = ghostFrames(racer.path);
+    if (frame <= known || racerFinished(racer)) return ghostAt(racer.path, frame);
+    return predict(racer, Math.min(frame - known, MAX_PREDICTION));
+};
+
+// --- Standings ---
+// The relay ranks racers on the distances they report for themselves, so the
+// order is settled again here from the runs flown on their inputs. Racers
+// without a run (ourselves, unless passed in) keep the relay's figures.
+
+export interface Standing {
+    id: number;
+    place: number | null;
+    distance: number;
+    score: number;
+}
+
+// Furthest first, then highest score, level racers sharing a place; places only once `final`
+export const rankStandings = <T extends Standing>(standings: T[], final: boolean, runs: Map<number, SimState>): T[] => {
+    const flown = standings.map(r => {
+        const sim = runs.get(r.id);
+        return sim ? { ...r, distance: Math.floor(sim.distance), score: Math.floor(sim.score) } : { ...r };
+    });
+    flown.sort((a, b) => b.distance - a.distance || b.score - a.score);
+    let place = 0;
+    flown.forEach((r, i) => {
+        const ahead = flown[i - 1];
+        if (!ahead || ahead.distance !== r.distance || ahead.score !== r.score) place = i + 1;
+        r.place = final ? place : null;
+    });
+    return flown;
+};
+
+// --- Sending ---
+// Our own inputs, recorded as they are flown and handed out in packets
+
+export interface RaceOutbox {
+    replay: Replay;
+    sent: number;      // Inputs already in a packet
+    sentFrame: number; // Frame of the last packet
+}
+
+export const createRaceOutbox = (seed: number, config: ReplayConfig): RaceOutbox => ({
+    replay: createReplay(seed, '', config), sent: 0, sentFrame: 0
+});
+
+// Call once per simulation step with the input about to be applied
+export const recordRaceInput = (outbox: RaceOutbox, frame: number, input: SimInput) =>
+    recordInput(outbox.replay, frame, input);
+
+// The next packet once `frame` frames have been flown, or null if it can wait.
+// `flush` sends whatever is left, as at the crash.
+export const takePacket = (outbox: RaceOutbox, frame: number, flush = false): RacePacket | null => {
+    const { inputs } = outbox.replay;
+    if (!flush && inputs.length === outbox.sent && frame - outbox.sentFrame < SEND_INTERVAL) return null;
+    const packet = { frame, inputs: inputs.slice(outbox.sent) };
+    outbox.sent = inputs.length;
+    outbox.sentFrame = frame;
+    return packet;
+};
@@ -0,0 +1,347 @@
+import { GAME_COLORS } from './constants';
+import { createRng, nextFloat, type Rng } from './rng';
+import { getEntityDefinition, getEntityShapes } from './entities';
+import { hasEffect } from './effects';
+import { getShipShapes, shipTilt, type Shape } from './collision';
+import { computeSafeCorridor } from './fairness';
+import { getDifficulty, getShips } from './simulation';
+import { DEFAULT_SKIN, DEFAULT_TRAIL, getShipLook, type ShipLook } from './shop';
+import { PROJECTILE_LENGTH, getProjectileShape } from './weapons';
+import { getBeamShape, getBossBeams, getBossShapes, renderBoss } from './boss';
+import { ghostAt, type Ghost, type GhostPosition } from './ghost';
+import { racerAt, type RemoteRacer } from './race';
+import { RIVAL_LOOKS } from './versus';
+import type { SimState, Point } from './types';
+
+// --- Canvas Renderer ---
+// Draws a SimState. Keeps its own scrolling background offset and flicker
+// generator so the simulation stays free of purely visual state.
+
+// Positions before the latest simulation step, so frames that land between
+// two steps can be drawn part-way along.
+export interface PositionSnapshot {
+    px: number;
+    py: number;
+    distance: number;
+    rivals: Point[]; // Versus ships after the first
+    entities: Map<number, Point>;
+}
+
+// Developer overlays, toggled from the keyboard
+export interface DebugOptions {
+    corridor: boolean;
+    hitboxes: boolean;
+}
+
+export interface RenderState {
+    bgOffset: number;
+    rng: Rng;
+    prev: PositionSnapshot | null;
+    debug: DebugOptions;
+    look: ShipLook;
+    reducedMotion: boolean; // Still background, no flicker or debris
+    ghost: Ghost | null;    // A past run flown alongside this one
+    racers: RemoteRacer[];  // Opponents in a networked race
+}
+
+export const createRenderState = (
+    seed = 0,
+    debug: DebugOptions = { corridor: false, hitboxes: false },
+    look: ShipLook = getShipLook(DEFAULT_SKIN, DEFAULT_TRAIL),
+    reducedMotion = false
+): RenderState => ({
+    bgOffset: 0, rng: createRng(seed), prev: null, debug, look, reducedMotion, ghost: null, racers: []
+});
+
+export const snapshotPositions = (s: SimState): PositionSnapshot => {
+    const entities = new Map<number, Point>();
+    s.entities.forEach(e => entities.set(e.id, { x: e.x, y: e.y }));
+    return { px: s.px, py: s.py, distance: s.distance, rivals: s.rivals.map(r => ({ x: r.px, y: r.py })), entities };
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const traceShape = (ctx: CanvasRenderingContext2D, shape: Shape) => {
+    ctx.beginPath();
+    if (shape.kind === 'circle') {
+        ctx.arc(shape.x, shape.y, shape.radius, 0, Math.PI*2);
+    } else if (shape.kind === 'polygon') {
+        shape.points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+    } else {
+        // Rounded segment: the stroke width is the capsule's thickness
+        ctx.lineWidth = Math.max(shape.radius * 2, 1);
+        ctx.moveTo(shape.a.x, shape.a.y);
+        ctx.lineTo(shape.b.x, shape.b.y);
+    }
+    ctx.stroke();
+    ctx.lineWidth = 1;
+};
+
+// --- Ship ---
+
+const GHOST_ALPHA = 0.3;
+
+interface ShipPose {
+    look: ShipLook;
+    x: number;
+    y: number;
+    vy: number;   // For the tilt
+    trail: Point[];
+    alpha: number;
+    shielded: boolean;
+    thrusting: boolean;
+}
+
+const drawShip = (ctx: CanvasRenderingContext2D, s: SimState, r: RenderState, pose: ShipPose) => {
+    const { shielded, look } = pose;
+
+    // Trail
+    ctx.save();
+    ctx.globalAlpha = pose.alpha;
+    ctx.strokeStyle = shielded ? GAME_COLORS.playerShield : look.trail;
+    ctx.lineWidth = 2;
+    ctx.shadowBlur = 10;
+    ctx.shadowColor = ctx.strokeStyle;
+    ctx.beginPath();
+    if (pose.trail.length > 0) {
+        ctx.moveTo(pose.trail[0].x, pose.trail[0].y);
+        for(let i=1; i<pose.trail.length; i++) {
+            ctx.lineTo(pose.trail[i].x, pose.trail[i].y);
+        }
+    }
+    ctx.stroke();
+    ctx.restore();
+
+    // Ship Body
+    ctx.save();
+    ctx.translate(pose.x, pose.y);
+    // Tilt
+    ctx.rotate(shipTilt(pose.vy));
+    ctx.globalAlpha = pose.alpha;
+
+    // Glow
+    ctx.shadowBlur = 15;
+    ctx.shadowColor = shielded ? '#fff' : look.stroke;
+
+    // Triangle shape
+    ctx.fillStyle = look.fill;
+    ctx.strokeStyle = shielded ? '#fff' : look.stroke;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(s.width, s.height/2); // Nose
+    ctx.lineTo(0, s.height);
+    ctx.lineTo(5, s.height/2);
+    ctx.lineTo(0, 0);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    // Engine Flare
+    if (pose.thrusting) {
+        ctx.shadowColor = '#ff9900';
+        ctx.fillStyle = '#ffaa00';
+        ctx.beginPath();
+        ctx.moveTo(0, 5);
+        ctx.lineTo(r.reducedMotion ? -20 : -nextFloat(r.rng) * 20 - 10, s.height/2);
+        ctx.lineTo(0, s.height - 5);
+        ctx.fill();
+    }
+    ctx.restore();
+};
+
+// A ship flown somewhere else, off to the side by how far ahead or behind it is
+const drawGhost = (
+    ctx: CanvasRenderingContext2D, s: SimState, r: RenderState, look: ShipLook,
+    frame: number, distance: number, at: (frame: number) => GhostPosition, label = ''
+) => {
+    const pos = at(frame);
+    const x = s.px + pos.distance - distance;
+    if (pos.done || x <= -s.width || x >= s.worldWidth) return;
+    // Sampled like the player's own trail: every third frame, newest last
+    const trail: Point[] = [];
+    for (let f = Math.floor(frame / 3) * 3, i = 0; f >= 0 && i < 20; f -= 3, i++) {
+        trail.unshift({ x, y: at(f).y + s.height/2 });
+    }
+    drawShip(ctx, s, r, { look, x, y: pos.y, vy: pos.vy, trail, alpha: GHOST_ALPHA, shielded: false, thrusting: false });
+    if (!label) return;
+    ctx.save();
+    ctx.globalAlpha = 0.7;
+    ctx.fillStyle = look.stroke;
+    ctx.font = '10px Orbitron';
+    ctx.textAlign = 'center';
+    ctx.fillText(label, x + s.width/2, pos.y - 8);
+    ctx.restore();
+};
+
+/**
+ * `alpha` is how far the frame sits between the previous step and `s` (0..1);
+ * `frameScale` is the real time the frame covers, in 60 Hz frames.
+ */
+export const renderFrame = (ctx: CanvasRenderingContext2D, s: SimState, r: RenderState, alpha = 1, frameScale = 1) => {
+    const { worldWidth: width, worldHeight: height } = s;
+    const prev = r.prev;
+
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    // The world keeps its own size whatever the window; it is scaled to fit and centred
+    const scale = Math.min(ctx.canvas.width / width, ctx.canvas.height / height);
+    ctx.save();
+    ctx.translate((ctx.canvas.width - width * scale) / 2, (ctx.canvas.height - height * scale) / 2);
+    ctx.scale(scale, scale);
+    ctx.beginPath();
+    ctx.rect(0, 0, width, height);
+    ctx.clip();
+
+    // -- Background --
+    // Deep Space
+    const gradient = ctx.createLinearGradient(0, 0, 0, height);
+    gradient.addColorStop(0, '#020205');
+    gradient.addColorStop(1, '#1a0b2e');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    // Moving Grid (Cyberpunk floor)
+    ctx.save();
+    ctx.strokeStyle = 'rgba(176, 38, 255, 0.3)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    // Vertical lines moving left
+    const gridSpeed = s.isPlaying ? (s.speed * (hasEffect(s, 'SLOWMO') ? 0.5 : 1)) : 2;
+    if (!r.reducedMotion) r.bgOffset = (r.bgOffset - gridSpeed * frameScale) % 100;
+
+    // Horizontal horizon lines
+    for(let i=0; i<height/2; i+=40) {
+        // Perspective faking
+        const yPos = height - (Math.pow(i, 1.2));
+        if (yPos < height / 2) break;
+        ctx.moveTo(0, yPos);
+        ctx.lineTo(width, yPos);
+    }
+    // Vertical lines
+    for(let i=0; i<width + 100; i+=100) {
+        const x = i + r.bgOffset;
+        ctx.moveTo(x, height/2);
+        ctx.lineTo(x - 200, height); // Perspective slant
+    }
+    ctx.stroke();
+    ctx.restore();
+
+    // -- Ghosts --
+    // Behind the player, so the real ship is never hidden by its rivals
+    if (!s.isGameOver) {
+        const frame = s.frameCount - 1 + alpha;
+        const distance = prev ? lerp(prev.distance, s.distance, alpha) : s.distance;
+        if (r.ghost) {
+            const ghost = r.ghost;
+            drawGhost(ctx, s, r, r.look, frame, distance, f => ghostAt(ghost, f));
+        }
+        r.racers.forEach((racer, i) => {
+            drawGhost(ctx, s, r, RIVAL_LOOKS[i % RIVAL_LOOKS.length], frame, distance, f => racerAt(racer, f), racer.name);
+        });
+    }
+
+    // -- Players --
+    if (!s.isGameOver) {
+        // Ghosting ships are see-through, like the hazards they pass through
+        const shimmer = r.reducedMotion ? 0 : 0.15 * Math.sin(s.frameCount * 0.3);
+        getShips(s).forEach((ship, i) => {
+            if (!ship.alive) return;
+            const from = i === 0 ? (prev && { x: prev.px, y: prev.py }) : prev?.rivals[i - 1];
+            drawShip(ctx, s, r, {
+                look: i === 0 ? r.look : RIVAL_LOOKS[(i - 1) % RIVAL_LOOKS.length],
+                x: from ? lerp(from.x, ship.px, alpha) : ship.px,
+                y: from ? lerp(from.y, ship.py, alpha) : ship.py,
+                vy: ship.pvy,
+                trail: ship.trail,
+                alpha: hasEffect(ship, 'GHOST') ? 0.35 + shimmer : 1,
+                shielded: hasEffect(ship, 'SHIELD'),
+                thrusting: ship.isThrusting
+            });
+        });
+    }
+
+    // -- Entities --
+    s.entities.forEach(e => {
+        const from = prev?.entities.get(e.id);
+        ctx.save();
+        ctx.translate(from ? lerp(from.x, e.x, alpha) : e.x, from ? lerp(from.y, e.y, alpha) : e.y);
+
+        ctx.shadowBlur = 10;
+        getEntityDefinition(e.type).render(ctx, e);
+        ctx.restore();
+    });
+
+    // -- Boss --
+    if (s.boss) renderBoss(ctx, s, s.boss, r.reducedMotion);
+
+    // -- Ships' shots (combat mode) --
+    if (s.config.combat) {
+        ctx.save();
+        ctx.strokeStyle = r.look.trail;
+        ctx.shadowColor = r.look.trail;
+        ctx.shadowBlur = 10;
+        ctx.lineWidth = 3;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        getShips(s).forEach(ship => ship.projectiles.forEach(p => {
+            if (!p.active) return;
+            // Not interpolated: a shot covers a fair stretch per step but is gone in a few frames
+            ctx.moveTo(p.x - PROJECTILE_LENGTH, p.y);
+            ctx.lineTo(p.x, p.y);
+        }));
+        ctx.stroke();
+        ctx.restore();
+    }
+
+    // -- Debug: safe corridor the fairness check sees --
+    if (r.debug.corridor && s.isPlaying) {
+        const slices = computeSafeCorridor(s, getDifficulty(s));
+        ctx.save();
+        ctx.fillStyle = 'rgba(46, 204, 113, 0.25)';
+        slices.forEach((slice, i) => {
+            const next = slices[i + 1];
+            const w = next ? next.x - slice.x : 4;
+            slice.ranges.forEach(([top, bottom]) => ctx.fillRect(slice.x, top, w, bottom - top + s.height));
+        });
+        if (slices.length === 0) {
+            ctx.fillStyle = '#ff2a6d';
+            ctx.font = '14px Orbitron';
+            ctx.fillText('NO SAFE PATH', s.px, 40);
+        }
+        ctx.restore();
+    }
+
+    // -- Debug: collision shapes, at the simulated (not interpolated) positions --
+    if (r.debug.hitboxes) {
+        ctx.save();
+        ctx.lineWidth = 1;
+        ctx.strokeStyle = '#2ecc71';
+        getShips(s).forEach(ship => {
+            if (!s.isGameOver && ship.alive) getShipShapes(ship).forEach(shape => traceShape(ctx, shape));
+            ship.projectiles.forEach(p => { if (p.active) traceShape(ctx, getProjectileShape(p)); });
+        });
+        if (s.boss) {
+            ctx.strokeStyle = '#ff2a6d';
+            getBossShapes(s, s.boss).forEach(shape => traceShape(ctx, shape));
+            getBossBeams(s, s.boss).filter(b => b.live).forEach(b => traceShape(ctx, getBeamShape(b)));
+        }
+        s.entities.forEach(e => {
+            ctx.strokeStyle = getEntityDefinition(e.type).onCollide.kind === 'HAZARD' ? '#ff2a6d' : '#f1c40f';
+            getEntityShapes(e).forEach(shape => traceShape(ctx, shape));
+        });
+        ctx.restore();
+    }
+
+    // -- Particles --
+    if (!r.reducedMotion) s.particles.forEach(p => {
+        ctx.save();
+        ctx.globalAlpha = p.life;
+        ctx.fillStyle = p.color;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, p.size, 0, Math.PI*2);
+        ctx.fill();
+        ctx.restore();
+    });
+
+    ctx.restore();
+};
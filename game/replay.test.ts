@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WORLD_WIDTH, WORLD_HEIGHT } from './constants';
+import { PRESETS, cloneConfig } from './config';
+import {
+    createReplay, createReplayCursor, finishReplay, nextReplayInput, parseReplay, recordInput, serializeReplay,
+    REPLAY_VERSION, type Replay
+} from './replay';
+import { startRun, step } from './simulation';
+
+const config = { worldWidth: WORLD_WIDTH, worldHeight: WORLD_HEIGHT, preset: 'HARD' as const, game: cloneConfig(PRESETS.HARD) };
+
+// Records a run flown on a scripted pattern of taps, half-power thrust and fire
+const record = (seed: number) => {
+    const s = startRun(config.worldWidth, config.worldHeight, seed, config.game);
+    const replay = createReplay(seed, '', config);
+    while (s.isPlaying && s.frameCount < 20000) {
+        const input = { thrust: s.py > s.worldHeight / 2, power: s.frameCount % 120 < 60 ? 1 : 0.5, fire: s.frameCount % 50 < 10 };
+        recordInput(replay, s.frameCount, input);
+        step(s, input);
+    }
+    finishReplay(replay, s.frameCount, s.score);
+    return replay;
+};
+
+const play = (replay: Replay) => {
+    const s = startRun(replay.config.worldWidth, replay.config.worldHeight, replay.seed, replay.config.game);
+    const cursor = createReplayCursor();
+    while (s.isPlaying) step(s, nextReplayInput(replay, cursor, s.frameCount));
+    return s;
+};
+
+test('a replay survives export and import unchanged', () => {
+    const replay = record(42);
+    assert.deepEqual(parseReplay(serializeReplay(replay)), replay);
+});
+
+test('an imported replay flies the recorded run again', () => {
+    const replay = record(1234);
+    const s = play(parseReplay(serializeReplay(replay)));
+    assert.equal(s.frameCount, replay.frames);
+    assert.equal(s.score, replay.score);
+});
+
+test('only input changes are stored', () => {
+    const replay = createReplay(1, '', config);
+    for (let frame = 0; frame < 10; frame++) recordInput(replay, frame, { thrust: frame >= 5, power: 1, fire: false });
+    assert.deepEqual(replay.inputs, [{ frame: 5, thrust: true, power: 1, fire: false }]);
+});
+
+test('input changes from before analog thrust fly at full power', () => {
+    const data = JSON.parse(serializeReplay(record(5)));
+    data.inputs = [{ frame: 3, thrust: true, fire: false }];
+    assert.deepEqual(parseReplay(JSON.stringify(data)).inputs, [{ frame: 3, thrust: true, power: 1, fire: false }]);
+});
+
+test('unplayable files are turned away with a reason', () => {
+    const data = JSON.parse(serializeReplay(record(5)));
+    const reason = (patch: object) => {
+        try {
+            parseReplay(JSON.stringify({ ...data, ...patch }));
+            return '';
+        } catch (e) {
+            return (e as Error).message;
+        }
+    };
+    assert.equal(reason({}), '');
+    assert.match(reason({ format: 'something-else' }), /Not a Sky Rider replay/);
+    assert.match(reason({ version: REPLAY_VERSION - 1 }), /older version/);
+    assert.match(reason({ version: REPLAY_VERSION + 1 }), /Unsupported replay version/);
+    assert.match(reason({ inputs: [null] }), /corrupted/);
+    assert.match(reason({ inputs: [{ frame: 1, thrust: true, power: 2 }] }), /corrupted/);
+    assert.match(reason({ config: { ...data.config, worldWidth: 'wide' } }), /corrupted/);
+    assert.throws(() => parseReplay('{'), /not valid JSON/);
+});
+
+test('courses that would break the simulation are refused', () => {
+    const data = JSON.parse(serializeReplay(record(5)));
+    const withGame = (patch: object) => JSON.stringify({ ...data, config: { ...data.config, game: { ...data.config.game, ...patch } } });
+    for (const patch of [{ difficultyInterval: 0 }, { initialSpeed: -6 }, { fireInterval: 0 }, { gravity: 1e9 }]) {
+        assert.throws(() => parseReplay(withGame(patch)), /corrupted/, JSON.stringify(patch));
+    }
+    assert.throws(() => parseReplay(withGame({ powerupDurations: { ...config.game.powerupDurations, SHIELD: -1 } })), /corrupted/);
+    // Settings the game doesn't know are left behind
+    assert.deepEqual(parseReplay(withGame({ debugGodMode: true })).config.game, config.game);
+});
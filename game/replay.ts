@@ -0,0 +1,215 @@
+import type { SimInput } from './types';
+import type { TimedEffectId } from './effects';
+import { PRESETS, DEFAULT_PRESET, isPresetId, cloneConfig, type GameConfig, type PresetId } from './config';
+
+// --- Replays ---
+// A run is fully determined by its seed, world config and input timeline, so
+// that is all a replay stores. Playback re-drives the simulation from it.
+
+export const REPLAY_FORMAT = 'sky-rider-replay';
+// Bumped whenever the simulation changes in a way that alters old runs
+export const REPLAY_VERSION = 5;
+
+export interface ReplayConfig {
+    worldWidth: number;
+    worldHeight: number;
+    preset: PresetId;
+    // The exact tuning the run used, which may differ from the preset's in dev builds
+    game: GameConfig;
+}
+
+// Input changes, stamped with the frame they take effect on
+export interface ReplayInput {
+    frame: number;
+    thrust: boolean;
+    power: number;
+    fire: boolean;
+}
+
+export interface Replay {
+    format: typeof REPLAY_FORMAT;
+    version: number;
+    seed: number;
+    daily: string;
+    config: ReplayConfig;
+    inputs: ReplayInput[];
+    // Filled in when the run ends
+    frames: number;
+    score: number;
+    recordedAt: string;
+}
+
+export const createReplay = (seed: number, daily: string, config: ReplayConfig): Replay => ({
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    seed,
+    daily,
+    config: { ...config, game: cloneConfig(config.game) },
+    inputs: [],
+    frames: 0,
+    score: 0,
+    recordedAt: new Date().toISOString()
+});
+
+// Call once per simulation step with the input about to be applied; only changes are stored.
+export const recordInput = (replay: Replay, frame: number, input: SimInput) => {
+    const last = replay.inputs[replay.inputs.length - 1];
+    const thrust = last ? last.thrust : false;
+    const power = last ? last.power : 1;
+    const fire = last ? last.fire : false;
+    if (input.thrust !== thrust || input.power !== power || input.fire !== fire) {
+        replay.inputs.push({ frame, thrust: input.thrust, power: input.power, fire: input.fire });
+    }
+};
+
+export const finishReplay = (replay: Replay, frames: number, score: number) => {
+    replay.frames = frames;
+    replay.score = score;
+};
+
+// Whether two runs flew the same course: the same world and tuning, field by field
+export const sameCourse = (a: ReplayConfig, b: ReplayConfig) => {
+    const { powerupDurations: timersA, ...restA } = a.game;
+    const { powerupDurations: timersB, ...restB } = b.game;
+    return a.worldWidth === b.worldWidth && a.worldHeight === b.worldHeight && a.preset === b.preset &&
+        (Object.keys(restA) as (keyof typeof restA)[]).every(k => restA[k] === restB[k]) &&
+        (Object.keys(timersA) as (keyof typeof timersA)[]).every(k => timersA[k] === timersB[k]);
+};
+
+// --- Playback ---
+
+export interface ReplayCursor {
+    index: number;
+    thrust: boolean;
+    power: number;
+    fire: boolean;
+}
+
+export const createReplayCursor = (): ReplayCursor => ({ index: 0, thrust: false, power: 1, fire: false });
+
+// Input for the step that starts at `frame`. Frames must be requested in order.
+export const nextReplayInput = (replay: Replay, cursor: ReplayCursor, frame: number): SimInput => {
+    while (cursor.index < replay.inputs.length && replay.inputs[cursor.index].frame <= frame) {
+        cursor.thrust = replay.inputs[cursor.index].thrust;
+        cursor.power = replay.inputs[cursor.index].power;
+        cursor.fire = replay.inputs[cursor.index].fire;
+        cursor.index++;
+    }
+    return { thrust: cursor.thrust, power: cursor.power, fire: cursor.fire };
+};
+
+// --- Import / Export ---
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Parsed JSON whose fields haven't been checked yet
+type Fields = Record<string, unknown>;
+
+const isFields = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Replays from before analog thrust have no power, which means full power
+const isPower = (v: unknown): v is number | undefined => v === undefined || (isFiniteNumber(v) && v >= 0 && v <= 1);
+
+// A clean copy of one stored input change, or null if it can't be played
+export const parseReplayInput = (data: unknown): ReplayInput | null => {
+    if (!isFields(data) || !isFiniteNumber(data.frame) || typeof data.thrust !== 'boolean') return null;
+    if (typeof data.fire !== 'boolean' || !isPower(data.power)) return null;
+    return { frame: data.frame, thrust: data.thrust, power: data.power ?? 1, fire: data.fire };
+};
+
+// --- Config Limits ---
+// What a stored or received course may be set to. Wide enough for any preset
+// with every shop upgrade and anything the dev tuning panel reaches; narrow
+// enough that nothing divides by zero, falls upwards or never spawns.
+
+type Limits = [min: number, max: number];
+type NumberSetting = Exclude<keyof GameConfig, 'powerupDurations' | 'combat'>;
+
+const SETTING_LIMITS: Record<NumberSetting, Limits> = {
+    gravity: [0.01, 2],
+    flightPower: [-4, -0.01],
+    maxSpeedY: [1, 30],
+    initialSpeed: [0.5, 30],
+    spawnRate: [5, 600],
+    difficultyInterval: [100, 100000],
+    difficultyStep: [0, 1],
+    hitboxPadding: [0, 30],
+    magnetRadius: [0, 2000],
+    startingShield: [0, 3600],
+    bossInterval: [1000, 1000000],
+    fireInterval: [1, 600],
+    heatPerShot: [0, 100],
+    coolRate: [0, 100]
+};
+const DURATION_LIMITS: Limits = [1, 3600]; // Frames
+const WORLD_LIMITS: Limits = [100, 10000]; // px, each way
+
+const inLimits = (v: unknown, [min, max]: Limits): v is number => isFiniteNumber(v) && v >= min && v <= max;
+
+// A fresh GameConfig from the stored one's known settings, or null if any is missing or out of range
+const parseGameConfig = (data: unknown): GameConfig | null => {
+    if (!isFields(data) || !isFields(data.powerupDurations)) return null;
+    if (typeof data.combat !== 'boolean') return null;
+    const durations = data.powerupDurations;
+    const config = cloneConfig(PRESETS[DEFAULT_PRESET]);
+    config.combat = data.combat;
+    for (const key of Object.keys(SETTING_LIMITS) as NumberSetting[]) {
+        const value = data[key];
+        if (!inLimits(value, SETTING_LIMITS[key])) return null;
+        config[key] = value;
+    }
+    for (const id of Object.keys(config.powerupDurations) as TimedEffectId[]) {
+        const value = durations[id];
+        if (!inLimits(value, DURATION_LIMITS)) return null;
+        config.powerupDurations[id] = value;
+    }
+    return config;
+};
+
+// A copy of a stored course config, or null if anything is missing or out of range
+export const parseReplayConfig = (data: unknown): ReplayConfig | null => {
+    if (!isFields(data)) return null;
+    const game = parseGameConfig(data.game);
+    const { worldWidth, worldHeight, preset } = data;
+    if (!inLimits(worldWidth, WORLD_LIMITS) || !inLimits(worldHeight, WORLD_LIMITS) || !isPresetId(preset) || !game) return null;
+    return { worldWidth, worldHeight, preset, game };
+};
+
+// Throws with a player-readable message when the file isn't a replay we can play.
+export const parseReplay = (text: string): Replay => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Replay file is not valid JSON');
+    }
+    if (!isFields(data) || data.format !== REPLAY_FORMAT) {
+        throw new Error('Not a Sky Rider replay');
+    }
+    // Versions 1 and 2 used box collisions, 3 predates the newer powerups and 4 the bosses,
+    // so their inputs no longer reproduce the run
+    if (isFiniteNumber(data.version) && data.version < REPLAY_VERSION) {
+        throw new Error('Replay was recorded with an older version of the game and can no longer be played');
+    }
+    if (data.version !== REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version ${data.version}`);
+    }
+    const config = parseReplayConfig(data.config);
+    const inputs = Array.isArray(data.inputs) ? data.inputs.map(parseReplayInput) : [null];
+    if (!isFiniteNumber(data.seed) || !config || inputs.includes(null)) {
+        throw new Error('Replay file is corrupted');
+    }
+    return {
+        format: REPLAY_FORMAT,
+        version: REPLAY_VERSION,
+        seed: data.seed >>> 0,
+        daily: typeof data.daily === 'string' ? data.daily : '',
+        config,
+        inputs: inputs as ReplayInput[],
+        frames: isFiniteNumber(data.frames) ? data.frames : 0,
+        score: isFiniteNumber(data.score) ? data.score : 0,
+        recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : ''
+    };
+};
@@ -0,0 +1,45 @@
+// --- Seeded RNG ---
+// mulberry32: tiny, fast and good enough for gameplay. The state is a plain
+// number so it can live inside SimState and be copied or serialized freely.
+
+export interface Rng {
+    state: number;
+}
+
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+// Returns a float in [0, 1) and advances the generator.
+export const nextFloat = (rng: Rng) => {
+    rng.state = (rng.state + 0x6D2B79F5) >>> 0;
+    let t = rng.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// FNV-1a, used to turn arbitrary text into a seed.
+export const hashString = (text: string) => {
+    let h = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// YYYY-MM-DD in UTC, so everyone gets the same course regardless of timezone.
+export const dailyKey = (date = new Date()) => date.toISOString().slice(0, 10);
+
+export const dailySeed = (date = new Date()) => hashString(`sky-rider-daily-${dailyKey(date)}`);
+
+export const formatSeed = (seed: number) => (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+
+// Accepts the hex form shown in the UI; anything else is hashed so players can type words.
+export const parseSeed = (text: string): number | null => {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+    if (/^[0-9a-f]{1,8}$/i.test(trimmed)) return parseInt(trimmed, 16) >>> 0;
+    return hashString(trimmed.toUpperCase());
+};
@@ -0,0 +1,100 @@
+import { GAME_COLORS } from './constants';
+import { cloneConfig, type GameConfig } from './config';
+import type { TimedEffectId } from './effects';
+
+// --- Shop Catalogue ---
+// Upgrades change the GameConfig a run starts with, so replays (which store
+// the config) stay exact. Cosmetics only change how the ship is drawn.
+
+export interface Upgrade {
+    id: string;
+    name: string;
+    description: string;
+    maxLevel: number;
+    baseCost: number; // Level n costs baseCost * n
+    apply: (config: GameConfig, level: number) => void;
+}
+
+// Colours for the ship's body and trail
+export interface ShipLook {
+    fill: string;
+    stroke: string;
+    trail: string;
+}
+
+export interface ShipSkin {
+    id: string;
+    name: string;
+    cost: number;
+    fill: string;
+    stroke: string;
+}
+
+export interface TrailStyle {
+    id: string;
+    name: string;
+    cost: number;
+    color: string;
+}
+
+const longer = (effect: TimedEffectId) => (config: GameConfig, level: number) => {
+    config.powerupDurations[effect] = Math.round(config.powerupDurations[effect] * (1 + 0.15 * level));
+};
+
+export const UPGRADES: Upgrade[] = [
+    {
+        id: 'shield-duration', name: 'SHIELD DURATION', description: '+15% shield time per level',
+        maxLevel: 4, baseCost: 40, apply: longer('SHIELD')
+    },
+    {
+        id: 'magnet-duration', name: 'MAGNET DURATION', description: '+15% magnet time per level',
+        maxLevel: 4, baseCost: 40, apply: longer('MAGNET')
+    },
+    {
+        id: 'slowmo-duration', name: 'SLOWMO DURATION', description: '+15% slow-mo time per level',
+        maxLevel: 4, baseCost: 40, apply: longer('SLOWMO')
+    },
+    {
+        id: 'magnet-radius', name: 'MAGNET RANGE', description: '+50px magnet pull radius per level',
+        maxLevel: 4, baseCost: 50, apply: (config, level) => { config.magnetRadius += 50 * level; }
+    },
+    {
+        id: 'starting-shield', name: 'LAUNCH SHIELD', description: 'Start each run shielded (+2s per level)',
+        maxLevel: 3, baseCost: 150, apply: (config, level) => { config.startingShield += 120 * level; }
+    }
+];
+
+export const SHIP_SKINS: ShipSkin[] = [
+    { id: 'classic', name: 'CLASSIC', cost: 0, fill: '#000', stroke: GAME_COLORS.player },
+    { id: 'crimson', name: 'CRIMSON', cost: 100, fill: '#1a0005', stroke: '#ff2a6d' },
+    { id: 'toxic', name: 'TOXIC', cost: 150, fill: '#031a00', stroke: '#39ff14' },
+    { id: 'gold', name: 'GOLD LEAF', cost: 300, fill: '#2b2000', stroke: GAME_COLORS.coin }
+];
+
+export const TRAIL_STYLES: TrailStyle[] = [
+    { id: 'cyan', name: 'CYAN', cost: 0, color: GAME_COLORS.player },
+    { id: 'violet', name: 'VIOLET', cost: 60, color: '#b026ff' },
+    { id: 'ember', name: 'EMBER', cost: 80, color: '#ff9900' },
+    { id: 'white', name: 'WHITE NOISE', cost: 120, color: '#ffffff' }
+];
+
+export const DEFAULT_SKIN = SHIP_SKINS[0].id;
+export const DEFAULT_TRAIL = TRAIL_STYLES[0].id;
+
+export const upgradeCost = (upgrade: Upgrade, currentLevel: number) => upgrade.baseCost * (currentLevel + 1);
+
+// A copy of `base` with every owned upgrade level applied
+export const applyUpgrades = (base: GameConfig, levels: Record<string, number>): GameConfig => {
+    const config = cloneConfig(base);
+    for (const upgrade of UPGRADES) {
+        const level = Math.min(levels[upgrade.id] ?? 0, upgrade.maxLevel);
+        if (level > 0) upgrade.apply(config, level);
+    }
+    return config;
+};
+
+export const getShipLook = (skinId: string, trailId: string): ShipLook => {
+    const skin = SHIP_SKINS.find(s => s.id === skinId) ?? SHIP_SKINS[0];
+    const trail = TRAIL_STYLES.find(t => t.id === trailId) ?? TRAIL_STYLES[0];
+    return { fill: skin.fill, stroke: skin.stroke, trail: trail.color };
+};
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WORLD_WIDTH, WORLD_HEIGHT } from './constants';
+import { PRESETS } from './config';
+import { getShipDistance, getShips, startRun, startVersusRun, step } from './simulation';
+import type { SimEvent, SimInput, SimState } from './types';
+
+// Holds the middle of the sky with a slow weave, so runs last a while
+const autopilot = (s: SimState): SimInput => {
+    const target = s.worldHeight * (0.5 + 0.25 * Math.sin(s.frameCount / 80));
+    return { thrust: s.py + s.pvy * 6 > target, power: 1, fire: false };
+};
+
+const fly = (seed: number, frames: number) => {
+    const s = startRun(WORLD_WIDTH, WORLD_HEIGHT, seed, PRESETS.NORMAL);
+    const events: SimEvent[] = [];
+    while (s.isPlaying && s.frameCount < frames) events.push(...step(s, autopilot(s)));
+    return { s, events };
+};
+
+// Everything a run leaves behind that the seed and inputs should decide
+const outcome = ({ s, events }: ReturnType<typeof fly>) => ({
+    frames: s.frameCount,
+    score: s.score,
+    distance: s.distance,
+    py: s.py,
+    cause: s.stats.cause,
+    entities: s.entities.map(e => [e.type, e.x, e.y]),
+    events
+});
+
+test('the same seed and inputs fly the same run', () => {
+    for (const seed of [1, 0xC0FFEE, 4294967295]) {
+        assert.deepEqual(outcome(fly(seed, 3000)), outcome(fly(seed, 3000)));
+    }
+});
+
+test('different seeds lay out different courses', () => {
+    const a = fly(1, 600).s.entities.map(e => [e.type, e.y]);
+    const b = fly(2, 600).s.entities.map(e => [e.type, e.y]);
+    assert.notDeepEqual(a, b);
+});
+
+test('a run ends in a crash with its cause recorded', () => {
+    const { s, events } = fly(7, 20000);
+    assert.equal(s.isPlaying, false);
+    assert.ok(s.stats.cause);
+    assert.deepEqual(events.filter(e => e.type === 'CRASH'), [{ type: 'CRASH', cause: s.stats.cause }]);
+});
+
+test('versus ships each fly on their own input until the last one is down', () => {
+    const s = startVersusRun(WORLD_WIDTH, WORLD_HEIGHT, 3, PRESETS.NORMAL);
+    const [first, second] = getShips(s);
+    const startY = [first.py, second.py];
+    const hold = { thrust: true, power: 1, fire: false };
+    const drop = { thrust: false, power: 1, fire: false };
+    for (let i = 0; i < 10; i++) step(s, [hold, drop]);
+    assert.ok(first.py < startY[0]);
+    assert.ok(second.py > startY[1]);
+
+    // Player 2 falls to the ground; player 1 hovers on and the run goes on
+    const events: SimEvent[] = [];
+    while (second.alive) events.push(...step(s, [autopilot(s), drop]));
+    assert.deepEqual(events.filter(e => e.type === 'SHIP_DOWN'), [{ type: 'SHIP_DOWN', ship: 1, cause: 'GROUND' }]);
+    assert.equal(s.isPlaying, true);
+    const reached = getShipDistance(s, second);
+    for (let i = 0; i < 30; i++) step(s, [autopilot(s), hold]);
+    assert.equal(getShipDistance(s, second), reached);
+    assert.ok(getShipDistance(s, first) > reached);
+
+    while (s.isPlaying) events.push(...step(s, [drop, hold]));
+    assert.equal(events.filter(e => e.type === 'CRASH').length, 1);
+    assert.equal(first.alive, false);
+});
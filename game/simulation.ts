@@ -0,0 +1,624 @@
+import { GAME_COLORS, PLAYER_WIDTH, PLAYER_HEIGHT, SINGLE_SPAWN_WEIGHT, NEAR_MISS_DISTANCE } from './constants';
+import { PRESETS, DEFAULT_PRESET, cloneConfig, type GameConfig } from './config';
+import { createRng, nextFloat } from './rng';
+import { getEntityDefinition, getEntityDefinitions, getEntityShapes, SHOT_WARNING_FRAMES, type EntityDefinition } from './entities';
+import { EFFECTS, EFFECT_IDS, applyEffect, consumeEffect, hasEffect, isTimedEffect, tickEffects } from './effects';
+import { compoundPenetration, getShipShapes, shapeBounds } from './collision';
+import {
+    DEFEAT_BONUS, SURVIVE_BONUS, createBoss, getBeamShape, getBossBeams, getBossShapes, updateBoss
+} from './boss';
+import { createProjectilePool, createWeapon, moveProjectiles, takeProjectileHit, updateWeapon } from './weapons';
+import { PATTERNS, getPatternWeight, getPatternAnchorRange, getPatternDuration, type PatternDefinition } from './patterns';
+import { isFlyable, type PlannedHazard } from './fairness';
+import type { CrashCause, Entity, EntityType, Point, Ship, SimState, SimInput, SimEvent } from './types';
+
+// --- Simulation Core ---
+// Headless game rules: no DOM, canvas or audio. The front-end feeds input in,
+// draws the resulting state and reacts to the returned events.
+
+// A ship ready to launch with its top edge at `py`
+export const createShip = (py: number, config: GameConfig): Ship => ({
+    px: 50,
+    py,
+    pvy: 0,
+    width: PLAYER_WIDTH,
+    height: PLAYER_HEIGHT,
+    isThrusting: false,
+    trail: [],
+
+    effects: config.startingShield > 0
+        ? { SHIELD: { remaining: config.startingShield, duration: config.startingShield, charges: 0 } }
+        : {},
+
+    weapon: createWeapon(),
+    projectiles: createProjectilePool(),
+
+    score: 0,
+    stats: { pickups: {}, powerups: {}, powerupFrames: {}, kills: {}, shieldsPopped: 0, bossesSurvived: 0, bossesDefeated: 0, peakDifficulty: 1, cause: null },
+    alive: true,
+    reached: 0
+});
+
+export const createSimState = (
+    worldWidth: number, worldHeight: number, seed = 0, config: GameConfig = PRESETS[DEFAULT_PRESET]
+): SimState => ({
+    ...createShip(worldHeight / 2, config),
+
+    isPlaying: false,
+    isGameOver: false,
+    speed: config.initialSpeed,
+    distance: 0,
+    config: cloneConfig(config),
+
+    seed,
+    rng: createRng(seed),
+    nextEntityId: 1,
+
+    worldWidth,
+    worldHeight,
+
+    rivals: [],
+
+    boss: null,
+    sector: 1,
+    nextBossAt: config.bossInterval,
+
+    entities: [],
+    spawnQueue: [],
+    spawnBusyUntil: 0,
+    particles: [],
+    frameCount: 0
+});
+
+// Fresh state for a new run, already playing. The same seed always flies the same course.
+export const startRun = (worldWidth: number, worldHeight: number, seed: number, config?: GameConfig): SimState => ({
+    ...createSimState(worldWidth, worldHeight, seed, config),
+    isPlaying: true
+});
+
+// Versus: `players` ships on one course, each starting in its own lane down the screen
+export const startVersusRun = (worldWidth: number, worldHeight: number, seed: number, config?: GameConfig, players = 2): SimState => {
+    const s = startRun(worldWidth, worldHeight, seed, config);
+    const lane = worldHeight / (players + 1);
+    s.py = lane;
+    for (let i = 1; i < players; i++) s.rivals.push(createShip(lane * (i + 1), s.config));
+    return s;
+};
+
+// Every ship in the run, the state's own first
+export const getShips = (s: SimState): Ship[] => s.rivals.length > 0 ? [s, ...s.rivals] : [s];
+
+// How far a ship has got: the course's distance while it flies, where it crashed after
+export const getShipDistance = (s: SimState, ship: Ship) => ship.alive ? s.distance : ship.reached;
+
+export const getDifficulty = (s: SimState) =>
+    1 + Math.floor(s.distance / s.config.difficultyInterval) * s.config.difficultyStep;
+
+// Weighted pick among the kinds unlocked at this difficulty
+const pickDefinition = (s: SimState, difficulty: number) => {
+    const eligible = getEntityDefinitions().filter(d =>
+        d.spawnWeight > 0 && difficulty >= d.minDifficulty && (!d.combatOnly || s.config.combat)
+    );
+    const total = eligible.reduce((sum, d) => sum + d.spawnWeight, 0);
+    let r = nextFloat(s.rng) * total;
+    for (const def of eligible) {
+        r -= def.spawnWeight;
+        if (r < 0) return def;
+    }
+    return eligible[eligible.length - 1];
+};
+
+const createEntity = (s: SimState, def: EntityDefinition, x: number, y: number): Entity => {
+    const entity: Entity = {
+        id: s.nextEntityId++,
+        x,
+        y,
+        width: def.width,
+        height: def.height,
+        type: def.type,
+        markedForDeletion: false,
+        rotation: 0
+    };
+    // Health only matters (and is only rolled) when the ship can shoot
+    if (s.config.combat && def.destructible) {
+        const { minHealth, maxHealth } = def.destructible;
+        entity.hp = minHealth + Math.floor(nextFloat(s.rng) * (maxHealth - minHealth + 1));
+    }
+    return entity;
+};
+
+const addEntity = (s: SimState, def: EntityDefinition, x: number, y: number): Entity => {
+    const entity = createEntity(s, def, x, y);
+    s.entities.push(entity);
+    return entity;
+};
+
+// Re-rolls a hazard's placement until the ship still has a way through
+const FAIR_SPAWN_ATTEMPTS = 5;
+
+// A roll only stands if every ship still in the air has a way through it
+const placeFairly = (s: SimState, difficulty: number, roll: () => PlannedHazard[]) => {
+    const flying = getShips(s).filter(ship => ship.alive);
+    let planned: PlannedHazard[] = [];
+    for (let i = 0; i < FAIR_SPAWN_ATTEMPTS; i++) {
+        planned = roll();
+        const hasHazard = planned.some(p => getEntityDefinition(p.type).onCollide.kind === 'HAZARD');
+        if (!hasHazard || flying.every(ship => isFlyable(s, difficulty, planned, ship))) return planned;
+    }
+    // If every ship is already committed to a crash, holding this back wouldn't save any
+    return flying.some(ship => isFlyable(s, difficulty, [], ship)) ? null : planned;
+};
+
+const spawnEntity = (s: SimState, difficulty: number) => {
+    const def = pickDefinition(s, difficulty);
+    if (!def) return;
+    const { top, bottom } = def.spawnBand;
+    const x = s.worldWidth + 50;
+    const placed = placeFairly(s, difficulty, () => [
+        { type: def.type, x, y: nextFloat(s.rng) * (s.worldHeight - top - bottom) + top }
+    ]);
+    if (!placed) return;
+    const entity = addEntity(s, def, x, placed[0].y);
+
+    if (def.group) {
+        const { count, spacing, wave } = def.group;
+        for(let i=1; i<count; i++) {
+            addEntity(s, def, entity.x + (i * spacing), entity.y + Math.sin(i) * wave);
+        }
+    }
+};
+
+// Queues a pattern's entities and holds regular spawning until it has played out
+const startPattern = (s: SimState, p: PatternDefinition, difficulty: number) => {
+    const range = getPatternAnchorRange(p, s.worldHeight);
+    if (!range) return;
+    // Queued entries enter at the spawn edge later; ahead of it by the distance scrolled meanwhile
+    const frameSpeed = (s.speed + difficulty) * (getShips(s).some(ship => ship.alive && hasEffect(ship, 'SLOWMO')) ? 0.5 : 1);
+    let anchor = 0;
+    const placed = placeFairly(s, difficulty, () => {
+        anchor = nextFloat(s.rng) * (range.max - range.min) + range.min;
+        return p.entities.map(e => ({ type: e.type, x: s.worldWidth + 50 + e.dx + e.at * frameSpeed, y: anchor + e.dy }));
+    });
+    if (!placed) return;
+    for (const e of p.entities) {
+        s.spawnQueue.push({ frame: s.frameCount + e.at, type: e.type, dx: e.dx, y: anchor + e.dy });
+    }
+    s.spawnBusyUntil = s.frameCount + getPatternDuration(p);
+    spawnQueued(s);
+};
+
+const spawnQueued = (s: SimState) => {
+    if (s.spawnQueue.length === 0) return;
+    s.spawnQueue = s.spawnQueue.filter(q => {
+        if (q.frame > s.frameCount) return true;
+        addEntity(s, getEntityDefinition(q.type), s.worldWidth + 50 + q.dx, q.y);
+        return false;
+    });
+};
+
+// A spawn tick picks either a lone random entity or one of the authored patterns
+const spawnTick = (s: SimState, difficulty: number) => {
+    if (s.frameCount < s.spawnBusyUntil) return;
+
+    const candidates = PATTERNS
+        .map(p => ({ p, weight: getPatternWeight(p, difficulty) }))
+        .filter(c => c.weight > 0 && getPatternAnchorRange(c.p, s.worldHeight));
+    const total = candidates.reduce((sum, c) => sum + c.weight, SINGLE_SPAWN_WEIGHT);
+
+    let r = nextFloat(s.rng) * total - SINGLE_SPAWN_WEIGHT;
+    if (r < 0) {
+        spawnEntity(s, difficulty);
+        return;
+    }
+    for (const c of candidates) {
+        r -= c.weight;
+        if (r < 0) {
+            startPattern(s, c.p, difficulty);
+            return;
+        }
+    }
+};
+
+export const createExplosion = (s: SimState, x: number, y: number, color: string, count = 15) => {
+    for(let i=0; i<count; i++) {
+        const angle = nextFloat(s.rng) * Math.PI * 2;
+        const speed = nextFloat(s.rng) * 5 + 2;
+        s.particles.push({
+            x, y,
+            vx: Math.cos(angle) * speed,
+            vy: Math.sin(angle) * speed,
+            life: 1.0,
+            color,
+            size: nextFloat(s.rng) * 3 + 1
+        });
+    }
+};
+
+// Takes a ship out of the run. The run ends with the last one.
+const shipDown = (s: SimState, ship: Ship, cause: CrashCause, events: SimEvent[]) => {
+    ship.alive = false;
+    ship.reached = s.distance;
+    ship.stats.cause = cause;
+    const ships = getShips(s);
+    if (ships.some(other => other.alive)) {
+        events.push({ type: 'SHIP_DOWN', ship: ships.indexOf(ship), cause });
+        return;
+    }
+    s.isPlaying = false;
+    s.isGameOver = true;
+    events.push({ type: 'CRASH', cause });
+};
+
+// Frames of GHOST a revived ship gets to fly clear of whatever hit it
+const REVIVE_GHOST_FRAMES = 90;
+
+// Spends the ship's extra life if it has one. It carries on from the crash site.
+const tryRevive = (s: SimState, ship: Ship, cause: CrashCause, events: SimEvent[]) => {
+    if (!consumeEffect(ship, 'REVIVE')) return false;
+    applyEffect(ship, 'GHOST', Math.max(REVIVE_GHOST_FRAMES, ship.effects.GHOST?.remaining ?? 0));
+    createExplosion(s, ship.px, ship.py, EFFECTS.REVIVE.color, 30);
+    events.push({ type: 'REVIVE', cause });
+    return true;
+};
+
+// Destroys every hazard on screen
+const detonateBomb = (s: SimState, events: SimEvent[]) => {
+    let destroyed = 0;
+    for (const ent of s.entities) {
+        const def = getEntityDefinition(ent.type);
+        if (ent.markedForDeletion || def.onCollide.kind !== 'HAZARD' || ent.x > s.worldWidth) continue;
+        ent.markedForDeletion = true;
+        createExplosion(s, ent.x + ent.width/2, ent.y + ent.height/2, def.color, 15);
+        destroyed++;
+    }
+    events.push({ type: 'BOMB', destroyed });
+};
+
+// A shot from `ship` landed. Hazards that can't be destroyed just soak it up.
+const damageEntity = (
+    s: SimState, ship: Ship, ent: Entity, def: EntityDefinition, hit: Point, scoreScale: number, events: SimEvent[]
+) => {
+    if (!def.destructible || ent.hp === undefined) {
+        createExplosion(s, hit.x, hit.y, '#fff', 3);
+        return;
+    }
+    ent.hp--;
+    if (ent.hp > 0) {
+        createExplosion(s, hit.x, hit.y, def.color, 5);
+        events.push({ type: 'HIT', kind: ent.type });
+        return;
+    }
+    ent.markedForDeletion = true;
+    ship.score += def.destructible.score * scoreScale;
+    tally(ship.stats.kills, ent.type);
+    createExplosion(s, ent.x + ent.width/2, ent.y + ent.height/2, def.color, 20);
+    events.push({ type: 'KILL', kind: ent.type, x: ent.x, y: ent.y });
+};
+
+// Shooters charge up while on screen and ahead of the target, then fire at where it is now
+const fireAtShip = (s: SimState, target: Ship, ent: Entity, def: EntityDefinition, dt: number, fired: Entity[]) => {
+    const shooter = def.shooter;
+    if (!shooter) return;
+    ent.cooldown = (ent.cooldown ?? shooter.interval) - dt;
+    const inRange = ent.x + ent.width <= s.worldWidth && ent.x >= target.px + target.width * 2;
+    if (!inRange) {
+        ent.cooldown = Math.max(ent.cooldown, SHOT_WARNING_FRAMES);
+        return;
+    }
+    if (ent.cooldown > 0) return;
+    ent.cooldown = shooter.interval;
+
+    const shotDef = getEntityDefinition(shooter.projectile);
+    const shot = createEntity(s, shotDef, ent.x - shotDef.width, ent.y + (ent.height - shotDef.height) / 2);
+    const dx = target.px + target.width / 2 - shot.x;
+    const dy = target.py + target.height / 2 - shot.y;
+    const dist = Math.sqrt(dx*dx + dy*dy) || 1;
+    shot.vx = (dx / dist) * shooter.speed;
+    shot.vy = (dy / dist) * shooter.speed;
+    fired.push(shot);
+};
+
+// Frames of GHOST after a boss strips the shield, to get clear of the beam
+const BEAM_GRACE_FRAMES = 60;
+
+// The boss's body or beams touched a ship
+const bossHitsShip = (s: SimState, ship: Ship, events: SimEvent[]) => {
+    if (consumeEffect(ship, 'SHIELD')) {
+        ship.stats.shieldsPopped++;
+        applyEffect(ship, 'GHOST', BEAM_GRACE_FRAMES);
+        createExplosion(s, ship.px, ship.py, GAME_COLORS.playerShield, 15);
+        events.push({ type: 'SHIELD_POP', cause: 'BOSS' });
+        return;
+    }
+    if (tryRevive(s, ship, 'BOSS', events)) return;
+    createExplosion(s, ship.px, ship.py, GAME_COLORS.player, 30);
+    shipDown(s, ship, 'BOSS', events);
+};
+
+// Score multiplier (2X SCORE) for each ship, as it stood at the start of the step
+type ScoreScale = (ship: Ship) => number;
+
+// The boss is gone one way or the other: pay every ship still flying and move on
+// to the next sector. The event carries the first one's bonus.
+const finishBoss = (s: SimState, defeated: boolean, scoreScale: ScoreScale, events: SimEvent[]) => {
+    const base = (defeated ? DEFEAT_BONUS : SURVIVE_BONUS) * s.sector;
+    let bonus = 0;
+    getShips(s).filter(ship => ship.alive).forEach((ship, i) => {
+        const paid = base * scoreScale(ship);
+        ship.score += paid;
+        if (i === 0) bonus = paid;
+        if (defeated) ship.stats.bossesDefeated++;
+        else ship.stats.bossesSurvived++;
+    });
+    s.boss = null;
+    s.sector++;
+    s.nextBossAt = s.distance + s.config.bossInterval;
+    events.push({ type: 'BOSS_END', defeated, bonus });
+};
+
+const stepBoss = (s: SimState, timeScale: number, scoreScale: ScoreScale, events: SimEvent[]) => {
+    const boss = s.boss;
+    if (!boss) return;
+    for (const action of updateBoss(s, boss, timeScale)) {
+        if (action.kind === 'ESCAPED') {
+            finishBoss(s, false, scoreScale, events);
+            return;
+        }
+        const rock = addEntity(s, getEntityDefinition('ROCK'), action.x, -60);
+        rock.vx = 0;
+        rock.vy = 4 + nextFloat(s.rng) * 2;
+    }
+
+    const body = getBossShapes(s, boss);
+    // Shots only land once it has arrived
+    if (s.config.combat && boss.phase === 'FIGHT') {
+        for (const ship of getShips(s)) {
+            if (!ship.alive) continue;
+            let hit = takeProjectileHit(ship, body);
+            while (hit && boss.hp > 0) {
+                boss.hp--;
+                createExplosion(s, hit.x, hit.y, GAME_COLORS.obstacle, 5);
+                hit = boss.hp > 0 ? takeProjectileHit(ship, body) : null;
+            }
+        }
+        if (boss.hp <= 0) {
+            const { left, top, right, bottom } = shapeBounds(body);
+            createExplosion(s, (left + right) / 2, (top + bottom) / 2, GAME_COLORS.obstacle, 60);
+            finishBoss(s, true, scoreScale, events);
+            return;
+        }
+    }
+
+    const beams = getBossBeams(s, boss).filter(b => b.live).map(getBeamShape);
+    for (const ship of getShips(s)) {
+        if (!ship.alive || hasEffect(ship, 'GHOST')) continue;
+        if (compoundPenetration(getShipShapes(ship), [...body, ...beams]) > s.config.hitboxPadding) bossHitsShip(s, ship, events);
+    }
+};
+
+const tally = (counts: Record<EntityType, number>, kind: EntityType) => {
+    counts[kind] = (counts[kind] ?? 0) + 1;
+};
+
+// What a ship without an input of its own does
+const IDLE_INPUT: SimInput = { thrust: false, power: 1, fire: false };
+
+/**
+ * Advances the run by one tick. `dt` is measured in 60 Hz frames; the rules
+ * are tuned for dt = 1. Mutates `s` in place and returns what happened.
+ * Versus runs take one input per ship, in getShips order.
+ */
+export const step = (s: SimState, input: SimInput | SimInput[], dt = 1): SimEvent[] => {
+    const events: SimEvent[] = [];
+    if (!s.isPlaying) return events;
+
+    const ships = getShips(s);
+    const inputs = Array.isArray(input) ? input : [input];
+    const inputFor = (ship: Ship) => inputs[ships.indexOf(ship)] ?? IDLE_INPUT;
+    const flying = ships.filter(ship => ship.alive);
+
+    for (const ship of flying) {
+        ship.isThrusting = inputFor(ship).thrust;
+
+        // Effect time, counted before any timer ticks down this step
+        for (const id of EFFECT_IDS) {
+            if (isTimedEffect(id) && hasEffect(ship, id)) ship.stats.powerupFrames[id] = (ship.stats.powerupFrames[id] ?? 0) + dt;
+        }
+    }
+
+    // Time Dilation (SlowMo): the whole course slows, whoever picked it up
+    const timeScale = flying.some(ship => hasEffect(ship, 'SLOWMO')) ? dt * 0.5 : dt;
+    const doubled = new Set(flying.filter(ship => hasEffect(ship, 'DOUBLE')));
+    const scoreScale: ScoreScale = ship => doubled.has(ship) ? 2 : 1;
+    flying.forEach(ship => tickEffects(ship, dt));
+
+    // Difficulty
+    s.distance += s.speed * timeScale;
+    const difficulty = getDifficulty(s);
+    const effectiveSpeed = (s.speed + difficulty) * timeScale;
+    flying.forEach(ship => { ship.stats.peakDifficulty = Math.max(ship.stats.peakDifficulty, difficulty); });
+
+    // Boss encounters hold regular spawning until they're over
+    if (!s.boss && s.distance >= s.nextBossAt) {
+        s.boss = createBoss(s.sector);
+        events.push({ type: 'BOSS_START', sector: s.sector });
+    }
+
+    for (const ship of flying) {
+        const { power, fire } = inputFor(ship);
+
+        // Player Physics
+        if (ship.isThrusting) {
+            ship.pvy += s.config.flightPower * power * dt;
+        }
+        ship.pvy += s.config.gravity * dt;
+        // Clamp velocity
+        ship.pvy = Math.max(Math.min(ship.pvy, s.config.maxSpeedY), -s.config.maxSpeedY);
+
+        ship.py += ship.pvy * timeScale;
+
+        // Bounds
+        if (ship.py < 0) { ship.py = 0; ship.pvy = 0; }
+        if (ship.py > s.worldHeight - ship.height - 10) {
+            // Hit ground
+            createExplosion(s, ship.px, ship.py, GAME_COLORS.player, 20);
+            if (tryRevive(s, ship, 'GROUND', events)) {
+                // Bounced back up off the floor
+                ship.py = s.worldHeight - ship.height - 10;
+                ship.pvy = -s.config.maxSpeedY;
+            } else {
+                shipDown(s, ship, 'GROUND', events);
+                continue;
+            }
+        }
+
+        // Combat: the ship's own time, so shots aren't slowed by SLOWMO
+        if (s.config.combat) {
+            updateWeapon(s, ship, fire, dt, events);
+            moveProjectiles(s, ship, dt);
+        }
+
+        // Trail
+        if (s.frameCount % 3 === 0) {
+            ship.trail.push({ x: ship.px, y: ship.py + ship.height/2 });
+            if (ship.trail.length > 20) ship.trail.shift();
+        }
+    }
+    if (!s.isPlaying) return events;
+
+    // Spawning
+    s.frameCount++;
+    spawnQueued(s);
+    if (!s.boss && s.frameCount % Math.max(Math.floor(s.config.spawnRate / difficulty), 1) === 0) {
+        spawnTick(s, difficulty);
+    }
+
+    // Entity Logic
+    const hulls = ships.filter(ship => ship.alive).map(ship => {
+        const shapes = getShipShapes(ship);
+        return { ship, index: ships.indexOf(ship), shapes, box: shapeBounds(shapes) };
+    });
+    // Shooters aim at the first ship still flying
+    const target = hulls[0].ship;
+    const fired: Entity[] = []; // Added once the pass is over
+    for (const ent of s.entities) {
+        const def = getEntityDefinition(ent.type);
+        ent.x -= effectiveSpeed;
+        // Own velocity, for things fired or dropped
+        if (ent.vx !== undefined) ent.x += ent.vx;
+        if (ent.vy !== undefined) ent.y += ent.vy;
+        def.move?.(ent, s);
+
+        // Magnet
+        for (const { ship } of hulls) {
+            if (!def.magnetic || !hasEffect(ship, 'MAGNET')) continue;
+            const dx = ship.px - ent.x;
+            const dy = ship.py - ent.y;
+            const dist = Math.sqrt(dx*dx + dy*dy);
+            if (dist < s.config.magnetRadius) {
+                ent.x += (dx/dist) * 15;
+                ent.y += (dy/dist) * 15;
+            }
+        }
+
+        if (ent.x + ent.width < 0) ent.markedForDeletion = true;
+        // Already collected, or cleared by a bomb earlier this step
+        if (ent.markedForDeletion) continue;
+
+        // Shots from the ships
+        if (s.config.combat && def.onCollide.kind === 'HAZARD') {
+            for (const { ship } of hulls) {
+                const hit = takeProjectileHit(ship, getEntityShapes(ent));
+                if (hit) damageEntity(s, ship, ent, def, hit, scoreScale(ship), events);
+                if (ent.markedForDeletion) break;
+            }
+            if (ent.markedForDeletion) continue;
+            fireAtShip(s, target, ent, def, dt, fired);
+        }
+
+        // Near-miss: reported once the hazard that came close is behind the ship it grazed
+        if (ent.grazed?.some(i => ent.x + ent.width < ships[i].px)) {
+            ent.grazed = ent.grazed.filter(i => {
+                const passed = ent.x + ent.width < ships[i].px;
+                if (passed) events.push({ type: 'NEAR_MISS', cause: ent.type });
+                return !passed;
+            });
+        }
+
+        // Collision: cheap box check first (widened for near-misses), then the drawn shapes
+        const reach = NEAR_MISS_DISTANCE;
+        for (const { ship, index, shapes, box } of hulls) {
+            // Taken by a ship before this one, or this one went down earlier in the step
+            if (ent.markedForDeletion) break;
+            if (!ship.alive) continue;
+            if (
+                box.left >= ent.x + ent.width + reach || box.right <= ent.x - reach ||
+                box.top >= ent.y + ent.height + reach || box.bottom <= ent.y - reach
+            ) continue;
+
+            const effect = def.onCollide;
+            // Ghosting passes through hazards without even a graze
+            if (effect.kind === 'HAZARD' && hasEffect(ship, 'GHOST')) continue;
+            const depth = compoundPenetration(shapes, getEntityShapes(ent));
+            // Grazing a hazard is forgiven; pickups only need a touch
+            const threshold = effect.kind === 'HAZARD' ? s.config.hitboxPadding : 0;
+            if (depth <= threshold) {
+                if (effect.kind === 'HAZARD' && depth > -NEAR_MISS_DISTANCE && !ent.grazed?.includes(index)) {
+                    (ent.grazed ??= []).push(index);
+                }
+                continue;
+            }
+
+            if (effect.kind === 'PICKUP') {
+                ship.score += effect.score * scoreScale(ship);
+                ent.markedForDeletion = true;
+                createExplosion(s, ent.x, ent.y, def.color, 5);
+                tally(ship.stats.pickups, ent.type);
+                events.push({ type: 'PICKUP', kind: ent.type, x: ent.x, y: ent.y });
+            } else if (effect.kind === 'POWERUP') {
+                const id = effect.effect;
+                applyEffect(ship, id, isTimedEffect(id) ? s.config.powerupDurations[id] : 0);
+                ent.markedForDeletion = true;
+                createExplosion(s, ent.x, ent.y, '#fff', 10);
+                tally(ship.stats.powerups, ent.type);
+                events.push({ type: 'POWERUP', kind: ent.type });
+                if (id === 'BOMB') detonateBomb(s, events);
+            } else {
+                // Hazard
+                if (consumeEffect(ship, 'SHIELD')) {
+                    ship.stats.shieldsPopped++;
+                    ent.markedForDeletion = true;
+                    createExplosion(s, ent.x, ent.y, GAME_COLORS.playerShield, 15);
+                    events.push({ type: 'SHIELD_POP', cause: ent.type });
+                } else if (tryRevive(s, ship, ent.type, events)) {
+                    ent.markedForDeletion = true;
+                    createExplosion(s, ent.x, ent.y, def.color, 15);
+                } else {
+                    createExplosion(s, ship.px, ship.py, GAME_COLORS.player, 30);
+                    shipDown(s, ship, ent.type, events);
+                }
+            }
+        }
+        if (!s.isPlaying) break;
+    }
+
+    if (s.isPlaying) stepBoss(s, timeScale, scoreScale, events);
+
+    s.entities = s.entities.filter(e => !e.markedForDeletion);
+    s.entities.push(...fired);
+
+    // Particles
+    s.particles.forEach(p => {
+        p.x += p.vx;
+        p.y += p.vy;
+        p.life -= 0.02;
+        p.vx *= 0.95;
+        p.vy *= 0.95;
+    });
+    s.particles = s.particles.filter(p => p.life > 0);
+
+    // Score Logic: not for ships that went down this step
+    for (const ship of flying) if (ship.alive) ship.score += 0.1 * timeScale * scoreScale(ship);
+
+    return events;
+};
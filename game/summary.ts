@@ -0,0 +1,77 @@
+import { FIXED_STEP_MS } from './clock';
+import type { PresetId } from './config';
+import type { CrashCause, EntityType, SimState } from './types';
+
+// --- Run Summary ---
+// What happened in a finished run, flat enough to paste into a spreadsheet.
+// Built from the SimState's tallies, so replays produce the same summary.
+
+export const SUMMARY_FORMAT = 'sky-rider-run-summary';
+export const SUMMARY_VERSION = 3;
+
+export interface RunSummary {
+    format: typeof SUMMARY_FORMAT;
+    version: number;
+    seed: number;
+    daily: string;
+    preset: PresetId;
+    combat: boolean;
+    recordedAt: string;
+
+    score: number;
+    frames: number;
+    seconds: number;
+    distance: number;
+    cause: CrashCause | null;
+    coins: number;
+    pickups: Record<EntityType, number>;
+    powerups: Record<EntityType, number>;
+    powerupSeconds: Record<EntityType, number>;
+    kills: Record<EntityType, number>;
+    shieldsPopped: number;
+    sector: number; // Reached
+    bossesSurvived: number;
+    bossesDefeated: number;
+    peakDifficulty: number;
+}
+
+const framesToSeconds = (frames: number) => Math.round(frames * FIXED_STEP_MS) / 1000;
+
+export const createRunSummary = (s: SimState, preset: PresetId, daily: string): RunSummary => {
+    const powerupSeconds: Record<EntityType, number> = {};
+    for (const [kind, frames] of Object.entries(s.stats.powerupFrames)) powerupSeconds[kind] = framesToSeconds(frames);
+    return {
+        format: SUMMARY_FORMAT,
+        version: SUMMARY_VERSION,
+        seed: s.seed,
+        daily,
+        preset,
+        combat: s.config.combat,
+        recordedAt: new Date().toISOString(),
+
+        score: Math.floor(s.score),
+        frames: s.frameCount,
+        seconds: framesToSeconds(s.frameCount),
+        distance: Math.floor(s.distance),
+        cause: s.stats.cause,
+        coins: s.stats.pickups.COIN ?? 0,
+        pickups: { ...s.stats.pickups },
+        powerups: { ...s.stats.powerups },
+        powerupSeconds,
+        kills: { ...s.stats.kills },
+        shieldsPopped: s.stats.shieldsPopped,
+        sector: s.sector,
+        bossesSurvived: s.stats.bossesSurvived,
+        bossesDefeated: s.stats.bossesDefeated,
+        peakDifficulty: Math.round(s.stats.peakDifficulty * 100) / 100
+    };
+};
+
+export const serializeRunSummary = (summary: RunSummary) => JSON.stringify(summary, null, 2);
+
+// How the run ended, for the GAMEOVER heading
+export const describeCause = (cause: CrashCause | null) => {
+    if (cause === null) return 'RUN ENDED';
+    if (cause === 'GROUND') return 'HIT THE GROUND';
+    return `DOWNED BY ${cause}`;
+};
@@ -0,0 +1,155 @@
+import type { Rng } from './rng';
+import type { GameConfig } from './config';
+import type { ActiveEffect, EffectId } from './effects';
+import type { BossState } from './boss';
+
+// --- Types ---
+// Kinds are defined in the entity registry (see entities.ts), e.g. 'ROCK', 'COIN', 'SHIELD'.
+export type EntityType = string;
+
+export interface Entity {
+    id: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    type: EntityType;
+    markedForDeletion: boolean;
+    rotation?: number; // For visual effects
+    grazed?: number[]; // Ships (getShips index) it came within the near-miss distance of, not yet reported
+    hp?: number;       // Hits left before it is shot down (destructible kinds, combat mode)
+    vx?: number;       // Own velocity on top of the world scrolling (fired or dropped)
+    vy?: number;
+    cooldown?: number; // Frames until it fires again (shooters)
+}
+
+// A shot fired by the ship. Kept in a fixed pool and recycled.
+export interface Projectile {
+    active: boolean;
+    x: number;
+    y: number;
+    vx: number;
+}
+
+// Combat mode weapon: shots heat the gun up and it locks out when it overheats
+export interface WeaponState {
+    heat: number;         // 0..MAX_HEAT
+    overheated: boolean;  // Locked until heat falls back to OVERHEAT_RECOVERY
+    cooldown: number;     // Frames until the next shot
+}
+
+export interface Particle {
+    x: number; y: number; vx: number; vy: number; life: number; color: string; size: number;
+}
+
+// An entity from an authored pattern waiting for its frame
+export interface QueuedSpawn {
+    frame: number;
+    type: EntityType;
+    dx: number;
+    y: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// Tallies kept for the run summary, leaderboard and history
+export interface RunStats {
+    pickups: Record<EntityType, number>;      // Collected, by kind (e.g. COIN)
+    powerups: Record<EntityType, number>;     // Picked up, by kind
+    powerupFrames: Record<EntityType, number>; // Frames spent with each timed effect active
+    kills: Record<EntityType, number>;        // Shot down, by kind
+    shieldsPopped: number;
+    bossesSurvived: number;                   // Outlasted
+    bossesDefeated: number;                   // Shot down
+    peakDifficulty: number;
+    cause: CrashCause | null;                 // Set when the run ends
+}
+
+// One ship's flight: where it is, what it carries and how its run is going
+export interface Ship {
+    px: number;
+    py: number;
+    pvy: number;
+    width: number;
+    height: number;
+    isThrusting: boolean;
+    trail: Point[];
+
+    // Running powerup effects (see effects.ts)
+    effects: Partial<Record<EffectId, ActiveEffect>>;
+
+    // Combat mode
+    weapon: WeaponState;
+    projectiles: Projectile[];
+
+    score: number;
+    stats: RunStats;
+    alive: boolean;  // False once it has crashed
+    reached: number; // Distance it crashed at
+}
+
+// Everything the rules need to advance a run. Plain data only, so it can be
+// stepped in Node and drawn by any front-end. The state is also the first
+// ship, which is the only one outside versus mode.
+export interface SimState extends Ship {
+    isPlaying: boolean;  // Until every ship is down
+    isGameOver: boolean;
+    speed: number;
+    distance: number;
+    config: GameConfig;
+
+    // Course seed and the generator every random decision draws from
+    seed: number;
+    rng: Rng;
+    nextEntityId: number;
+
+    // World bounds (the canvas size in the browser)
+    worldWidth: number;
+    worldHeight: number;
+
+    // Versus mode: the other players' ships, flying the same course
+    rivals: Ship[];
+
+    // Boss encounters: the one in progress, the sector it guards and where the next one waits
+    boss: BossState | null;
+    sector: number;
+    nextBossAt: number; // Distance
+
+    // World
+    entities: Entity[];
+    spawnQueue: QueuedSpawn[];
+    spawnBusyUntil: number; // Frame the running pattern finishes on
+    particles: Particle[];
+    frameCount: number;
+}
+
+export interface SimInput {
+    thrust: boolean;
+    power: number; // 0..1 share of flightPower while thrusting (analog triggers)
+    fire: boolean; // Only does anything in combat mode
+}
+
+export type CrashCause = 'GROUND' | EntityType;
+
+// Things that happened during a step, for the front-end to turn into sound and UI.
+export type SimEvent =
+    | { type: 'PICKUP'; kind: EntityType; x: number; y: number }
+    | { type: 'POWERUP'; kind: EntityType }
+    | { type: 'SHIELD_POP'; cause: EntityType }
+    // An extra life was spent instead of ending the run
+    | { type: 'REVIVE'; cause: CrashCause }
+    | { type: 'BOMB'; destroyed: number }
+    | { type: 'FIRE' }
+    | { type: 'OVERHEAT' }
+    | { type: 'HIT'; kind: EntityType }
+    | { type: 'KILL'; kind: EntityType; x: number; y: number }
+    | { type: 'BOSS_START'; sector: number }
+    | { type: 'BOSS_END'; defeated: boolean; bonus: number }
+    | { type: 'NEAR_MISS'; cause: EntityType }
+    // A versus ship went down while others fly on (`ship` indexes getShips)
+    | { type: 'SHIP_DOWN'; ship: number; cause: CrashCause }
+    // The run is over: the last ship (or the only one) went down
+    | { type: 'CRASH'; cause: CrashCause };
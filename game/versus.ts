@@ -0,0 +1,60 @@
+import { GAME_COLORS } from './constants';
+import { getShipDistance, getShips } from './simulation';
+import type { ShipLook } from './shop';
+import type { CrashCause, SimState } from './types';
+
+// --- Local Versus ---
+// Two ships, one course, one screen. Whoever flies furthest wins; ships that
+// go down on the same frame are split on score.
+
+export const VERSUS_PLAYERS = 2;
+
+// How the other players' ships are drawn (versus rivals, then networked racers
+// in turn); player 1 flies their own cosmetics
+export const RIVAL_LOOKS: ShipLook[] = [
+    { fill: '#1a0f00', stroke: '#ff9900', trail: '#ff9900' },
+    { fill: '#001a0a', stroke: '#39ff14', trail: '#39ff14' },
+    { fill: '#1a0014', stroke: '#ff4fd8', trail: '#ff4fd8' },
+    { fill: '#1a1a00', stroke: '#f5f542', trail: '#f5f542' }
+];
+
+// HUD colour per player
+export const PLAYER_COLORS = [GAME_COLORS.player, RIVAL_LOOKS[0].stroke];
+
+export interface VersusStanding {
+    player: number; // From 1
+    distance: number;
+    score: number;
+    coins: number;
+    alive: boolean;
+    cause: CrashCause | null;
+}
+
+export interface VersusResult {
+    standings: VersusStanding[]; // In player order
+    winner: number | null;       // Null on a dead heat
+    decidedBy: 'DISTANCE' | 'SCORE' | null;
+}
+
+export const getVersusStandings = (s: SimState): VersusStanding[] =>
+    getShips(s).map((ship, i) => ({
+        player: i + 1,
+        distance: Math.floor(getShipDistance(s, ship)),
+        score: Math.floor(ship.score),
+        coins: ship.stats.pickups.COIN ?? 0,
+        alive: ship.alive,
+        cause: ship.stats.cause
+    }));
+
+export const getVersusResult = (s: SimState): VersusResult => {
+    const standings = getVersusStandings(s);
+    const best = (key: 'distance' | 'score', among: VersusStanding[]) => {
+        const top = Math.max(...among.map(p => p[key]));
+        return among.filter(p => p[key] === top);
+    };
+    const furthest = best('distance', standings);
+    if (furthest.length === 1) return { standings, winner: furthest[0].player, decidedBy: 'DISTANCE' };
+    const highest = best('score', furthest);
+    if (highest.length === 1) return { standings, winner: highest[0].player, decidedBy: 'SCORE' };
+    return { standings, winner: null, decidedBy: null };
+};
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_HEAT, OVERHEAT_RECOVERY, PROJECTILE_POOL_SIZE, WORLD_WIDTH, WORLD_HEIGHT } from './constants';
+import { PRESETS, cloneConfig } from './config';
+import { startRun, step } from './simulation';
+import type { SimEvent } from './types';
+import { updateWeapon } from './weapons';
+
+// Fires every 5 frames and sheds 5 heat between shots, so the fifth in a row overheats the gun
+const createArmedRun = () => startRun(WORLD_WIDTH, WORLD_HEIGHT, 1, {
+    ...cloneConfig(PRESETS.NORMAL), combat: true, fireInterval: 5, heatPerShot: 25, coolRate: 1
+});
+
+// Holds fire for `frames` frames, returning the gun's events
+const hold = (frames: number, fire = true) => {
+    const events: SimEvent[] = [];
+    return (s: ReturnType<typeof createArmedRun>) => {
+        for (let i = 0; i < frames; i++) updateWeapon(s, s, fire, 1, events);
+        return events.map(e => e.type);
+    };
+};
+
+test('the gun heats with every shot and locks up when it overheats', () => {
+    const s = createArmedRun();
+    assert.deepEqual(hold(1)(s), ['FIRE']);
+    assert.equal(s.weapon.heat, 25);
+    assert.deepEqual(hold(4)(s), []); // Still cycling
+    assert.equal(s.weapon.heat, 21);
+
+    // Fire held down: a shot every 5 frames until the heat tops out
+    assert.deepEqual(hold(16)(s), ['FIRE', 'FIRE', 'FIRE', 'FIRE', 'OVERHEAT']);
+    assert.equal(s.weapon.heat, MAX_HEAT);
+    assert.equal(s.weapon.overheated, true);
+    assert.deepEqual(hold(30)(s), []);
+});
+
+test('an overheated gun fires again once it has cooled to the recovery mark', () => {
+    const s = createArmedRun();
+    hold(21)(s);
+    assert.equal(s.weapon.overheated, true);
+    hold(MAX_HEAT - OVERHEAT_RECOVERY - 1, false)(s);
+    assert.equal(s.weapon.overheated, true);
+    assert.deepEqual(hold(1)(s), ['FIRE']);
+    assert.equal(s.weapon.overheated, false);
+    assert.equal(s.weapon.heat, OVERHEAT_RECOVERY + 25);
+});
+
+test('every shot comes from the pool, and a gun with none free holds fire', () => {
+    const s = createArmedRun();
+    s.config.heatPerShot = 0;
+    s.config.fireInterval = 1;
+    hold(PROJECTILE_POOL_SIZE + 5)(s);
+    assert.equal(s.projectiles.length, PROJECTILE_POOL_SIZE);
+    assert.ok(s.projectiles.every(p => p.active));
+
+    // Shots leave the screen and go back to the pool
+    const sim = createArmedRun();
+    sim.config.heatPerShot = 0;
+    let fired = 0;
+    for (let i = 0; i < 400 && sim.isPlaying; i++) {
+        fired += step(sim, { thrust: sim.pvy > 0, power: 1, fire: true }).filter(e => e.type === 'FIRE').length;
+    }
+    assert.ok(fired > PROJECTILE_POOL_SIZE);
+});
@@ -0,0 +1,63 @@
+import { MAX_HEAT, OVERHEAT_RECOVERY, PROJECTILE_POOL_SIZE, PROJECTILE_SPEED } from './constants';
+import { compoundPenetration, segment, shapeBounds, type Shape } from './collision';
+import type { Projectile, Ship, SimEvent, SimState, WeaponState } from './types';
+
+// --- Ship Weapon ---
+// Combat mode only. Shots come from a fixed pool so holding fire never
+// allocates; a spent shot is just switched off until it is fired again.
+
+export const createWeapon = (): WeaponState => ({ heat: 0, overheated: false, cooldown: 0 });
+
+export const createProjectilePool = (): Projectile[] =>
+    Array.from({ length: PROJECTILE_POOL_SIZE }, () => ({ active: false, x: 0, y: 0, vx: 0 }));
+
+// Drawn and collided as a bolt trailing back from (x, y); longer than a
+// step closes on anything, so nothing slips between two frames
+export const PROJECTILE_LENGTH = 24;
+
+export const getProjectileShape = (p: Projectile): Shape =>
+    segment(p.x - PROJECTILE_LENGTH, p.y, p.x, p.y, 2);
+
+// Cools the ship's gun and fires from its nose if fire is held and it's ready
+export const updateWeapon = (s: SimState, ship: Ship, fire: boolean, dt: number, events: SimEvent[]) => {
+    const w = ship.weapon;
+    w.cooldown = Math.max(w.cooldown - dt, 0);
+    w.heat = Math.max(w.heat - s.config.coolRate * dt, 0);
+    if (w.overheated && w.heat <= OVERHEAT_RECOVERY) w.overheated = false;
+    if (!fire || w.overheated || w.cooldown > 0) return;
+
+    const shot = ship.projectiles.find(p => !p.active);
+    if (!shot) return;
+    shot.active = true;
+    shot.x = ship.px + ship.width;
+    shot.y = ship.py + ship.height / 2;
+    shot.vx = PROJECTILE_SPEED;
+    w.cooldown = s.config.fireInterval;
+    w.heat = Math.min(w.heat + s.config.heatPerShot, MAX_HEAT);
+    events.push({ type: 'FIRE' });
+    if (w.heat >= MAX_HEAT) {
+        w.overheated = true;
+        events.push({ type: 'OVERHEAT' });
+    }
+};
+
+export const moveProjectiles = (s: SimState, ship: Ship, dt: number) => {
+    for (const p of ship.projectiles) {
+        if (!p.active) continue;
+        p.x += p.vx * dt;
+        if (p.x - PROJECTILE_LENGTH > s.worldWidth) p.active = false;
+    }
+};
+
+// The first of the ship's live shots touching the shapes, which is used up. Null if none.
+export const takeProjectileHit = (ship: Ship, shapes: Shape[]) => {
+    const box = shapeBounds(shapes);
+    for (const p of ship.projectiles) {
+        if (!p.active) continue;
+        if (p.x < box.left || p.x - PROJECTILE_LENGTH > box.right || p.y < box.top - 2 || p.y > box.bottom + 2) continue;
+        if (compoundPenetration([getProjectileShape(p)], shapes) <= 0) continue;
+        p.active = false;
+        return p;
+    }
+    return null;
+};
@@ -1,706 +1,1910 @@
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+/// <reference types="vite/client" />
+import React, { useEffect, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
+import { GAME_COLORS, MAX_HEAT, WORLD_WIDTH, WORLD_HEIGHT } from './game/constants';
+import type { SimState, SimEvent, WeaponState } from './game/types';
+import { createSimState, startRun, startVersusRun, step, getDifficulty, getShips } from './game/simulation';
+import { EFFECTS, getActiveEffects, hasEffect, type EffectStatus } from './game/effects';
+import { createRenderState, renderFrame, snapshotPositions, type RenderState, type DebugOptions } from './game/render';
+import { createClock, advanceClock, clockAlpha, FIXED_STEP_MS } from './game/clock';
+import { randomSeed, dailySeed, dailyKey, formatSeed, parseSeed } from './game/rng';
+import {
+    createReplay, recordInput, finishReplay, createReplayCursor, nextReplayInput,
+    serializeReplay, parseReplay, parseReplayConfig, sameCourse, type Replay, type ReplayConfig, type ReplayCursor
+} from './game/replay';
+import {
+    PRESETS, PRESET_IDS, DEFAULT_PRESET, cloneConfig, type GameConfig, type PresetId
+} from './game/config';
+import {
+    UPGRADES, SHIP_SKINS, TRAIL_STYLES, applyUpgrades, upgradeCost, getShipLook
+} from './game/shop';
+import { createRunSummary, serializeRunSummary, describeCause, type RunSummary } from './game/summary';
+import {
+    ACHIEVEMENTS, createRunTally, createTally, trackStep, addTally, checkGoals, goalProgress, getActiveMissions,
+    type Goal, type RunTally
+} from './game/achievements';
+import { createGhost, finishGhost, ghostGap, parseGhost, recordGhostFrame, serializeGhost, type Ghost } from './game/ghost';
+import { PLAYER_COLORS, RIVAL_LOOKS, VERSUS_PLAYERS, getVersusResult, type VersusResult } from './game/versus';
+import {
+    createRaceOutbox, createRemoteRacer, parseRacePacket, receivePacket, recordRaceInput, takePacket, racerAt, racerFinished,
+    rankStandings, type RaceOutbox, type RemoteRacer
+} from './game/race';
+import { downloadText, pickTextFile } from './utils/files';
+import {
+    InputController, INPUT_ACTIONS, ACTION_NAMES, DEFAULT_BINDINGS, bindInput, unbindInput, describeBinding, vibrate,
+    type InputAction, type Bindings, type TouchRole
+} from './utils/input';
+import {
+    loadSave, writeSave, recordRun, setRunInitials, updateSettings, getHighScore, summarizeRuns,
+    hasGhost, loadCourseGhost, loadGhost, offerGhost, writeGhost,
+    unlockAchievements, completeMissions, isMissionComplete, setLifetime,
+    bankCoins, buyUpgrade, buyCosmetic, ownsCosmetic,
+    AUDIO_BUSES, type SaveData, type SaveSettings, type RunRecord, type AudioBus, type AudioMix
+} from './utils/save';
+import { AudioController } from './utils/audio';
+import {
+    RelayClient, defaultRelayUrl, type RaceStanding, type RoomPlayer, type ServerMessage
+} from './utils/relay';
 
-// --- Constants & Config ---
-const GRAVITY = 0.4;
-const FLIGHT_POWER = -0.8;
-const MAX_SPEED_Y = 8;
-const INITIAL_SPEED = 6;
-const SPAWN_RATE = 70; 
-const GAME_COLORS = {
-    bg: '#050510',
-    player: '#00f3ff',
-    playerShield: '#ffffff',
-    ground: '#b026ff',
-    obstacle: '#ff2a6d',
-    coin: '#f1c40f',
-    text: '#05d9e8'
+const audio = new AudioController();
+const controls = new InputController();
+const relay = new RelayClient();
+
+// Smaller outlined buttons for secondary menu actions
+const secondaryButtonStyle = {
+    background: 'transparent', border: '1px solid rgba(255,255,255,0.4)',
+    color: '#fff', padding: '10px 20px', fontSize: '0.9rem',
+    borderRadius: '5px', cursor: 'pointer', fontFamily: 'Orbitron',
+    textTransform: 'uppercase' as const
 };
 
-// --- Audio Engine (Synth) ---
-class AudioController {
-    ctx: AudioContext | null = null;
-    masterGain: GainNode | null = null;
-    engineOsc: OscillatorNode | null = null;
-    engineGain: GainNode | null = null;
-    initialized = false;
+// Centered dark overlay used by the in-game menus
+const panelStyle = {
+    position: 'absolute' as const, top: '50%', left: '50%', transform: 'translate(-50%, -50%)',
+    textAlign: 'center' as const, pointerEvents: 'auto' as const,
+    background: 'rgba(0,0,0,0.85)', padding: '40px 60px', borderRadius: '10px',
+    border: `1px solid ${GAME_COLORS.player}`,
+    boxShadow: '0 0 30px rgba(0, 243, 255, 0.3)'
+};
 
-    init() {
-        if (this.initialized) return;
-        try {
-            const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-            this.ctx = new AudioContext();
-            this.masterGain = this.ctx.createGain();
-            this.masterGain.gain.value = 0.4;
-            this.masterGain.connect(this.ctx.destination);
-            this.initialized = true;
-        } catch (e) {
-            console.error("Audio init failed", e);
-        }
-    }
+const menuColumnStyle = {
+    display: 'flex', flexDirection: 'column' as const, gap: '12px', alignItems: 'stretch'
+};
 
-    resume() {
-        if (this.ctx && this.ctx.state === 'suspended') {
-            this.ctx.resume();
-        }
-    }
+type View =
+    | 'START' | 'PLAYING' | 'PAUSED' | 'SETTINGS' | 'CONTROLS' | 'STATS' | 'ACHIEVEMENTS' | 'SHOP' | 'REPLAY'
+    | 'GAMEOVER' | 'RESULTS' | 'LOBBY' | 'RACE_RESULTS';
 
-    startEngine() {
-        if (!this.ctx || !this.masterGain) return;
-        if (this.engineOsc) return; // Already running
+const REPLAY_SPEEDS = [1, 2, 4];
+const RESUME_COUNTDOWN_MS = 3000;
+const TOAST_MS = 3500;
+const MUSIC_FULL_DIFFICULTY = 1.5; // Difficulty gained before the music is at full intensity
+const PROGRESS_CHECK_FRAMES = 10; // Goals are checked this often mid-run, and always at the end
 
-        this.engineOsc = this.ctx.createOscillator();
-        this.engineGain = this.ctx.createGain();
-        
-        this.engineOsc.type = 'sawtooth';
-        this.engineOsc.frequency.value = 50; // Low drone
-        
-        this.engineGain.gain.value = 0.05;
-        
-        this.engineOsc.connect(this.engineGain);
-        this.engineGain.connect(this.masterGain);
-        this.engineOsc.start();
-    }
-
-    modulateEngine(isThrusting: boolean) {
-        if (!this.ctx || !this.engineOsc || !this.engineGain) return;
-        const now = this.ctx.currentTime;
-        if (isThrusting) {
-            this.engineOsc.frequency.setTargetAtTime(80, now, 0.2);
-            this.engineGain.gain.setTargetAtTime(0.1, now, 0.1);
-        } else {
-            this.engineOsc.frequency.setTargetAtTime(50, now, 0.5);
-            this.engineGain.gain.setTargetAtTime(0.05, now, 0.5);
-        }
-    }
+interface Toast {
+    id: number;
+    title: string;
+    text: string;
+}
 
-    stopEngine() {
-        if (this.engineOsc) {
-            try { this.engineOsc.stop(); } catch (e) {}
-            this.engineOsc = null;
-        }
-    }
-
-    playTone(freq: number, type: OscillatorType, duration: number, vol = 1, slideTo?: number) {
-        if (!this.ctx || !this.masterGain) return;
-        const osc = this.ctx.createOscillator();
-        const gain = this.ctx.createGain();
-        osc.type = type;
-        osc.frequency.setValueAtTime(freq, this.ctx.currentTime);
-        if (slideTo) {
-            osc.frequency.exponentialRampToValueAtTime(slideTo, this.ctx.currentTime + duration);
-        }
-        
-        gain.connect(this.masterGain);
-        osc.connect(gain);
-        
-        gain.gain.setValueAtTime(vol, this.ctx.currentTime);
-        gain.gain.exponentialRampToValueAtTime(0.01, this.ctx.currentTime + duration);
-        
-        osc.start();
-        osc.stop(this.ctx.currentTime + duration);
-    }
-
-    playJump() { /* Handled by engine modulation mostly, but can add a "whoosh" */ }
-    playCoin() { this.playTone(1200, 'sine', 0.15, 0.4, 1800); }
-    playCrash() { 
-        this.playTone(100, 'sawtooth', 0.4, 0.8, 10); 
-        this.playTone(50, 'square', 0.4, 0.8, 10);
-    }
-    playPowerup() { 
-        this.playTone(400, 'sine', 0.3, 0.5, 800);
-        setTimeout(() => this.playTone(800, 'sine', 0.3, 0.5, 1200), 100);
-    }
+interface Playback {
+    replay: Replay;
+    cursor: ReplayCursor;
+    paused: boolean;
+    speed: number;
+    pendingSteps: number; // Frame-step requests while paused
 }
 
-const audio = new AudioController();
+// --- HUD ---
 
-// --- Types ---
-interface Entity { 
-    id: number;
-    x: number; 
-    y: number; 
-    width: number; 
-    height: number; 
-    type: 'ROCK' | 'LASER' | 'BIRD' | 'COIN' | 'SHIELD' | 'MAGNET' | 'SLOWMO'; 
-    markedForDeletion: boolean;
-    rotation?: number; // For visual effects
+// A powerup badge ringed by how much of it is left
+const EffectBadge = ({ effect }: { effect: EffectStatus }) => {
+    const { name, label, color } = EFFECTS[effect.id];
+    const angle = Math.round(effect.fraction * 360);
+    return (
+        <div title={name} style={{
+            width: '40px', height: '40px', borderRadius: '50%', padding: '3px', boxSizing: 'border-box',
+            background: `conic-gradient(${color} ${angle}deg, rgba(255,255,255,0.15) ${angle}deg)`,
+            boxShadow: `0 0 15px ${color}`,
+            // Flashes as it is about to run out
+            opacity: effect.fraction < 0.2 && Math.floor(effect.fraction * 100) % 2 === 0 ? 0.4 : 1
+        }}>
+            <div style={{
+                width: '100%', height: '100%', borderRadius: '50%', background: GAME_COLORS.bg,
+                color, display: 'flex', alignItems: 'center', justifyContent: 'center',
+                fontWeight: 'bold', fontSize: label.length > 1 ? '12px' : '16px'
+            }}>
+                {label}
+            </div>
+        </div>
+    );
+};
+
+// Combat mode gun heat; locks out (and flashes) when it overheats
+const HeatGauge = ({ weapon }: { weapon: WeaponState }) => {
+    const color = weapon.overheated ? GAME_COLORS.obstacle : weapon.heat > 70 ? '#ff9900' : GAME_COLORS.player;
+    return (
+        <div style={{ marginTop: '8px', width: '140px' }}>
+            <div style={{ color, fontSize: '10px', letterSpacing: '2px' }}>
+                {weapon.overheated ? 'OVERHEATED' : 'HEAT'}
+            </div>
+            <div style={{ height: '6px', background: 'rgba(255,255,255,0.15)', borderRadius: '3px', overflow: 'hidden' }}>
+                <div style={{
+                    width: `${(weapon.heat / MAX_HEAT) * 100}%`, height: '100%', background: color,
+                    boxShadow: `0 0 8px ${color}`
+                }} />
+            </div>
+        </div>
+    );
+};
+
+const BossBar = ({ hp, maxHp, seconds, sector }: { hp: number; maxHp: number; seconds: number; sector: number }) => (
+    <div style={{
+        position: 'absolute', top: '20px', left: '50%', transform: 'translateX(-50%)',
+        width: '320px', textAlign: 'center'
+    }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', color: GAME_COLORS.obstacle, fontSize: '11px', letterSpacing: '2px' }}>
+            <span>SECTOR {sector} GUARDIAN</span>
+            <span>{seconds > 0 ? `${seconds}s` : 'RETREATING'}</span>
+        </div>
+        <div style={{
+            height: '10px', marginTop: '4px', background: 'rgba(255,255,255,0.1)',
+            border: `1px solid ${GAME_COLORS.obstacle}`, borderRadius: '2px', overflow: 'hidden'
+        }}>
+            <div style={{
+                width: `${(hp / maxHp) * 100}%`, height: '100%', background: GAME_COLORS.obstacle,
+                boxShadow: `0 0 10px ${GAME_COLORS.obstacle}`
+            }} />
+        </div>
+    </div>
+);
+
+// Versus: each player's score and running powerups, in their colour
+interface VersusPlayerUi {
+    score: number;
+    alive: boolean;
+    effects: EffectStatus[];
+}
+
+const VersusHud = ({ players }: { players: VersusPlayerUi[] }) => (
+    <div style={{ display: 'flex', gap: '40px' }}>
+        {players.map((p, i) => (
+            <div key={i} style={{ opacity: p.alive ? 1 : 0.4 }}>
+                <div style={{ color: PLAYER_COLORS[i], fontSize: '12px', letterSpacing: '2px' }}>
+                    PLAYER {i + 1}{p.alive ? '' : ' /// DOWN'}
+                </div>
+                <div style={{ fontSize: '28px', color: PLAYER_COLORS[i], fontWeight: 'bold', textShadow: `0 0 10px ${PLAYER_COLORS[i]}` }}>
+                    {p.score}
+                </div>
+                <div style={{ display: 'flex', gap: '6px', marginTop: '6px' }}>
+                    {p.effects.map(effect => (
+                        <React.Fragment key={effect.id}>
+                            <EffectBadge effect={effect} />
+                        </React.Fragment>
+                    ))}
+                </div>
+            </div>
+        ))}
+    </div>
+);
+
+// --- Run Summary ---
+
+const summaryLabelStyle = { color: '#aaa', fontSize: '0.65rem', letterSpacing: '2px' };
+
+const RunSummaryGrid = ({ summary }: { summary: RunSummary }) => {
+    const cells: [string, string][] = [
+        ['DISTANCE', `${Math.floor(summary.distance / 100)}m`],
+        ['TIME', `${summary.seconds.toFixed(1)}s`],
+        ['COINS', `${summary.coins}`],
+        ['SHIELDS POPPED', `${summary.shieldsPopped}`],
+        ['PEAK DIFFICULTY', `x${summary.peakDifficulty.toFixed(2)}`],
+        ['SECTOR', `${summary.sector}`],
+        ...Object.entries(summary.powerupSeconds).map(([kind, secs]): [string, string] => [`${kind} TIME`, `${secs.toFixed(1)}s`]),
+        ...(summary.combat ? [['KILLS', `${Object.values(summary.kills).reduce((a, b) => a + b, 0)}`] as [string, string]] : [])
+    ];
+    return (
+        <div style={{
+            display: 'grid', gridTemplateColumns: 'repeat(3, auto)', gap: '10px 25px',
+            justifyContent: 'center', margin: '10px 0 20px', color: '#fff', fontSize: '0.9rem'
+        }}>
+            {cells.map(([label, value]) => (
+                <div key={label}>
+                    <div style={summaryLabelStyle}>{label}</div>
+                    <div>{value}</div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// --- Versus Results ---
+
+const VersusResultsView = ({ result, onRematch, onMenu }: {
+    result: VersusResult; onRematch: () => void; onMenu: () => void;
+}) => {
+    const color = result.winner ? PLAYER_COLORS[result.winner - 1] : GAME_COLORS.text;
+    return (
+        <div style={{ ...panelStyle, border: `1px solid ${color}`, boxShadow: `0 0 30px ${color}` }}>
+            <h2 style={{ color, fontSize: '2.5rem', margin: '0 0 5px' }}>
+                {result.winner ? `PLAYER ${result.winner} WINS` : 'DEAD HEAT'}
+            </h2>
+            <div style={{ color: '#aaa', letterSpacing: '2px', marginBottom: '20px', fontSize: '0.8rem' }}>
+                {result.decidedBy === 'DISTANCE' ? 'FLEW THE FURTHEST' : result.decidedBy === 'SCORE' ? 'LEVEL ON DISTANCE, AHEAD ON SCORE' : 'LEVEL ON DISTANCE AND SCORE'}
+            </div>
+            <table style={{ margin: '0 auto 25px', borderCollapse: 'collapse', color: '#fff', fontSize: '0.9rem' }}>
+                <thead>
+                    <tr style={summaryLabelStyle}>
+                        <th style={tableCellStyle}></th>
+                        <th style={tableCellStyle}>DISTANCE</th>
+                        <th style={tableCellStyle}>SCORE</th>
+                        <th style={tableCellStyle}>COINS</th>
+                        <th style={tableCellStyle}>CRASH</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {result.standings.map(p => (
+                        <tr key={p.player}>
+                            <td style={{ ...tableCellStyle, color: PLAYER_COLORS[p.player - 1] }}>
+                                {p.player === result.winner ? '★ ' : ''}P{p.player}
+                            </td>
+                            <td style={tableCellStyle}>{Math.floor(p.distance / 100)}m</td>
+                            <td style={tableCellStyle}>{p.score}</td>
+                            <td style={tableCellStyle}>{p.coins}</td>
+                            <td style={tableCellStyle}>{describeCause(p.cause)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div style={{ display: 'flex', gap: '10px', justifyContent: 'center' }}>
+                <button type="button" onClick={onRematch} style={{ ...secondaryButtonStyle, borderColor: color, color }}>
+                    REMATCH
+                </button>
+                <button type="button" onClick={onMenu} style={secondaryButtonStyle}>
+                    MENU
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// --- Network Race ---
+
+// Each opponent's gap to the player, in the colour their ship is drawn in
+interface RacerUi {
+    name: string;
+    gap: number; // Px ahead of the player (negative when behind)
+    down: boolean;
 }
 
-interface Particle {
-    x: number; y: number; vx: number; vy: number; life: number; color: string; size: number;
+const RaceHud = ({ racers }: { racers: RacerUi[] }) => (
+    <div style={{ marginTop: '6px', fontSize: '12px', letterSpacing: '2px' }}>
+        {racers.map((r, i) => (
+            <div key={i} style={{ color: RIVAL_LOOKS[i % RIVAL_LOOKS.length].stroke, opacity: r.down ? 0.5 : 1 }}>
+                {r.name} {r.gap >= 0 ? '+' : '-'}{Math.floor(Math.abs(r.gap) / 100)}m{r.down ? ' /// DOWN' : ''}
+            </div>
+        ))}
+    </div>
+);
+
+interface LobbyUi {
+    url: string;
+    room: string;
+    status: 'OFFLINE' | 'CONNECTING' | 'ONLINE';
+    error: string;
+    you: number | null;
+    host: number | null;
+    racing: boolean; // A race is being flown in the room
+    players: RoomPlayer[];
 }
 
+const fieldStyle = { ...secondaryButtonStyle, cursor: 'text', textAlign: 'center' as const, outline: 'none' };
+
+const LobbyView = ({ lobby, name, preset, onChange, onName, onJoin, onStart, onBack }: {
+    lobby: LobbyUi;
+    name: string;
+    preset: PresetId;
+    onChange: (patch: Partial<Pick<LobbyUi, 'url' | 'room'>>) => void;
+    onName: (name: string) => void;
+    onJoin: () => void;
+    onStart: () => void;
+    onBack: () => void;
+}) => {
+    const online = lobby.status === 'ONLINE';
+    const hosting = online && lobby.host === lobby.you;
+    return (
+        <div style={{ ...panelStyle, padding: '30px 40px', width: 'min(520px, 90vw)' }}>
+            <h2 style={{ color: GAME_COLORS.player, fontSize: '2rem', margin: '0 0 20px' }}>NETWORK RACE</h2>
+            <div style={{ ...menuColumnStyle, marginBottom: '10px' }}>
+                <input
+                    value={lobby.url}
+                    onChange={e => onChange({ url: e.target.value })}
+                    placeholder="RELAY ADDRESS"
+                    style={{ ...fieldStyle, textTransform: 'none' }}
+                />
+            </div>
+            <div style={{ display: 'flex', gap: '10px', justifyContent: 'center' }}>
+                <input
+                    value={lobby.room}
+                    onChange={e => onChange({ room: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '') })}
+                    onKeyDown={e => { if (e.key === 'Enter') onJoin(); }}
+                    placeholder="ROOM"
+                    maxLength={12}
+                    style={{ ...fieldStyle, width: '140px' }}
+                />
+                <input
+                    value={name}
+                    onChange={e => onName(e.target.value)}
+                    placeholder="AAA"
+                    maxLength={3}
+                    style={{ ...fieldStyle, width: '70px' }}
+                />
+                <button
+                    type="button"
+                    onClick={onJoin}
+                    disabled={!lobby.room || lobby.status === 'CONNECTING'}
+                    style={{ ...secondaryButtonStyle, borderColor: GAME_COLORS.player, color: GAME_COLORS.player }}
+                >
+                    {online ? 'SWITCH ROOM' : lobby.status === 'CONNECTING' ? 'JOINING...' : 'JOIN'}
+                </button>
+            </div>
+            {lobby.error && (
+                <div style={{ color: GAME_COLORS.obstacle, fontSize: '0.75rem', marginTop: '12px' }}>{lobby.error}</div>
+            )}
+            {online && (
+                <div style={{ marginTop: '20px' }}>
+                    <div style={{ color: '#aaa', fontSize: '0.75rem', letterSpacing: '2px', marginBottom: '8px' }}>
+                        ROOM {lobby.room} /// {lobby.players.length} PLAYER{lobby.players.length === 1 ? '' : 'S'}
+                    </div>
+                    {lobby.players.map(p => (
+                        <div key={p.id} style={{ ...shopRowStyle, color: p.id === lobby.you ? GAME_COLORS.player : '#fff' }}>
+                            <span>{p.id === lobby.host ? '★ ' : ''}{p.name}{p.id === lobby.you ? ' (YOU)' : ''}</span>
+                            <span style={{ color: '#aaa', fontSize: '0.65rem' }}>{p.racing ? 'RACING' : 'READY'}</span>
+                        </div>
+                    ))}
+                    <div style={{ marginTop: '20px' }}>
+                        {lobby.racing ? (
+                            <div style={{ color: '#aaa', fontSize: '0.75rem' }}>RACE IN PROGRESS /// YOU'RE IN THE NEXT ONE</div>
+                        ) : hosting ? (
+                            <button type="button" onClick={onStart} style={{ ...secondaryButtonStyle, borderColor: GAME_COLORS.player, color: GAME_COLORS.player }}>
+                                START RACE ({preset})
+                            </button>
+                        ) : (
+                            <div style={{ color: '#aaa', fontSize: '0.75rem' }}>WAITING FOR THE HOST TO START</div>
+                        )}
+                    </div>
+                </div>
+            )}
+            <div style={{ color: '#aaa', fontSize: '0.65rem', marginTop: '20px', lineHeight: 1.6 }}>
+                Start the relay with npm run relay, then join the same room from each window.<br />
+                Everyone flies the host's course, unarmed and without upgrades.
+            </div>
+            <button type="button" onClick={onBack} style={{ ...secondaryButtonStyle, marginTop: '20px' }}>
+                {online ? 'LEAVE' : 'BACK'}
+            </button>
+        </div>
+    );
+};
+
+const ordinal = (n: number) => {
+    const teens = n % 100 >= 11 && n % 100 <= 13;
+    return `${n}${teens ? 'TH' : ['TH', 'ST', 'ND', 'RD'][n % 10] ?? 'TH'}`;
+};
+
+const RaceResultsView = ({ result, you, online, onLobby }: {
+    result: { standings: RaceStanding[]; final: boolean } | null;
+    you: number | null;
+    online: boolean;
+    onLobby: () => void;
+}) => {
+    const mine = result?.standings.find(r => r.id === you);
+    const place = result?.final ? mine?.place ?? null : null;
+    const waiting = result ? result.standings.filter(r => !r.finished).length : 0;
+    const color = place === 1 ? GAME_COLORS.coin : GAME_COLORS.player;
+    return (
+        <div style={{ ...panelStyle, border: `1px solid ${color}`, boxShadow: `0 0 30px ${color}` }}>
+            <h2 style={{ color, fontSize: '2.5rem', margin: '0 0 5px' }}>
+                {place === 1 ? 'YOU WIN' : place ? `${ordinal(place)} PLACE` : 'CRASHED'}
+            </h2>
+            <div style={{ color: '#aaa', letterSpacing: '2px', marginBottom: '20px', fontSize: '0.8rem' }}>
+                {!online && !result?.final
+                    ? 'LOST THE RELAY BEFORE THE RESULTS'
+                    : result?.final ? 'FINAL STANDINGS' : `WAITING FOR ${waiting || ''} RACER${waiting === 1 ? '' : 'S'}`}
+            </div>
+            {result && (
+                <table style={{ margin: '0 auto 25px', borderCollapse: 'collapse', color: '#fff', fontSize: '0.9rem' }}>
+                    <thead>
+                        <tr style={summaryLabelStyle}>
+                            <th style={tableCellStyle}></th>
+                            <th style={tableCellStyle}>NAME</th>
+                            <th style={tableCellStyle}>DISTANCE</th>
+                            <th style={tableCellStyle}>SCORE</th>
+                            <th style={tableCellStyle}></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.standings.map(r => (
+                            <tr key={r.id} style={{ color: r.id === you ? GAME_COLORS.player : '#fff' }}>
+                                <td style={tableCellStyle}>{r.place ? ordinal(r.place) : '--'}</td>
+                                <td style={tableCellStyle}>{r.name}</td>
+                                <td style={tableCellStyle}>{Math.floor(r.distance / 100)}m</td>
+                                <td style={tableCellStyle}>{r.score}</td>
+                                <td style={{ ...tableCellStyle, color: '#aaa', fontSize: '0.7rem' }}>
+                                    {r.left ? 'LEFT' : r.finished ? '' : 'FLYING'}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            <button type="button" onClick={onLobby} style={{ ...secondaryButtonStyle, borderColor: color, color }}>
+                {online ? 'BACK TO LOBBY' : 'MENU'}
+            </button>
+        </div>
+    );
+};
+
+// --- Achievements Gallery ---
+
+const GoalCard = ({ goal, done, progress }: { goal: Goal; done: boolean; progress: number }) => (
+    <div style={{
+        width: '200px', padding: '10px', borderRadius: '5px', textAlign: 'left',
+        border: `1px solid ${done ? GAME_COLORS.text : 'rgba(255,255,255,0.2)'}`,
+        boxShadow: done ? `0 0 8px ${GAME_COLORS.text}` : 'none',
+        opacity: done ? 1 : 0.6
+    }}>
+        <div style={{ color: done ? GAME_COLORS.text : '#fff', fontSize: '0.8rem' }}>{goal.name}</div>
+        <div style={{ color: '#aaa', fontSize: '0.65rem', margin: '4px 0 6px' }}>{goal.description}</div>
+        <div style={{ height: '4px', background: 'rgba(255,255,255,0.1)' }}>
+            <div style={{ width: `${(done ? 1 : progress / goal.target) * 100}%`, height: '100%', background: GAME_COLORS.text }} />
+        </div>
+    </div>
+);
+
+const AchievementsView = ({ save, onBack }: { save: SaveData; onBack: () => void }) => {
+    const key = dailyKey();
+    const noRun = createTally();
+    const unlocked = ACHIEVEMENTS.filter(a => a.id in save.progress.achievements).length;
+    const gridStyle = { display: 'flex', flexWrap: 'wrap' as const, gap: '10px', justifyContent: 'center' };
+    return (
+        <div style={{ ...panelStyle, padding: '30px 40px', maxHeight: '90vh', overflowY: 'auto', width: 'min(700px, 90vw)' }}>
+            <h2 style={{ color: GAME_COLORS.player, fontSize: '2rem', margin: '0 0 20px' }}>ACHIEVEMENTS</h2>
+            <div style={{ color: '#aaa', fontSize: '0.8rem', letterSpacing: '2px', marginBottom: '10px' }}>
+                TODAY'S MISSIONS ({key})
+            </div>
+            <div style={{ ...gridStyle, marginBottom: '25px' }}>
+                {getActiveMissions(key).map(m => (
+                    <React.Fragment key={m.id}>
+                        <GoalCard goal={m} done={isMissionComplete(save, key, m.id)} progress={0} />
+                    </React.Fragment>
+                ))}
+            </div>
+            <div style={{ color: '#aaa', fontSize: '0.8rem', letterSpacing: '2px', marginBottom: '10px' }}>
+                UNLOCKED {unlocked}/{ACHIEVEMENTS.length}
+            </div>
+            <div style={gridStyle}>
+                {ACHIEVEMENTS.map(a => (
+                    <React.Fragment key={a.id}>
+                        <GoalCard
+                            goal={a}
+                            done={a.id in save.progress.achievements}
+                            // Single-run goals start from zero every run, so only lifetime ones show a bar
+                            progress={a.scope === 'LIFETIME' ? goalProgress(a, noRun, save.progress.lifetime) : 0}
+                        />
+                    </React.Fragment>
+                ))}
+            </div>
+            <button type="button" onClick={onBack} style={{ ...secondaryButtonStyle, marginTop: '25px' }}>
+                BACK
+            </button>
+        </div>
+    );
+};
+
+// --- Shop ---
+
+const shopRowStyle = {
+    display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '15px',
+    padding: '8px 0', borderBottom: '1px solid rgba(255,255,255,0.1)', fontSize: '0.8rem'
+};
+
+const shopButtonStyle = { ...secondaryButtonStyle, padding: '5px 12px', fontSize: '0.7rem', minWidth: '110px' };
+
+const ShopView = ({ save, onBuyUpgrade, onBuyCosmetic, onBack }: {
+    save: SaveData;
+    onBuyUpgrade: (id: string) => void;
+    onBuyCosmetic: (id: string) => void;
+    onBack: () => void;
+}) => {
+    const { shop } = save;
+    const cosmeticButton = (id: string, cost: number, equipped: boolean) => {
+        const owned = ownsCosmetic(shop, id);
+        return (
+            <button
+                type="button"
+                onClick={() => onBuyCosmetic(id)}
+                disabled={equipped || (!owned && shop.coins < cost)}
+                style={{ ...shopButtonStyle, ...(equipped ? { borderColor: GAME_COLORS.player, color: GAME_COLORS.player } : {}) }}
+            >
+                {equipped ? 'EQUIPPED' : owned ? 'EQUIP' : `$${cost}`}
+            </button>
+        );
+    };
+    const heading = (text: string) => (
+        <div style={{ color: '#aaa', fontSize: '0.75rem', letterSpacing: '2px', margin: '20px 0 5px', textAlign: 'left' }}>{text}</div>
+    );
+    return (
+        <div style={{ ...panelStyle, padding: '30px 40px', maxHeight: '90vh', overflowY: 'auto', width: 'min(560px, 90vw)' }}>
+            <h2 style={{ color: GAME_COLORS.player, fontSize: '2rem', margin: '0 0 10px' }}>SHOP</h2>
+            <div style={{ color: GAME_COLORS.coin, letterSpacing: '2px' }}>${shop.coins}</div>
+
+            {heading('UPGRADES')}
+            {UPGRADES.map(u => {
+                const level = shop.upgrades[u.id] ?? 0;
+                const maxed = level >= u.maxLevel;
+                const cost = upgradeCost(u, level);
+                return (
+                    <div key={u.id} style={shopRowStyle}>
+                        <div style={{ textAlign: 'left' }}>
+                            <div style={{ color: '#fff' }}>{u.name} {'■'.repeat(level)}{'□'.repeat(u.maxLevel - level)}</div>
+                            <div style={{ color: '#aaa', fontSize: '0.65rem' }}>{u.description}</div>
+                        </div>
+                        <button type="button" onClick={() => onBuyUpgrade(u.id)} disabled={maxed || shop.coins < cost} style={shopButtonStyle}>
+                            {maxed ? 'MAXED' : `$${cost}`}
+                        </button>
+                    </div>
+                );
+            })}
+
+            {heading('SHIP SKINS')}
+            {SHIP_SKINS.map(skin => (
+                <div key={skin.id} style={shopRowStyle}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px', color: '#fff' }}>
+                        <svg width="30" height="20">
+                            <polygon points="28,10 2,18 6,10 2,2" fill={skin.fill} stroke={skin.stroke} strokeWidth="2" />
+                        </svg>
+                        {skin.name}
+                    </div>
+                    {cosmeticButton(skin.id, skin.cost, shop.skin === skin.id)}
+                </div>
+            ))}
+
+            {heading('TRAILS')}
+            {TRAIL_STYLES.map(trail => (
+                <div key={trail.id} style={shopRowStyle}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px', color: '#fff' }}>
+                        <div style={{ width: '30px', height: '2px', background: trail.color, boxShadow: `0 0 6px ${trail.color}` }} />
+                        {trail.name}
+                    </div>
+                    {cosmeticButton(trail.id, trail.cost, shop.trail === trail.id)}
+                </div>
+            ))}
+
+            <button type="button" onClick={onBack} style={{ ...secondaryButtonStyle, marginTop: '25px' }}>
+                BACK
+            </button>
+        </div>
+    );
+};
+
+// --- Settings Screen ---
+
+const BUS_NAMES: Record<AudioBus, string> = { master: 'MASTER', music: 'MUSIC', sfx: 'EFFECTS', engine: 'ENGINE' };
+
+const SettingsView = ({ settings, onVolume, onToggleMute, onToggleReducedMotion, onControls, onBack }: {
+    settings: SaveSettings;
+    onVolume: (bus: AudioBus, volume: number) => void;
+    onToggleMute: (bus: AudioBus) => void;
+    onToggleReducedMotion: () => void;
+    onControls: () => void;
+    onBack: () => void;
+}) => (
+    <div style={{ ...panelStyle, padding: '30px 40px', width: 'min(480px, 90vw)' }}>
+        <h2 style={{ color: GAME_COLORS.player, fontSize: '2rem', margin: '0 0 20px' }}>SETTINGS</h2>
+        {AUDIO_BUSES.map(bus => {
+            const muted = settings.audio.muted[bus];
+            const volume = settings.audio.volume[bus];
+            return (
+                <div key={bus} style={shopRowStyle}>
+                    <span style={{ color: '#fff', width: '80px', textAlign: 'left' }}>{BUS_NAMES[bus]}</span>
+                    <input
+                        type="range" min={0} max={1} step={0.05} value={volume}
+                        onChange={e => onVolume(bus, parseFloat(e.target.value))}
+                        style={{ flex: 1, opacity: muted ? 0.4 : 1 }}
+                    />
+                    <span style={{ color: '#aaa', width: '40px', textAlign: 'right' }}>{Math.round(volume * 100)}</span>
+                    <button
+                        type="button"
+                        onClick={() => onToggleMute(bus)}
+                        style={{ ...shopButtonStyle, minWidth: '70px', ...(muted ? { borderColor: GAME_COLORS.obstacle, color: GAME_COLORS.obstacle } : {}) }}
+                    >
+                        {muted ? 'MUTED' : 'ON'}
+                    </button>
+                </div>
+            );
+        })}
+        <div style={{ ...menuColumnStyle, marginTop: '20px' }}>
+            <button type="button" onClick={onToggleReducedMotion} style={secondaryButtonStyle}>
+                REDUCED MOTION: {settings.reducedMotion ? 'ON' : 'OFF'}
+            </button>
+            <button type="button" onClick={onControls} style={secondaryButtonStyle}>
+                CONTROLS
+            </button>
+            <button type="button" onClick={onBack} style={{ ...secondaryButtonStyle, marginTop: '18px' }}>
+                BACK
+            </button>
+        </div>
+    </div>
+);
+
+// --- Controls Screen ---
+
+const bindingChipStyle = {
+    display: 'inline-flex', alignItems: 'center', gap: '6px', padding: '3px 4px 3px 8px',
+    border: '1px solid rgba(255,255,255,0.3)', borderRadius: '3px', color: '#fff', fontSize: '0.65rem'
+};
+
+const chipRemoveStyle = {
+    background: 'none', border: 'none', color: GAME_COLORS.obstacle, cursor: 'pointer',
+    fontFamily: 'inherit', fontSize: '0.8rem', padding: '0 4px'
+};
+
+const ControlsView = ({ settings, listening, onListen, onUnbind, onToggle, onReset, onBack }: {
+    settings: SaveSettings;
+    listening: InputAction | null;
+    onListen: (action: InputAction) => void;
+    onUnbind: (action: InputAction, index: number) => void;
+    onToggle: (key: 'analogThrust' | 'touchZones' | 'vibration') => void;
+    onReset: () => void;
+    onBack: () => void;
+}) => (
+    <div style={{ ...panelStyle, padding: '30px 40px', maxHeight: '90vh', overflowY: 'auto', width: 'min(620px, 90vw)' }}>
+        <h2 style={{ color: GAME_COLORS.player, fontSize: '2rem', margin: '0 0 20px' }}>CONTROLS</h2>
+        {INPUT_ACTIONS.map(action => (
+            <div key={action} style={shopRowStyle}>
+                <div style={{ color: '#fff', textAlign: 'left', whiteSpace: 'nowrap' }}>{ACTION_NAMES[action]}</div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', justifyContent: 'flex-end' }}>
+                    {settings.bindings[action].map((b, i) => (
+                        <span key={i} style={bindingChipStyle}>
+                            {describeBinding(b)}
+                            <button type="button" onClick={() => onUnbind(action, i)} title="Remove" style={chipRemoveStyle}>×</button>
+                        </span>
+                    ))}
+                    <button
+                        type="button"
+                        onClick={() => onListen(action)}
+                        style={{
+                            ...shopButtonStyle, minWidth: '80px',
+                            ...(listening === action ? { borderColor: GAME_COLORS.player, color: GAME_COLORS.player } : {})
+                        }}
+                    >
+                        {listening === action ? 'PRESS...' : '+ ADD'}
+                    </button>
+                </div>
+            </div>
+        ))}
+        <div style={{ color: '#aaa', fontSize: '0.7rem', letterSpacing: '1px', marginTop: '15px' }}>
+            {listening
+                ? 'PRESS A KEY, MOUSE BUTTON OR GAMEPAD BUTTON · ESC TO CANCEL'
+                : settings.touchZones
+                    ? 'TOUCH: LEFT HALF THRUSTS, RIGHT HALF FIRES (ARMED RUNS)'
+                    : 'TOUCH: HOLD TO THRUST, A SECOND FINGER FIRES'}
+        </div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', justifyContent: 'center', marginTop: '20px' }}>
+            <button type="button" onClick={() => onToggle('analogThrust')} style={secondaryButtonStyle}>
+                ANALOG THRUST: {settings.analogThrust ? 'ON' : 'OFF'}
+            </button>
+            <button type="button" onClick={() => onToggle('touchZones')} style={secondaryButtonStyle}>
+                TOUCH ZONES: {settings.touchZones ? 'ON' : 'OFF'}
+            </button>
+            <button type="button" onClick={() => onToggle('vibration')} style={secondaryButtonStyle}>
+                VIBRATION: {settings.vibration ? 'ON' : 'OFF'}
+            </button>
+            <button type="button" onClick={onReset} style={secondaryButtonStyle}>
+                RESET DEFAULTS
+            </button>
+        </div>
+        <div style={{ color: '#aaa', fontSize: '0.65rem', marginTop: '8px', lineHeight: 1.6 }}>
+            Analog thrust lets trigger pressure set how hard the ship climbs.<br />
+            Touch zones split the screen on armed runs: left half thrusts, right half fires.
+        </div>
+        <button type="button" onClick={onBack} style={{ ...secondaryButtonStyle, marginTop: '25px' }}>
+            BACK
+        </button>
+    </div>
+);
+
+// --- Stats Screen ---
+
+type StatsTab = 'LEADERBOARD' | 'HISTORY' | 'TOTALS';
+
+const tableCellStyle = { padding: '4px 10px', textAlign: 'right' as const };
+
+const formatDate = (iso: string) => iso ? iso.slice(0, 10) : '--';
+
+const RunTable = ({ runs, ranked }: { runs: RunRecord[]; ranked: boolean }) => (
+    <table style={{ borderCollapse: 'collapse', fontSize: '0.75rem', color: '#fff', margin: '0 auto' }}>
+        <thead style={{ color: '#aaa' }}>
+            <tr>
+                {ranked && <th style={tableCellStyle}>#</th>}
+                <th style={tableCellStyle}>NAME</th>
+                <th style={tableCellStyle}>SCORE</th>
+                {!ranked && <th style={tableCellStyle}>MODE</th>}
+                <th style={tableCellStyle}>DIST</th>
+                <th style={tableCellStyle}>COINS</th>
+                <th style={tableCellStyle}>POWERUPS</th>
+                <th style={tableCellStyle}>DEATH</th>
+                <th style={tableCellStyle}>DATE</th>
+            </tr>
+        </thead>
+        <tbody>
+            {runs.map((r, i) => (
+                <tr key={r.id}>
+                    {ranked && <td style={tableCellStyle}>{i + 1}</td>}
+                    <td style={tableCellStyle}>{r.initials || '---'}</td>
+                    <td style={{ ...tableCellStyle, color: GAME_COLORS.text }}>{Math.floor(r.score)}</td>
+                    {!ranked && <td style={tableCellStyle}>{r.daily ? 'DAILY' : r.preset}{r.combat ? ' (ARMED)' : ''}</td>}
+                    <td style={tableCellStyle}>{Math.floor(r.distance / 100)}m</td>
+                    <td style={tableCellStyle}>{r.coins}</td>
+                    <td style={tableCellStyle}>{Object.values(r.powerups).reduce((a, b) => a + b, 0)}</td>
+                    <td style={tableCellStyle}>{r.cause || '--'}</td>
+                    <td style={tableCellStyle}>{formatDate(r.date)}</td>
+                </tr>
+            ))}
+            {runs.length === 0 && (
+                <tr><td colSpan={9} style={{ padding: '20px', color: '#aaa', textAlign: 'center' }}>NO RUNS YET</td></tr>
+            )}
+        </tbody>
+    </table>
+);
+
+// Horizontal bars, longest first
+const BarChart = ({ data, color }: { data: Record<string, number>; color: string }) => {
+    const rows = Object.entries(data).sort((a, b) => b[1] - a[1]);
+    const max = Math.max(1, ...rows.map(([, n]) => n));
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.7rem' }}>
+            {rows.map(([label, n]) => (
+                <div key={label} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    <span style={{ width: '70px', textAlign: 'right', color: '#aaa' }}>{label}</span>
+                    <div style={{ width: `${(n / max) * 160}px`, height: '10px', background: color, boxShadow: `0 0 6px ${color}` }} />
+                    <span>{n}</span>
+                </div>
+            ))}
+            {rows.length === 0 && <span style={{ color: '#aaa' }}>--</span>}
+        </div>
+    );
+};
+
+// Scores of recent runs, oldest on the left
+const ScoreTrend = ({ runs }: { runs: RunRecord[] }) => {
+    const recent = runs.slice(0, 30).reverse();
+    const max = Math.max(1, ...recent.map(r => r.score));
+    const w = 300, h = 80;
+    const barW = w / Math.max(recent.length, 1);
+    return (
+        <svg width={w} height={h} style={{ border: '1px solid rgba(255,255,255,0.2)' }}>
+            {recent.map((r, i) => {
+                const barH = (r.score / max) * (h - 4);
+                return <rect key={r.id} x={i * barW + 1} y={h - barH} width={Math.max(barW - 2, 1)} height={barH} fill={GAME_COLORS.player} />;
+            })}
+        </svg>
+    );
+};
+
+const StatsView = ({ save, onBack }: { save: SaveData; onBack: () => void }) => {
+    const [tab, setTab] = useState<StatsTab>('LEADERBOARD');
+    const [preset, setPreset] = useState<PresetId>(save.settings.preset);
+    const totals = summarizeRuns(save.history);
+    const tabButton = (id: StatsTab) => (
+        <button
+            type="button"
+            key={id}
+            onClick={() => setTab(id)}
+            style={{ ...secondaryButtonStyle, ...(tab === id ? { borderColor: GAME_COLORS.player, color: GAME_COLORS.player } : {}) }}
+        >
+            {id}
+        </button>
+    );
+    return (
+        <div style={{ ...panelStyle, padding: '30px 40px', maxHeight: '90vh', overflowY: 'auto' }}>
+            <h2 style={{ color: GAME_COLORS.player, fontSize: '2rem', margin: '0 0 20px' }}>STATS</h2>
+            <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginBottom: '20px' }}>
+                {(['LEADERBOARD', 'HISTORY', 'TOTALS'] as StatsTab[]).map(tabButton)}
+            </div>
+
+            {tab === 'LEADERBOARD' && (
+                <>
+                    <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginBottom: '15px' }}>
+                        {PRESET_IDS.map(id => (
+                            <button
+                                type="button"
+                                key={id}
+                                onClick={() => setPreset(id)}
+                                style={{
+                                    ...secondaryButtonStyle, padding: '5px 12px', fontSize: '0.7rem',
+                                    ...(id === preset ? { borderColor: GAME_COLORS.text, color: GAME_COLORS.text } : {})
+                                }}
+                            >
+                                {id}
+                            </button>
+                        ))}
+                    </div>
+                    <RunTable runs={save.leaderboards[preset]} ranked />
+                </>
+            )}
+
+            {tab === 'HISTORY' && <RunTable runs={save.history.slice(0, 25)} ranked={false} />}
+
+            {tab === 'TOTALS' && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '18px', alignItems: 'center', fontSize: '0.8rem' }}>
+                    <div style={{ display: 'flex', gap: '25px', color: '#fff' }}>
+                        <span>RUNS {totals.runs}</span>
+                        <span>BEST {Math.floor(totals.bestScore)}</span>
+                        <span>AVG {Math.floor(totals.averageScore)}</span>
+                        <span>DIST {Math.floor(totals.distance / 100)}m</span>
+                        <span>COINS {totals.coins}</span>
+                    </div>
+                    <div>
+                        <div style={{ color: '#aaa', marginBottom: '6px' }}>RECENT SCORES</div>
+                        <ScoreTrend runs={save.history} />
+                    </div>
+                    <div style={{ display: 'flex', gap: '30px' }}>
+                        <div>
+                            <div style={{ color: '#aaa', marginBottom: '6px' }}>CAUSE OF DEATH</div>
+                            <BarChart data={totals.causes} color={GAME_COLORS.obstacle} />
+                        </div>
+                        <div>
+                            <div style={{ color: '#aaa', marginBottom: '6px' }}>POWERUPS USED</div>
+                            <BarChart data={totals.powerups} color={GAME_COLORS.playerShield} />
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <button type="button" onClick={onBack} style={{ ...secondaryButtonStyle, marginTop: '25px' }}>
+                BACK
+            </button>
+        </div>
+    );
+};
+
+// --- Dev Tuning ---
+// Live sliders over the running GameConfig (Shift+T, dev builds only)
+
+interface TuningField {
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    get: (c: GameConfig) => number;
+    set: (c: GameConfig, v: number) => void;
+}
+
+const numberField = (key: Exclude<keyof GameConfig, 'powerupDurations' | 'combat'>, min: number, max: number, step: number): TuningField => ({
+    label: key, min, max, step,
+    get: c => c[key],
+    set: (c, v) => { c[key] = v; }
+});
+
+const durationField = (key: keyof GameConfig['powerupDurations']): TuningField => ({
+    label: key, min: 60, max: 1200, step: 10,
+    get: c => c.powerupDurations[key],
+    set: (c, v) => { c.powerupDurations[key] = v; }
+});
+
+const TUNING_FIELDS: TuningField[] = [
+    numberField('gravity', 0.1, 1, 0.01),
+    numberField('flightPower', -2, -0.1, 0.01),
+    numberField('maxSpeedY', 2, 16, 0.5),
+    numberField('initialSpeed', 2, 15, 0.5),
+    numberField('spawnRate', 20, 150, 1),
+    numberField('difficultyInterval', 500, 5000, 100),
+    numberField('difficultyStep', 0, 0.5, 0.01),
+    numberField('hitboxPadding', 0, 15, 1),
+    durationField('SHIELD'),
+    durationField('MAGNET'),
+    durationField('SLOWMO'),
+    durationField('DOUBLE'),
+    durationField('GHOST'),
+    numberField('magnetRadius', 50, 800, 10),
+    numberField('startingShield', 0, 600, 10),
+    numberField('fireInterval', 2, 30, 1),
+    numberField('heatPerShot', 0, 50, 1),
+    numberField('coolRate', 0, 3, 0.1),
+    numberField('bossInterval', 2000, 50000, 500)
+];
+
+const TuningPanel = ({ config, onChange, onReset }: {
+    config: GameConfig;
+    onChange: (config: GameConfig) => void;
+    onReset: () => void;
+}) => (
+    <div style={{
+        position: 'absolute', bottom: '20px', left: '20px', pointerEvents: 'auto',
+        background: 'rgba(0,0,0,0.85)', padding: '12px 16px', borderRadius: '5px',
+        border: '1px solid rgba(255,255,255,0.4)', fontSize: '11px', color: '#fff'
+    }}>
+        <div style={{ marginBottom: '8px', letterSpacing: '2px' }}>TUNING (SHIFT+T)</div>
+        {TUNING_FIELDS.map(f => (
+            <label key={f.label} style={{ display: 'flex', gap: '8px', alignItems: 'center', justifyContent: 'space-between' }}>
+                <span>{f.label}</span>
+                <input
+                    type="range" min={f.min} max={f.max} step={f.step} value={f.get(config)}
+                    onChange={e => {
+                        const next = cloneConfig(config);
+                        f.set(next, parseFloat(e.target.value));
+                        onChange(next);
+                    }}
+                />
+                <span style={{ width: '40px', textAlign: 'right' }}>{f.get(config)}</span>
+            </label>
+        ))}
+        <button type="button" onClick={onReset} style={{ ...secondaryButtonStyle, padding: '4px 10px', fontSize: '0.7rem', marginTop: '8px' }}>
+            RESET TO PRESET
+        </button>
+    </div>
+);
+
+// Clicks and keys aimed at menu controls shouldn't also start or steer the game
+const isMenuControl = (target: EventTarget | null) => {
+    const tag = (target as HTMLElement | null)?.tagName;
+    return tag === 'BUTTON' || tag === 'INPUT';
+};
+
 const SkyRider = () => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const requestRef = useRef<number>(0);
     
     // Game State Refs (Mutable for loop performance)
-    const state = useRef({
-        isPlaying: false,
-        isGameOver: false,
-        score: 0,
-        speed: INITIAL_SPEED,
-        distance: 0,
-        
-        // Player
-        px: 50,
-        py: 200,
-        pvy: 0,
-        width: 40,
-        height: 25,
-        isThrusting: false,
-        trail: [] as {x: number, y: number}[],
-        
-        // Powerups
-        shieldTime: 0,
-        magnetTime: 0,
-        slowMoTime: 0,
-        
-        // World
-        entities: [] as Entity[],
-        particles: [] as Particle[],
-        frameCount: 0,
-        
-        // Background
-        bgOffset: 0
-    });
+    const state = useRef<SimState>(createSimState(WORLD_WIDTH, WORLD_HEIGHT));
+    const debug = useRef<DebugOptions>({ corridor: false, hitboxes: false });
+    const renderState = useRef<RenderState>(createRenderState(0, debug.current));
+    const clock = useRef(createClock());
+
+    // Replays: the run being recorded, the last finished one, and active playback
+    const recording = useRef<Replay | null>(null);
+    const lastReplay = useRef<Replay | null>(null);
+    const playback = useRef<Playback | null>(null);
+
+    // Ghosts: the path being recorded, the one flown against, an imported one being
+    // raced (until a run is started from the menu), and the last run's if it was kept
+    const ghostRecording = useRef<Ghost | null>(null);
+    const opponent = useRef<Ghost | null>(null);
+    const rival = useRef<Ghost | null>(null);
+    const newGhost = useRef<Ghost | null>(null);
+
+    // Networked race: our inputs going out and the opponents flown from theirs
+    const race = useRef<{ outbox: RaceOutbox; racers: RemoteRacer[] } | null>(null);
+
+    // Pause: the simulation holds while paused and during the resume countdown
+    const pause = useRef({ paused: false, countdownMs: 0 });
+    const settingsReturn = useRef<View>('START');
+
+    // Dev tuning overrides the preset while set; runs flown with it don't count
+    const tuning = useRef<GameConfig | null>(null);
+    const tunedRun = useRef(false);
+
+    // What the run in flight was started with, for its save record (versus runs have none)
+    const runInfo = useRef({ preset: DEFAULT_PRESET as PresetId, daily: '', versus: false });
+
+    // Achievement and mission tracking for the run in flight (null when it doesn't count)
+    const progress = useRef<{ tally: RunTally; missionKey: string; missions: Goal[] } | null>(null);
+
+    // Saved settings, leaderboards and run history. The ref is for callbacks the game loop captured early
+    const [save, setSave] = useState<SaveData>(loadSave);
+    const saveRef = useRef(save);
+    // Storage that won't take the save is reported once, not on every change
+    const saveFailed = useRef(false);
+    const commitSave = (next: SaveData) => {
+        saveRef.current = next;
+        if (!writeSave(next) && !saveFailed.current) {
+            saveFailed.current = true;
+            showToast('SAVE FAILED', 'PROGRESS WILL BE LOST ON EXIT');
+        }
+        setSave(next);
+    };
 
     // React State for UI
     const [uiState, setUiState] = useState({
-        view: 'START', // START, PLAYING, GAMEOVER
+        view: 'START' as View,
         score: 0,
-        highScore: 0,
-        powerups: [] as string[]
+        runPreset: DEFAULT_PRESET as PresetId, // What the current or last run was flown on
+        effects: [] as EffectStatus[],
+        weapon: null as WeaponState | null, // Combat mode only
+        sector: 1,
+        boss: null as { hp: number; maxHp: number; seconds: number } | null,
+        seed: 0,
+        daily: '', // Date key when flying the daily course
+        ghostGap: null as number | null, // Px ahead of (or behind) the ghost, when racing one
+        versus: null as VersusPlayerUi[] | null, // Each player, in versus runs
+        versusResult: null as VersusResult | null, // How the last versus run went
+        race: null as RacerUi[] | null, // Each opponent, in networked races
+        raceResult: null as { standings: RaceStanding[]; final: boolean } | null, // As the relay last declared it, ranked on our copies of each run
+        countdown: 0,
+        lastRun: null as { id: string; rank: number | null } | null, // Where the last run placed
+        summary: null as RunSummary | null // How the last run (or watched replay) went
     });
+    const [seedInput, setSeedInput] = useState('');
+    const [playbackUi, setPlaybackUi] = useState({ paused: false, speed: 1 });
+    const [tuningUi, setTuningUi] = useState<GameConfig | null>(null); // Panel contents while it's open
+    const [toasts, setToasts] = useState<Toast[]>([]);
+    const [listening, setListening] = useState<InputAction | null>(null); // CONTROLS action awaiting a new binding
+
+    // Relay connection and room. The ref is for relay messages that land between renders
+    const [lobby, setLobby] = useState<LobbyUi>({
+        url: defaultRelayUrl(), room: '', status: 'OFFLINE', error: '', you: null, host: null, racing: false, players: []
+    });
+    const lobbyRef = useRef(lobby);
+    const updateLobby = (patch: Partial<LobbyUi>) => {
+        lobbyRef.current = { ...lobbyRef.current, ...patch };
+        setLobby(lobbyRef.current);
+    };
 
-    // Load Highscore
+    // Apply Saved Settings
     useEffect(() => {
-        const saved = localStorage.getItem('skyRiderHighScore');
-        setUiState(s => ({ ...s, highScore: saved ? parseInt(saved) : 0 }));
+        audio.setMix(save.settings.audio);
+        renderState.current.reducedMotion = save.settings.reducedMotion;
     }, []);
 
     // --- Core Game Functions ---
 
-    const startGame = () => {
+    // `shared` is a course set up elsewhere, flown exactly as it was: a networked
+    // race's, as the host set it up, or a raced ghost's, as its run flew it
+    const startGame = (seed = randomSeed(), daily = '', preset = saveRef.current.settings.preset, versus = false, shared: ReplayConfig | null = null) => {
         audio.init();
         audio.resume();
+        audio.frame = 0;
         audio.startEngine();
-
-        state.current = {
-            ...state.current,
-            isPlaying: true,
-            isGameOver: false,
-            score: 0,
-            speed: INITIAL_SPEED,
-            distance: 0,
-            px: 50,
-            py: window.innerHeight / 2,
-            pvy: 0,
-            isThrusting: false,
-            trail: [],
-            shieldTime: 0,
-            magnetTime: 0,
-            slowMoTime: 0,
-            entities: [],
-            particles: [],
-            frameCount: 0
+        audio.startMusic();
+
+        const own: ReplayConfig = {
+            worldWidth: WORLD_WIDTH,
+            worldHeight: WORLD_HEIGHT,
+            preset,
+            // Daily and versus runs leave shop upgrades at home too
+            game: tuning.current ? cloneConfig(tuning.current) : applyUpgrades(PRESETS[preset], daily || versus ? {} : saveRef.current.shop.upgrades)
         };
-
-        setUiState(prev => ({ ...prev, view: 'PLAYING', score: 0, powerups: [] }));
+        // ...and are always flown unarmed, so everyone's course is the same
+        own.game.combat = !daily && !versus && saveRef.current.settings.combat;
+        const config = shared ? { ...shared, game: cloneConfig(shared.game) } : own;
+        if (!shared) race.current = null;
+        state.current = versus
+            ? startVersusRun(config.worldWidth, config.worldHeight, seed, config.game, VERSUS_PLAYERS)
+            : startRun(config.worldWidth, config.worldHeight, seed, config.game);
+        renderState.current = createRenderState(seed, debug.current, currentLook(), saveRef.current.settings.reducedMotion);
+        clock.current = createClock();
+        // A ghost's course may carry someone else's upgrades or tuning: racing it only counts on your own, armed or not
+        tunedRun.current = tuning.current !== null || !sameCourse(config, { ...own, game: { ...own.game, combat: config.game.combat } });
+        runInfo.current = { preset, daily, versus };
+        // Versus runs and networked races are party games: nothing is recorded, raced or counted
+        const counts = !tunedRun.current && !versus && !race.current;
+        const missionKey = dailyKey();
+        progress.current = counts ? {
+            tally: createRunTally(), missionKey, missions: getActiveMissions(missionKey)
+        } : null;
+        recording.current = counts ? createReplay(seed, daily, config) : null;
+        ghostRecording.current = counts ? createGhost(state.current, config, daily) : null;
+        newGhost.current = null;
+        // The preset's best ghost only turns up on its own course; RACE BEST GHOST takes you there
+        const home = versus || race.current || rival.current ? null : loadCourseGhost(preset, seed, daily);
+        opponent.current = versus || race.current ? null : rival.current ?? home;
+        renderState.current.ghost = opponent.current;
+        renderState.current.racers = race.current?.racers ?? [];
+        playback.current = null;
+        pause.current = { paused: false, countdownMs: 0 };
+
+        setUiState(prev => ({
+            ...prev, view: 'PLAYING', score: 0, effects: [], weapon: null, sector: 1, boss: null, seed, daily, countdown: 0, runPreset: preset, lastRun: null, summary: null,
+            ghostGap: opponent.current ? 0 : null,
+            versus: versus ? getShips(state.current).map(() => ({ score: 0, alive: true, effects: [] })) : null,
+            versusResult: null,
+            race: race.current ? race.current.racers.map(r => ({ name: r.name, gap: 0, down: false })) : null,
+            raceResult: null
+        }));
         
         if (requestRef.current) cancelAnimationFrame(requestRef.current);
         requestRef.current = requestAnimationFrame(gameLoop);
     };
 
-    const handleGameOver = () => {
+    // Uses the seed typed on the START screen if there is one
+    const startFromMenu = () => {
+        rival.current = null;
+        startGame(parseSeed(seedInput) ?? randomSeed());
+    };
+
+    // Everyone flies the daily course on NORMAL so scores compare
+    const startDailyRun = () => {
+        rival.current = null;
+        const today = new Date();
+        startGame(dailySeed(today), dailyKey(today), DEFAULT_PRESET);
+    };
+
+    // Two players on one course and one screen, on the selected preset
+    const startVersus = () => {
+        rival.current = null;
+        startGame(parseSeed(seedInput) ?? randomSeed(), '', saveRef.current.settings.preset, true);
+    };
+
+    // Flies the ghost's own course, exactly as it was set up, against it
+    const raceGhost = (ghost: Ghost) => {
+        race.current = null;
+        rival.current = ghost;
+        startGame(ghost.seed, ghost.daily, ghost.preset, false, ghost.config);
+    };
+
+    // Races go again on the same course; daily runs retry today's, free and versus runs roll a new one on the same preset.
+    // Networked races only start when the host starts them.
+    const retryGame = () => {
+        if (race.current) return;
+        if (runInfo.current.versus) startGame(randomSeed(), '', uiState.runPreset, true);
+        else if (rival.current) raceGhost(rival.current);
+        else if (uiState.daily) startDailyRun();
+        else startGame(randomSeed(), '', uiState.runPreset);
+    };
+
+    const selectPreset = (preset: PresetId) => commitSave(updateSettings(saveRef.current, { preset }));
+
+    const toggleCombat = () => commitSave(updateSettings(saveRef.current, { combat: !saveRef.current.settings.combat }));
+
+    // --- Dev Tuning ---
+
+    const toggleTuning = () => {
+        if (!import.meta.env.DEV) return;
+        setTuningUi(prev => prev ? null : cloneConfig(state.current.config));
+    };
+
+    // Applies to the run in flight and every run after it until reset
+    const applyTuning = (config: GameConfig) => {
+        tuning.current = config;
+        state.current.config = cloneConfig(config);
+        if (state.current.isPlaying && !playback.current) {
+            tunedRun.current = true;
+            recording.current = null;
+            ghostRecording.current = null;
+        }
+        setTuningUi(config);
+    };
+
+    const resetTuning = () => {
+        tuning.current = null;
+        const preset = PRESETS[uiState.runPreset];
+        // The run in flight stays tuned; only the next one is clean
+        state.current.config = cloneConfig(preset);
+        setTuningUi(cloneConfig(preset));
+    };
+
+    // --- Pause ---
+
+    const pauseGame = () => {
+        if (playback.current) {
+            updatePlayback({ paused: true });
+            return;
+        }
+        // Networked races don't wait for anyone
+        if (!state.current.isPlaying || pause.current.paused || race.current) return;
+        pause.current = { paused: true, countdownMs: 0 };
+        audio.suspend();
+        setUiState(prev => ({ ...prev, view: 'PAUSED', countdown: 0 }));
+    };
+
+    // Gives the player a 3-2-1 before the world moves again
+    const resumeGame = () => {
+        if (!pause.current.paused) return;
+        pause.current = { paused: false, countdownMs: RESUME_COUNTDOWN_MS };
+        audio.resume();
+        setUiState(prev => ({ ...prev, view: 'PLAYING', countdown: Math.ceil(RESUME_COUNTDOWN_MS / 1000) }));
+    };
+
+    const restartFromPause = () => {
+        audio.resume();
+        retryGame();
+    };
+
+    // Abandons the run; it doesn't count towards the high score
+    const quitToTitle = () => {
+        pause.current = { paused: false, countdownMs: 0 };
         state.current.isPlaying = false;
         state.current.isGameOver = true;
+        recording.current = null;
+        ghostRecording.current = null;
+        progress.current = null;
+        audio.stopEngine();
+        audio.stopMusic();
+        audio.resume();
+        setUiState(prev => ({ ...prev, view: 'START', countdown: 0 }));
+    };
+
+    const openSettings = () => {
+        settingsReturn.current = uiState.view;
+        setUiState(prev => ({ ...prev, view: 'SETTINGS' }));
+    };
+
+    const closeSettings = () => {
+        setUiState(prev => ({ ...prev, view: settingsReturn.current }));
+    };
+
+    // --- Controls ---
+
+    const openControls = () => setUiState(prev => ({ ...prev, view: 'CONTROLS' }));
+
+    // Only reachable from SETTINGS
+    const closeControls = () => {
+        controls.cancelListen();
+        setListening(null);
+        setUiState(prev => ({ ...prev, view: 'SETTINGS' }));
+    };
+
+    const setBindings = (bindings: Bindings) => commitSave(updateSettings(saveRef.current, { bindings }));
+
+    // The next key, mouse or pad button pressed is bound to `action`
+    const listenForBinding = (action: InputAction) => {
+        // Otherwise Space or Enter would press the focused button again
+        (document.activeElement as HTMLElement | null)?.blur();
+        setListening(action);
+        controls.listen(binding => {
+            setListening(null);
+            if (binding) setBindings(bindInput(saveRef.current.settings.bindings, action, binding));
+        });
+    };
+
+    const removeBinding = (action: InputAction, index: number) =>
+        setBindings(unbindInput(saveRef.current.settings.bindings, action, index));
+
+    // Flips one of the on/off control settings
+    const toggleControlSetting = (key: 'analogThrust' | 'touchZones' | 'vibration') =>
+        commitSave(updateSettings(saveRef.current, { [key]: !saveRef.current.settings[key] }));
+
+    const setMix = (mix: AudioMix) => {
+        audio.setMix(mix);
+        commitSave(updateSettings(saveRef.current, { audio: mix }));
+    };
+
+    const setVolume = (bus: AudioBus, volume: number) => {
+        const { audio: mix } = saveRef.current.settings;
+        setMix({ ...mix, volume: { ...mix.volume, [bus]: volume } });
+    };
+
+    const toggleBusMute = (bus: AudioBus) => {
+        const { audio: mix } = saveRef.current.settings;
+        setMix({ ...mix, muted: { ...mix.muted, [bus]: !mix.muted[bus] } });
+    };
+
+    const toggleReducedMotion = () => {
+        const reducedMotion = !saveRef.current.settings.reducedMotion;
+        // The run in flight (or the title screen's backdrop) switches over straight away
+        renderState.current.reducedMotion = reducedMotion;
+        commitSave(updateSettings(saveRef.current, { reducedMotion }));
+    };
+
+    const openStats = () => setUiState(prev => ({ ...prev, view: 'STATS' }));
+
+    // Leaves the STATS, ACHIEVEMENTS or SHOP screen
+    const backToTitle = () => setUiState(prev => ({ ...prev, view: 'START' }));
+
+    const enterInitials = (text: string) => {
+        const run = uiState.lastRun;
+        if (!run) return;
+        const initials = text.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3);
+        commitSave(setRunInitials(saveRef.current, run.id, initials));
+        // A run good enough to keep as the ghost carries its name along
+        if (newGhost.current) {
+            newGhost.current.initials = initials;
+            writeGhost(newGhost.current);
+        }
+    };
+
+    // --- Achievements ---
+
+    const showToast = (title: string, text: string) => {
+        const id = Date.now() + Math.random();
+        setToasts(prev => [...prev, { id, title, text }]);
+        setTimeout(() => setToasts(prev => prev.filter(t => t.id !== id)), TOAST_MS);
+    };
+
+    // Unlocks whatever the run in flight has earned so far
+    const checkProgress = () => {
+        const p = progress.current;
+        if (!p) return;
+        let save = saveRef.current;
+        const { lifetime } = save.progress;
+        const achieved = checkGoals(ACHIEVEMENTS, p.tally, lifetime, id => id in save.progress.achievements);
+        const missions = checkGoals(p.missions, p.tally, lifetime, id => isMissionComplete(save, p.missionKey, id));
+        if (!achieved.length && !missions.length) return;
+        if (achieved.length) save = unlockAchievements(save, achieved.map(g => g.id));
+        if (missions.length) save = completeMissions(save, p.missionKey, missions.map(g => g.id));
+        commitSave(save);
+        achieved.forEach(g => showToast('ACHIEVEMENT UNLOCKED', g.name));
+        missions.forEach(g => showToast('MISSION COMPLETE', g.name));
+    };
+
+    // The finished run counts towards lifetime totals
+    const finishProgress = () => {
+        const p = progress.current;
+        if (!p) return;
+        p.tally.runs = 1;
+        checkProgress();
+        commitSave(setLifetime(saveRef.current, addTally(saveRef.current.progress.lifetime, p.tally)));
+        progress.current = null;
+    };
+
+    // --- Shop ---
+
+    const currentLook = () => getShipLook(saveRef.current.shop.skin, saveRef.current.shop.trail);
+
+    const openShop = () => setUiState(prev => ({ ...prev, view: 'SHOP' }));
+
+    const purchase = (next: SaveData | null) => {
+        if (!next) return;
+        commitSave(next);
+        audio.playCoin();
+        renderState.current.look = currentLook();
+    };
+
+    const openAchievements = () => setUiState(prev => ({ ...prev, view: 'ACHIEVEMENTS' }));
+
+    const handleGameOver = () => {
         audio.stopEngine();
         
-        // Check Highscore
-        let newHigh = uiState.highScore;
+        if (playback.current) {
+            endReplay();
+            return;
+        }
+        if (runInfo.current.versus) {
+            setUiState(prev => ({ ...prev, view: 'RESULTS', versus: null, versusResult: getVersusResult(state.current) }));
+            return;
+        }
+        if (race.current) {
+            const s = state.current;
+            relay.send({ type: 'FINISH', frame: s.frameCount, distance: Math.floor(s.distance), score: Math.floor(s.score) });
+            setUiState(prev => ({ ...prev, view: 'RACE_RESULTS', score: Math.floor(s.score), race: null }));
+            return;
+        }
+
+        finishProgress();
         const finalScore = Math.floor(state.current.score);
-        if (finalScore > uiState.highScore) {
-            newHigh = finalScore;
-            localStorage.setItem('skyRiderHighScore', newHigh.toString());
+        if (recording.current) {
+            finishReplay(recording.current, state.current.frameCount, state.current.score);
+            lastReplay.current = recording.current;
+            recording.current = null;
+        }
+        if (ghostRecording.current) {
+            finishGhost(ghostRecording.current, finalScore, saveRef.current.settings.initials);
+            if (offerGhost(ghostRecording.current)) newGhost.current = ghostRecording.current;
+            ghostRecording.current = null;
         }
 
-        setUiState(prev => ({ 
+        const summary = createRunSummary(state.current, runInfo.current.preset, runInfo.current.daily);
+
+        // Record the run (tuned runs don't count)
+        let lastRun: { id: string; rank: number | null } | null = null;
+        if (!tunedRun.current) {
+            const result = recordRun(saveRef.current, {
+                id: `${Date.now().toString(36)}-${formatSeed(summary.seed)}`,
+                initials: saveRef.current.settings.initials,
+                date: summary.recordedAt,
+                preset: summary.preset,
+                daily: summary.daily,
+                seed: summary.seed,
+                score: finalScore,
+                distance: summary.distance,
+                coins: summary.coins,
+                powerups: summary.powerups,
+                cause: summary.cause ?? '',
+                combat: summary.combat
+            });
+            commitSave(bankCoins(result.save, summary.coins));
+            lastRun = { id: result.save.history[0].id, rank: result.rank };
+        }
+        setUiState(prev => ({
             ...prev, 
             view: 'GAMEOVER', 
             score: finalScore,
-            highScore: newHigh
+            lastRun,
+            summary
         }));
     };
 
-    const spawnEntity = (canvasWidth: number, canvasHeight: number) => {
-        const r = Math.random();
-        let type: Entity['type'] = 'ROCK';
-        
-        // Weights
-        if (r < 0.05) type = 'SHIELD';
-        else if (r < 0.08) type = 'MAGNET';
-        else if (r < 0.10) type = 'SLOWMO';
-        else if (r < 0.30) type = 'COIN';
-        else if (r < 0.50) type = 'LASER';
-        else if (r < 0.70) type = 'BIRD';
-        else type = 'ROCK';
-
-        const entity: Entity = {
-            id: Math.random(),
-            x: canvasWidth + 50,
-            y: 0,
-            width: 40,
-            height: 40,
-            type,
-            markedForDeletion: false,
-            rotation: 0
-        };
+    // --- Replays ---
 
-        // Specific setups
-        if (type === 'COIN') {
-            entity.width = 20; entity.height = 20;
-            entity.y = Math.random() * (canvasHeight - 100) + 50;
-            // Spawn a group?
-            state.current.entities.push(entity);
-            for(let i=1; i<5; i++) {
-                state.current.entities.push({
-                    ...entity,
-                    id: Math.random(),
-                    x: canvasWidth + 50 + (i * 30),
-                    y: entity.y + Math.sin(i) * 20 
-                });
-            }
-            return;
-        } else if (type === 'LASER') {
-            // UPDATED: Horizontal beam instead of full height wall
-            entity.width = 200; // Long horizontal
-            entity.height = 10; // Thin
-            // Spawn at random height
-            entity.y = Math.random() * (canvasHeight - 150) + 75;
-        } else if (type === 'ROCK') {
-            entity.width = 50; entity.height = 50;
-            entity.y = Math.random() * (canvasHeight - 150) + 50;
-        } else {
-            // Birds / Powerups
-            entity.width = 30; entity.height = 30;
-            entity.y = Math.random() * (canvasHeight - 100) + 50;
+    const watchReplay = (replay: Replay) => {
+        audio.init();
+        audio.resume();
+        audio.frame = 0;
+        audio.startEngine();
+        audio.startMusic();
+
+        const { config } = replay;
+        state.current = startRun(config.worldWidth, config.worldHeight, replay.seed, config.game);
+        renderState.current = createRenderState(replay.seed, debug.current, currentLook(), saveRef.current.settings.reducedMotion);
+        clock.current = createClock();
+        recording.current = null;
+        ghostRecording.current = null;
+        playback.current = { replay, cursor: createReplayCursor(), paused: false, speed: 1, pendingSteps: 0 };
+        setPlaybackUi({ paused: false, speed: 1 });
+
+        setUiState(prev => ({
+            ...prev, view: 'REPLAY', score: 0, effects: [], weapon: null, sector: 1, boss: null,
+            seed: replay.seed, daily: replay.daily, runPreset: config.preset, ghostGap: null
+        }));
+
+        if (requestRef.current) cancelAnimationFrame(requestRef.current);
+        requestRef.current = requestAnimationFrame(gameLoop);
+    };
+
+    // Called when playback reaches the crash, or the viewer leaves early
+    const endReplay = () => {
+        const pb = playback.current;
+        if (!pb) return;
+        const s = state.current;
+        if (!s.isPlaying && s.frameCount !== pb.replay.frames) {
+            showToast('REPLAY DESYNCED', `ENDED ON FRAME ${s.frameCount} OF ${pb.replay.frames}`);
         }
+        // Left early: there's no finished run to sum up
+        const summary = s.isPlaying ? null : createRunSummary(s, pb.replay.config.preset, pb.replay.daily);
+        s.isPlaying = false;
+        s.isGameOver = true;
+        playback.current = null;
+        audio.stopEngine();
+        audio.stopMusic();
+        setUiState(prev => ({ ...prev, view: 'GAMEOVER', score: Math.floor(pb.replay.score), lastRun: null, summary }));
+    };
 
-        state.current.entities.push(entity);
+    const updatePlayback = (patch: Partial<Pick<Playback, 'paused' | 'speed'>>) => {
+        const pb = playback.current;
+        if (!pb) return;
+        Object.assign(pb, patch);
+        setPlaybackUi({ paused: pb.paused, speed: pb.speed });
     };
 
-    const createExplosion = (x: number, y: number, color: string, count = 15) => {
-        for(let i=0; i<count; i++) {
-            const angle = Math.random() * Math.PI * 2;
-            const speed = Math.random() * 5 + 2;
-            state.current.particles.push({
-                x, y,
-                vx: Math.cos(angle) * speed,
-                vy: Math.sin(angle) * speed,
-                life: 1.0,
-                color,
-                size: Math.random() * 3 + 1
-            });
+    const stepReplayFrame = () => {
+        const pb = playback.current;
+        if (!pb) return;
+        if (!pb.paused) updatePlayback({ paused: true });
+        pb.pendingSteps++;
+    };
+
+    const exportReplay = () => {
+        const replay = lastReplay.current;
+        if (!replay) return;
+        downloadText(`sky-rider-replay-${formatSeed(replay.seed)}-${Math.floor(replay.score)}.json`, serializeReplay(replay));
+    };
+
+    const exportSummary = () => {
+        const summary = uiState.summary;
+        if (!summary) return;
+        downloadText(`sky-rider-run-${formatSeed(summary.seed)}-${summary.score}.json`, serializeRunSummary(summary));
+    };
+
+    const importReplay = async () => {
+        const text = await pickTextFile();
+        if (text === null) return;
+        try {
+            const replay = parseReplay(text);
+            lastReplay.current = replay;
+            watchReplay(replay);
+        } catch (e) {
+            alert((e as Error).message);
         }
     };
 
-    // --- Main Loop ---
-    const gameLoop = (time: number) => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
+    // --- Ghosts ---
 
-        const { width, height } = canvas;
-        const s = state.current;
+    const exportGhost = () => {
+        const ghost = loadGhost(save.settings.preset);
+        if (!ghost) return;
+        downloadText(`sky-rider-ghost-${ghost.preset.toLowerCase()}-${formatSeed(ghost.seed)}-${ghost.score}.json`, serializeGhost(ghost));
+    };
 
-        // 1. UPDATE PHYSICS
-        if (s.isPlaying) {
-            // Time Dilation (SlowMo)
-            let dt = 1;
-            if (s.slowMoTime > 0) {
-                dt = 0.5;
-                s.slowMoTime--;
-            }
+    // The preset's best run goes again on its own seed and course
+    const raceBestGhost = () => {
+        const ghost = loadGhost(save.settings.preset);
+        if (ghost) raceGhost(ghost);
+    };
 
-            // Difficulty
-            s.distance += s.speed * dt;
-            const difficulty = 1 + Math.floor(s.distance / 2000) * 0.1;
-            const effectiveSpeed = (s.speed + difficulty) * dt;
+    const importGhost = async () => {
+        const text = await pickTextFile();
+        if (text === null) return;
+        try {
+            raceGhost(parseGhost(text));
+        } catch (e) {
+            alert((e as Error).message);
+        }
+    };
 
-            // Player Physics
-            if (s.isThrusting) {
-                s.pvy += FLIGHT_POWER;
-            }
-            s.pvy += GRAVITY;
-            // Clamp velocity
-            s.pvy = Math.max(Math.min(s.pvy, MAX_SPEED_Y), -MAX_SPEED_Y);
-            
-            s.py += s.pvy * dt;
+    // --- Network Race ---
 
-            // Audio Modulation
-            audio.modulateEngine(s.isThrusting);
+    const openLobby = () => {
+        rival.current = null;
+        setUiState(prev => ({ ...prev, view: 'LOBBY' }));
+    };
 
-            // Bounds
-            if (s.py < 0) { s.py = 0; s.pvy = 0; }
-            if (s.py > height - s.height - 10) { 
-                // Hit ground
-                audio.playCrash();
-                createExplosion(s.px, s.py, GAME_COLORS.player, 20);
-                handleGameOver();
-                return; // Stop updating this frame
-            }
+    const setRaceName = (text: string) =>
+        commitSave(updateSettings(saveRef.current, { initials: text.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3) }));
 
-            // Timers
-            if (s.magnetTime > 0) s.magnetTime--;
-            if (s.shieldTime > 0) s.shieldTime--;
+    const joinRoom = async () => {
+        const { url, room } = lobbyRef.current;
+        if (!room) return;
+        updateLobby({ status: 'CONNECTING', error: '' });
+        try {
+            if (!relay.connected) await relay.connect(url);
+            // The room arrives as a ROOM message
+            relay.send({ type: 'JOIN', room, name: saveRef.current.settings.initials });
+        } catch (e) {
+            updateLobby({ status: 'OFFLINE', error: (e as Error).message });
+        }
+    };
 
-            // Trail
-            if (s.frameCount % 3 === 0) {
-                s.trail.push({ x: s.px, y: s.py + s.height/2 });
-                if (s.trail.length > 20) s.trail.shift();
-            }
+    const disconnect = () => {
+        relay.close();
+        race.current = null;
+        updateLobby({ status: 'OFFLINE', you: null, host: null, racing: false, players: [] });
+    };
 
-            // Spawning
-            s.frameCount++;
-            if (s.frameCount % Math.floor(SPAWN_RATE / difficulty) === 0) {
-                spawnEntity(width, height);
-            }
+    const leaveLobby = () => {
+        disconnect();
+        setUiState(prev => ({ ...prev, view: 'START' }));
+    };
 
-            // Entity Logic
-            s.entities.forEach(ent => {
-                ent.x -= effectiveSpeed;
-                
-                // Bird Sine Wave
-                if (ent.type === 'BIRD') {
-                    ent.y += Math.sin(s.frameCount * 0.1) * 3;
-                }
-                
-                // Magnet
-                if (ent.type === 'COIN' && s.magnetTime > 0) {
-                    const dx = s.px - ent.x;
-                    const dy = s.py - ent.y;
-                    const dist = Math.sqrt(dx*dx + dy*dy);
-                    if (dist < 300) {
-                        ent.x += (dx/dist) * 15;
-                        ent.y += (dy/dist) * 15;
-                    }
-                }
+    // Host only: everyone in the room flies the selected preset on a fresh course
+    const startRace = () => {
+        const preset = saveRef.current.settings.preset;
+        const game = cloneConfig(PRESETS[preset]);
+        game.combat = false;
+        relay.send({
+            type: 'START', seed: parseSeed(seedInput) ?? randomSeed(),
+            config: { worldWidth: WORLD_WIDTH, worldHeight: WORLD_HEIGHT, preset, game }
+        });
+    };
 
-                if (ent.x + ent.width < 0) ent.markedForDeletion = true;
-
-                // Collision
-                // Simple AABB
-                // Shrink hitbox slightly for fairness
-                const hitboxPadding = 5;
-                if (
-                    s.px < ent.x + ent.width - hitboxPadding &&
-                    s.px + s.width > ent.x + hitboxPadding &&
-                    s.py < ent.y + ent.height - hitboxPadding &&
-                    s.py + s.height > ent.y + hitboxPadding
-                ) {
-                    if (ent.type === 'COIN') {
-                        audio.playCoin();
-                        s.score += 50;
-                        ent.markedForDeletion = true;
-                        createExplosion(ent.x, ent.y, GAME_COLORS.coin, 5);
-                    } else if (['SHIELD', 'MAGNET', 'SLOWMO'].includes(ent.type)) {
-                        audio.playPowerup();
-                        if (ent.type === 'SHIELD') s.shieldTime = 600;
-                        if (ent.type === 'MAGNET') s.magnetTime = 600;
-                        if (ent.type === 'SLOWMO') s.slowMoTime = 300;
-                        ent.markedForDeletion = true;
-                        createExplosion(ent.x, ent.y, '#fff', 10);
-                    } else {
-                        // Hazard
-                        if (s.shieldTime > 0) {
-                            s.shieldTime = 0; // Pop shield
-                            ent.markedForDeletion = true;
-                            audio.playCrash(); // Softer crash sound ideally
-                            createExplosion(ent.x, ent.y, GAME_COLORS.playerShield, 15);
-                        } else {
-                            audio.playCrash();
-                            createExplosion(s.px, s.py, GAME_COLORS.player, 30);
-                            handleGameOver();
-                        }
-                    }
-                }
-            });
+    const beginRace = (seed: number, data: unknown, racers: { id: number; name: string }[], startsIn: number) => {
+        const config = parseReplayConfig(data);
+        const { you } = lobbyRef.current;
+        // Players who joined mid-race sit it out
+        if (!config || !racers.some(r => r.id === you)) return;
+        rival.current = null;
+        race.current = {
+            outbox: createRaceOutbox(seed, config),
+            racers: racers.filter(r => r.id !== you).map(r => createRemoteRacer(r.id, r.name, seed, config))
+        };
+        startGame(seed, '', config.preset, false, config);
+        // Everyone's first frame is on the relay's count
+        pause.current = { paused: false, countdownMs: startsIn };
+        setUiState(prev => ({ ...prev, countdown: Math.ceil(startsIn / 1000) }));
+    };
 
-            s.entities = s.entities.filter(e => !e.markedForDeletion);
+    // Gives up the race in flight; the relay ranks it on the distance flown so far
+    const leaveRace = () => {
+        disconnect();
+        quitToTitle();
+    };
 
-            // Particles
-            s.particles.forEach(p => {
-                p.x += p.vx;
-                p.y += p.vy;
-                p.life -= 0.02;
-                p.vx *= 0.95;
-                p.vy *= 0.95;
-            });
-            s.particles = s.particles.filter(p => p.life > 0);
+    const backToLobby = () => {
+        race.current = null;
+        setUiState(prev => ({ ...prev, view: lobbyRef.current.status === 'ONLINE' ? 'LOBBY' : 'START' }));
+    };
 
-            // Score Logic
-            s.score += 0.1 * dt;
+    const handleRelayMessage = (msg: ServerMessage) => {
+        if (msg.type === 'ROOM') {
+            updateLobby({
+                status: 'ONLINE', error: '', room: msg.room, you: msg.you, host: msg.host, racing: msg.racing, players: msg.players
+            });
+        } else if (msg.type === 'RACE') {
+            beginRace(msg.seed, msg.config, msg.racers, msg.startsIn);
+        } else if (msg.type === 'INPUT') {
+            const racer = race.current?.racers.find(r => r.id === msg.from);
+            const packet = racer && parseRacePacket(racer, msg.frame, msg.inputs);
+            if (packet) receivePacket(racer, packet);
+        } else if (msg.type === 'STANDINGS') {
+            if (!race.current) return;
+            const runs = new Map<number, SimState>(race.current.racers.map(r => [r.id, r.sim]));
+            if (lobbyRef.current.you !== null) runs.set(lobbyRef.current.you, state.current);
+            const standings = rankStandings(msg.standings, msg.final, runs);
+            setUiState(prev => ({ ...prev, raceResult: { standings, final: msg.final } }));
+        } else if (msg.type === 'ERROR') {
+            updateLobby({ error: msg.message });
         }
+    };
 
-        // 2. RENDER (Draws every frame even if game over, for background)
-        ctx.clearRect(0, 0, width, height);
-
-        // -- Background --
-        // Deep Space
-        const gradient = ctx.createLinearGradient(0, 0, 0, height);
-        gradient.addColorStop(0, '#020205');
-        gradient.addColorStop(1, '#1a0b2e');
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, 0, width, height);
-
-        // Moving Grid (Cyberpunk floor)
-        ctx.save();
-        ctx.strokeStyle = 'rgba(176, 38, 255, 0.3)';
-        ctx.lineWidth = 1;
-        ctx.beginPath();
-        // Vertical lines moving left
-        const gridSpeed = s.isPlaying ? (s.speed * (s.slowMoTime > 0 ? 0.5 : 1)) : 2;
-        s.bgOffset = (s.bgOffset - gridSpeed) % 100;
-        
-        // Horizontal horizon lines
-        for(let i=0; i<height/2; i+=40) {
-            const y = height - i;
-            // Perspective faking
-            const yPos = height - (Math.pow(i, 1.2)); 
-            if (yPos < height / 2) break;
-            ctx.moveTo(0, yPos);
-            ctx.lineTo(width, yPos);
-        }
-        // Vertical lines
-        for(let i=0; i<width + 100; i+=100) {
-            const x = i + s.bgOffset;
-            ctx.moveTo(x, height/2);
-            ctx.lineTo(x - 200, height); // Perspective slant
-        }
-        ctx.stroke();
-        ctx.restore();
-
-        // -- Player --
-        if (!s.isGameOver) {
-            // Trail
-            ctx.save();
-            ctx.strokeStyle = s.shieldTime > 0 ? GAME_COLORS.playerShield : GAME_COLORS.player;
-            ctx.lineWidth = 2;
-            ctx.shadowBlur = 10;
-            ctx.shadowColor = ctx.strokeStyle;
-            ctx.beginPath();
-            if (s.trail.length > 0) {
-                ctx.moveTo(s.trail[0].x, s.trail[0].y);
-                for(let i=1; i<s.trail.length; i++) {
-                    ctx.lineTo(s.trail[i].x, s.trail[i].y);
-                }
+    const handleRelayClose = () => {
+        updateLobby({ status: 'OFFLINE', error: 'Lost the connection to the relay', you: null, host: null, racing: false, players: [] });
+        // A race in flight carries on; it just can't be ranked
+        if (race.current && state.current.isPlaying) showToast('NETWORK RACE', 'LOST THE RELAY');
+    };
+
+    // Turn simulation events into sound and UI
+    // Buzzes for the player's own run, not replays
+    const buzz = (pattern: number | number[]) => {
+        if (!playback.current && saveRef.current.settings.vibration) vibrate(pattern);
+    };
+
+    const handleEvents = (events: SimEvent[]) => {
+        audio.playEvents(events);
+        for (const ev of events) {
+            if (ev.type === 'PICKUP') buzz(15);
+            else if (ev.type === 'POWERUP') buzz(40);
+            else if (ev.type === 'BOSS_START') showToast('WARNING', `SECTOR ${ev.sector} GUARDIAN APPROACHING`);
+            else if (ev.type === 'BOSS_END') {
+                showToast(ev.defeated ? 'GUARDIAN DESTROYED' : 'GUARDIAN OUTLASTED', `SECTOR CLEARED +${ev.bonus}`);
             }
-            ctx.stroke();
-            ctx.restore();
-
-            // Ship Body
-            ctx.save();
-            ctx.translate(s.px, s.py);
-            // Tilt
-            ctx.rotate(Math.min(s.pvy * 0.05, 0.5));
-            
-            // Glow
-            ctx.shadowBlur = 15;
-            ctx.shadowColor = s.shieldTime > 0 ? '#fff' : GAME_COLORS.player;
-            
-            // Triangle shape
-            ctx.fillStyle = '#000';
-            ctx.strokeStyle = s.shieldTime > 0 ? '#fff' : GAME_COLORS.player;
-            ctx.lineWidth = 2;
-            ctx.beginPath();
-            ctx.moveTo(s.width, s.height/2); // Nose
-            ctx.lineTo(0, s.height);
-            ctx.lineTo(5, s.height/2);
-            ctx.lineTo(0, 0);
-            ctx.closePath();
-            ctx.fill();
-            ctx.stroke();
-
-            // Engine Flare
-            if (s.isThrusting) {
-                ctx.shadowColor = '#ff9900';
-                ctx.fillStyle = '#ffaa00';
-                ctx.beginPath();
-                ctx.moveTo(0, 5);
-                ctx.lineTo(-Math.random() * 20 - 10, s.height/2);
-                ctx.lineTo(0, s.height - 5);
-                ctx.fill();
+            else if (ev.type === 'SHIP_DOWN') {
+                buzz([100, 50, 200]);
+                showToast('VERSUS', `PLAYER ${ev.ship + 1} IS DOWN`);
+            }
+            else if (ev.type === 'CRASH') {
+                buzz([100, 50, 200]);
+                handleGameOver();
             }
-            ctx.restore();
         }
+    };
 
-        // -- Entities --
-        s.entities.forEach(e => {
-            ctx.save();
-            ctx.translate(e.x, e.y);
-            
-            ctx.shadowBlur = 10;
-            
-            if (e.type === 'ROCK') {
-                ctx.shadowColor = GAME_COLORS.obstacle;
-                ctx.fillStyle = '#2d3436';
-                ctx.strokeStyle = GAME_COLORS.obstacle;
-                ctx.lineWidth = 2;
-                ctx.beginPath();
-                ctx.moveTo(10, 0);
-                ctx.lineTo(e.width, 10);
-                ctx.lineTo(e.width - 5, e.height);
-                ctx.lineTo(0, e.height - 5);
-                ctx.closePath();
-                ctx.fill();
-                ctx.stroke();
-            } else if (e.type === 'LASER') {
-                // Horizontal Beam
-                ctx.shadowColor = '#ff0000';
-                ctx.shadowBlur = 20;
-                
-                // Core
-                ctx.fillStyle = '#ff0000';
-                ctx.fillRect(0, 0, e.width, e.height);
-                
-                // Bright center line
-                ctx.fillStyle = '#fff';
-                ctx.fillRect(0, e.height/2 - 1, e.width, 2);
-
-                // Emitter ends (visual only)
-                ctx.fillStyle = '#333';
-                ctx.fillRect(-5, -5, 10, e.height + 10);
-                ctx.fillRect(e.width - 5, -5, 10, e.height + 10);
-                
-            } else if (e.type === 'COIN') {
-                ctx.shadowColor = GAME_COLORS.coin;
-                ctx.fillStyle = GAME_COLORS.coin;
-                ctx.beginPath();
-                ctx.arc(e.width/2, e.height/2, e.width/2, 0, Math.PI*2);
-                ctx.fill();
-                ctx.fillStyle = '#000';
-                ctx.font = 'bold 12px Orbitron';
-                ctx.fillText('$', 6, 14);
-            } else if (e.type === 'BIRD') {
-                 ctx.shadowColor = '#f1c40f';
-                 ctx.strokeStyle = '#f1c40f';
-                 ctx.lineWidth = 2;
-                 ctx.beginPath();
-                 ctx.moveTo(0, e.height/2);
-                 ctx.lineTo(e.width/2, 0);
-                 ctx.lineTo(e.width, e.height/2);
-                 ctx.stroke();
-            } else {
-                // Powerups
-                const color = e.type === 'SHIELD' ? GAME_COLORS.playerShield : (e.type === 'MAGNET' ? '#9b59b6' : '#2ecc71');
-                ctx.shadowColor = color;
-                ctx.strokeStyle = color;
-                ctx.fillStyle = 'rgba(255,255,255,0.2)';
-                ctx.lineWidth = 2;
-                ctx.beginPath();
-                ctx.arc(e.width/2, e.height/2, e.width/2, 0, Math.PI*2);
-                ctx.fill();
-                ctx.stroke();
-                ctx.fillStyle = '#fff';
-                ctx.font = '16px Orbitron';
-                ctx.fillText(e.type[0], 10, 20);
+    // --- Main Loop ---
+    const gameLoop = (time: number) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        const s = state.current;
+
+        // 1. UPDATE PHYSICS (fixed 60 Hz steps, however often we get called)
+        const pb = playback.current;
+        const p = pause.current;
+        const holding = p.paused || p.countdownMs > 0;
+        let timeScale = pb ? (pb.paused ? 0 : pb.speed) : 1;
+        if (holding) timeScale = 0;
+        let steps = advanceClock(clock.current, time, timeScale);
+        if (pb && pb.paused) steps = pb.pendingSteps;
+
+        // Resume countdown runs on real time
+        if (p.countdownMs > 0 && !p.paused) {
+            p.countdownMs -= clock.current.frameScale * FIXED_STEP_MS;
+            const count = Math.max(Math.ceil(p.countdownMs / 1000), 0);
+            if (count !== uiState.countdown) {
+                setUiState(prev => prev.countdown === count ? prev : { ...prev, countdown: count });
             }
-            ctx.restore();
-        });
+        }
 
-        // -- Particles --
-        s.particles.forEach(p => {
-            ctx.save();
-            ctx.globalAlpha = p.life;
-            ctx.fillStyle = p.color;
-            ctx.beginPath();
-            ctx.arc(p.x, p.y, p.size, 0, Math.PI*2);
-            ctx.fill();
-            ctx.restore();
-        });
+        if (s.isPlaying) {
+            for (let i = 0; i < steps && s.isPlaying; i++) {
+                renderState.current.prev = snapshotPositions(s);
+                let frameInput = controls.read();
+                if (pb) {
+                    frameInput = nextReplayInput(pb.replay, pb.cursor, s.frameCount);
+                } else if (recording.current) {
+                    recordInput(recording.current, s.frameCount, frameInput);
+                }
+                const net = pb ? null : race.current;
+                if (net) recordRaceInput(net.outbox, s.frameCount, frameInput);
+                // Versus: player 2 flies the second ship
+                const events = step(s, s.rivals.length > 0 ? [frameInput, controls.readPlayerTwo()] : frameInput);
+                if (ghostRecording.current && !pb) recordGhostFrame(ghostRecording.current, s);
+                // Everything left goes out with the crash, ahead of the FINISH
+                const packet = net && takePacket(net.outbox, s.frameCount, !s.isPlaying);
+                if (packet) relay.send({ type: 'INPUT', distance: Math.floor(s.distance), ...packet });
+
+                // Audio Modulation
+                audio.frame = s.frameCount;
+                audio.modulateEngine(getShips(s).some(ship => ship.alive && ship.isThrusting));
+                const p = progress.current;
+                if (p && !pb) {
+                    trackStep(p.tally, s, events);
+                    if (s.isPlaying && s.frameCount % PROGRESS_CHECK_FRAMES === 0) checkProgress();
+                }
+                handleEvents(events);
+            }
+            if (pb) pb.pendingSteps = 0;
+            // The soundtrack builds as the run gets harder and goes flat out for bosses
+            const intensity = s.boss ? 1 : Math.min((getDifficulty(s) - 1) / MUSIC_FULL_DIFFICULTY, 1);
+            audio.updateMusic(intensity, hasEffect(s, 'SLOWMO'));
+        }
+
+        // 2. RENDER (Draws every frame even if game over, for background)
+        const alpha = s.isPlaying && !(pb && pb.paused) ? clockAlpha(clock.current) : 1;
+        renderFrame(ctx, s, renderState.current, alpha, holding ? 0 : clock.current.frameScale);
 
         // Sync UI occasionally
-        if (s.frameCount % 5 === 0 && s.isPlaying) {
-            const activePowerups = [];
-            if (s.shieldTime > 0) activePowerups.push('SHIELD');
-            if (s.magnetTime > 0) activePowerups.push('MAGNET');
-            if (s.slowMoTime > 0) activePowerups.push('SLOWMO');
+        if (steps > 0 && s.frameCount % 5 === 0 && s.isPlaying) {
+            const effects = getActiveEffects(s);
             
-            // Only update if different to avoid react thrashing
-            if (Math.floor(s.score) !== uiState.score || activePowerups.length !== uiState.powerups.length) {
+            const gap = !pb && opponent.current ? Math.round(ghostGap(opponent.current, s)) : null;
+
+            const versus = s.rivals.length > 0;
+
+            const racers = race.current && race.current.racers.map(r => ({
+                name: r.name, gap: Math.round(racerAt(r, s.frameCount).distance - s.distance), down: racerFinished(r)
+            }));
+
+            // Only update if different to avoid react thrashing (running timers always differ)
+            if (Math.floor(s.score) !== uiState.score || effects.length > 0 || uiState.effects.length > 0 || gap !== uiState.ghostGap || versus || racers) {
                 setUiState(prev => ({
                     ...prev,
                     score: Math.floor(s.score),
-                    powerups: activePowerups
+                    ghostGap: gap,
+                    race: racers,
+                    versus: versus ? getShips(s).map(ship => ({
+                        score: Math.floor(ship.score), alive: ship.alive, effects: getActiveEffects(ship)
+                    })) : null,
+                    effects,
+                    weapon: s.config.combat ? { ...s.weapon } : null,
+                    sector: s.sector,
+                    boss: s.boss ? {
+                        hp: s.boss.hp, maxHp: s.boss.maxHp, seconds: Math.ceil(s.boss.timeLeft * FIXED_STEP_MS / 1000)
+                    } : null
                 }));
             }
         }
 
         requestRef.current = requestAnimationFrame(gameLoop);
+        // Gamepads for the next frame. Last, so a press that starts a run replaces the loop just scheduled
+        controls.poll();
     };
 
     // --- Input Handling ---
-    const startInput = () => {
-        state.current.isThrusting = true;
-    };
-    const endInput = () => {
-        state.current.isThrusting = false;
+
+    // What a touch on each half of the screen does, or null when any finger thrusts.
+    // Versus always splits it between the players. With zones on, the left half
+    // thrusts and the right half fires, which on an unarmed run is nothing at all.
+    const touchZones = (): [TouchRole, TouchRole] | null => {
+        if (state.current.rivals.length > 0) return ['THRUST', 'P2_THRUST'];
+        if (!saveRef.current.settings.touchZones) return null;
+        return ['THRUST', state.current.config.combat ? 'FIRE' : 'NONE'];
     };
 
     useEffect(() => {
+        // Presses of bound inputs; holding them is read by the loop every step
+        controls.onAction = (action: InputAction) => {
+            const { view } = uiState;
+            if (view === 'REPLAY') {
+                // Keys have their own playback controls below; this is for pads
+                const pb = playback.current;
+                if (action === 'PAUSE' && pb) updatePlayback({ paused: !pb.paused });
+                return;
+            }
+            if (action === 'PAUSE') {
+                if (view === 'PLAYING') pauseGame();
+                else if (view === 'PAUSED') resumeGame();
+            } else if (action === 'RESTART') {
+                if (view === 'PAUSED') restartFromPause();
+                else if (view === 'PLAYING' || view === 'GAMEOVER' || view === 'RESULTS') retryGame();
+            } else if (action === 'THRUST') {
+                // Only a fresh press counts, so a key held through a crash doesn't retry at once
+                if (view === 'START') startFromMenu();
+                else if (view === 'GAMEOVER' || view === 'RESULTS') retryGame();
+            }
+        };
+
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.code === 'Space' || e.code === 'ArrowUp') {
-                if (uiState.view === 'START' || uiState.view === 'GAMEOVER') {
-                    // Prevent immediate accidental restarts if holding key
-                    if (uiState.view === 'START') startGame();
-                    if (uiState.view === 'GAMEOVER') startGame();
-                } else {
-                    startInput();
-                }
+            // Remapping takes the next key, whatever has focus
+            if (controls.capturing) {
+                e.preventDefault();
+                controls.keyDown(e.code);
+                return;
+            }
+            if (isMenuControl(e.target)) return;
+            // Debug overlays
+            if (e.shiftKey && e.code === 'KeyC') {
+                debug.current.corridor = !debug.current.corridor;
+                return;
+            }
+            if (e.shiftKey && e.code === 'KeyH') {
+                debug.current.hitboxes = !debug.current.hitboxes;
+                return;
+            }
+            if (e.shiftKey && e.code === 'KeyT') {
+                toggleTuning();
+                return;
+            }
+            if (uiState.view === 'REPLAY') {
+                const pb = playback.current;
+                if (!pb) return;
+                if (e.code === 'Space' || e.code === 'KeyP') updatePlayback({ paused: !pb.paused });
+                if (e.code === 'ArrowRight' || e.code === 'Period') stepReplayFrame();
+                if (e.code === 'Escape') endReplay();
+                return;
+            }
+            // Escape backs out of menus whatever PAUSE is bound to
+            if (e.code === 'Escape') {
+                if (uiState.view === 'SETTINGS') closeSettings();
+                else if (uiState.view === 'CONTROLS') closeControls();
+                else if (uiState.view === 'STATS' || uiState.view === 'ACHIEVEMENTS' || uiState.view === 'SHOP') backToTitle();
+                else if (uiState.view === 'LOBBY') leaveLobby();
             }
+            controls.keyDown(e.code);
         };
-        const handleKeyUp = () => endInput();
+        const handleKeyUp = (e: KeyboardEvent) => controls.keyUp(e.code);
 
         window.addEventListener('keydown', handleKeyDown);
         window.addEventListener('keyup', handleKeyUp);
         
-        // Touch/Mouse on global window for gameplay
-        const handleDown = (e: Event) => {
-            // If clicking a button, let the button handle it
-            if ((e.target as HTMLElement).tagName === 'BUTTON') return;
-
-            // Global click start
-            if (uiState.view === 'START' || uiState.view === 'GAMEOVER') {
-                startGame();
-            } else {
-                startInput();
+        // Mouse, touch and pen on global window for gameplay, one pointer at a time
+        const handlePointerDown = (e: PointerEvent) => {
+            // If clicking a button or field, let it handle the event
+            if (isMenuControl(e.target)) return;
+            // No text selection or focus changes from the game surface
+            if (e.target === canvasRef.current) e.preventDefault();
+            if (e.pointerType === 'mouse') {
+                controls.mouseDown(e.buttons);
+                return;
             }
+            const zones = uiState.view === 'PLAYING' ? touchZones() : null;
+            controls.touchDown(e.pointerId, zones ? zones[e.clientX < window.innerWidth / 2 ? 0 : 1] : null);
+        };
+        const handlePointerMove = (e: PointerEvent) => {
+            if (e.pointerType === 'mouse') controls.mouseChange(e.buttons);
+        };
+        const handlePointerUp = (e: PointerEvent) => {
+            if (e.pointerType === 'mouse') controls.mouseChange(e.buttons);
+            else controls.touchUp(e.pointerId);
+        };
+
+        // Long-press menus and double-tap zoom on the game surface. Pointer
+        // Events can't cancel those, so this has to be a non-passive touch listener.
+        const handleTouchStart = (e: TouchEvent) => {
+            if (e.target === canvasRef.current) e.preventDefault();
         };
 
-        const handleUp = () => endInput();
+        // The right button is the default trigger mid-run, not a menu
+        const handleContextMenu = (e: Event) => {
+            if (uiState.view === 'PLAYING' || e.target === canvasRef.current) e.preventDefault();
+        };
         
-        window.addEventListener('mousedown', handleDown);
-        window.addEventListener('mouseup', handleUp);
-        window.addEventListener('touchstart', handleDown);
-        window.addEventListener('touchend', handleUp);
+        window.addEventListener('pointerdown', handlePointerDown);
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        window.addEventListener('pointercancel', handlePointerUp);
+        window.addEventListener('touchstart', handleTouchStart, { passive: false });
+        window.addEventListener('contextmenu', handleContextMenu);
 
         return () => {
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
-            window.removeEventListener('mousedown', handleDown);
-            window.removeEventListener('mouseup', handleUp);
-            window.removeEventListener('touchstart', handleDown);
-            window.removeEventListener('touchend', handleUp);
+            window.removeEventListener('pointerdown', handlePointerDown);
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+            window.removeEventListener('pointercancel', handlePointerUp);
+            window.removeEventListener('touchstart', handleTouchStart);
+            window.removeEventListener('contextmenu', handleContextMenu);
         };
-    }, [uiState.view]); // Re-bind if view changes to allow space to start
+    }, [uiState.view, seedInput]); // Re-bind if view changes so actions do what the screen expects
+
+    // Relay messages go to this render's handlers, like the controller's actions
+    useEffect(() => {
+        relay.onMessage = handleRelayMessage;
+        relay.onClose = handleRelayClose;
+    });
+
+    // The controller flies with whatever is saved
+    useEffect(() => {
+        controls.bindings = save.settings.bindings;
+        controls.analogThrust = save.settings.analogThrust;
+    }, [save.settings.bindings, save.settings.analogThrust]);
+
+    // Auto-pause when the player looks away
+    useEffect(() => {
+        // Releases made while away are never seen, so nothing counts as held any more
+        const handleVisibility = () => {
+            if (!document.hidden) return;
+            controls.release();
+            pauseGame();
+        };
+        const handleBlur = () => {
+            controls.release();
+            pauseGame();
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        window.addEventListener('blur', handleBlur);
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibility);
+            window.removeEventListener('blur', handleBlur);
+        };
+    }, []);
 
     // Resize
     useEffect(() => {
         const r = () => {
+            // Only the canvas follows the window; the world it shows keeps its size
             if (canvasRef.current) {
                 canvasRef.current.width = window.innerWidth;
                 canvasRef.current.height = window.innerHeight;
@@ -727,30 +1931,127 @@ const SkyRider = () => {
                 pointerEvents: 'none' // Important: Lets clicks pass through to canvas inputs
             }}>
                 
+                {/* Boss health */}
+                {(uiState.view === 'PLAYING' || uiState.view === 'REPLAY') && uiState.boss && (
+                    <BossBar {...uiState.boss} sector={uiState.sector} />
+                )}
+
+                {/* Toasts */}
+                {toasts.length > 0 && (
+                    <div style={{
+                        position: 'absolute', top: '80px', left: '50%', transform: 'translateX(-50%)',
+                        display: 'flex', flexDirection: 'column', gap: '8px', alignItems: 'center'
+                    }}>
+                        {toasts.map(t => (
+                            <div key={t.id} style={{
+                                background: 'rgba(0,0,0,0.85)', border: `1px solid ${GAME_COLORS.text}`,
+                                boxShadow: `0 0 15px ${GAME_COLORS.text}`, borderRadius: '5px',
+                                padding: '8px 20px', textAlign: 'center'
+                            }}>
+                                <div style={{ color: '#aaa', fontSize: '0.65rem', letterSpacing: '2px' }}>{t.title}</div>
+                                <div style={{ color: GAME_COLORS.text }}>{t.text}</div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* HUD */}
-                {uiState.view === 'PLAYING' && (
+                {(uiState.view === 'PLAYING' || uiState.view === 'REPLAY') && (
                     <div style={{ padding: '20px', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
-                        <div>
+                        {uiState.versus ? <VersusHud players={uiState.versus} /> : <div>
                             <div style={{ fontSize: '32px', color: GAME_COLORS.text, fontWeight: 'bold', textShadow: `0 0 10px ${GAME_COLORS.text}` }}>
                                 {uiState.score}
                             </div>
-                            <div style={{ color: 'rgba(255,255,255,0.5)', fontSize: '14px' }}>HI: {uiState.highScore}</div>
-                        </div>
-                        <div style={{ display: 'flex', gap: '10px' }}>
-                            {uiState.powerups.map((p, i) => (
-                                <div key={i} style={{
-                                    width: '40px', height: '40px', borderRadius: '50%',
-                                    background: p === 'SHIELD' ? GAME_COLORS.playerShield : (p === 'MAGNET' ? '#9b59b6' : '#2ecc71'),
-                                    color: '#000', display: 'flex', alignItems: 'center', justifyContent: 'center',
-                                    fontWeight: 'bold', boxShadow: `0 0 15px ${p === 'SHIELD' ? '#fff' : '#fff'}`
+                            <div style={{ color: 'rgba(255,255,255,0.5)', fontSize: '14px' }}>HI: {getHighScore(save, uiState.runPreset)}</div>
+                            <div style={{ color: GAME_COLORS.ground, fontSize: '12px', letterSpacing: '2px' }}>SECTOR {uiState.sector}</div>
+                            {uiState.ghostGap !== null && (
+                                <div style={{
+                                    color: uiState.ghostGap >= 0 ? GAME_COLORS.player : GAME_COLORS.obstacle,
+                                    fontSize: '12px', letterSpacing: '2px'
                                 }}>
-                                    {p[0]}
+                                    {uiState.ghostGap >= 0 ? '+' : '-'}{Math.floor(Math.abs(uiState.ghostGap) / 100)}m VS GHOST
                                 </div>
+                            )}
+                            {uiState.race && <RaceHud racers={uiState.race} />}
+                            {uiState.weapon && <HeatGauge weapon={uiState.weapon} />}
+                        </div>}
+                        <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
+                            {!uiState.versus && uiState.effects.map(effect => (
+                                <React.Fragment key={effect.id}>
+                                    <EffectBadge effect={effect} />
+                                </React.Fragment>
                             ))}
+                            {uiState.view === 'PLAYING' && (
+                                <button
+                                    type="button"
+                                    onClick={uiState.race ? leaveRace : pauseGame}
+                                    style={{ ...secondaryButtonStyle, pointerEvents: 'auto', padding: '8px 14px' }}
+                                >
+                                    {uiState.race ? 'LEAVE RACE' : 'II'}
+                                </button>
+                            )}
                         </div>
                     </div>
                 )}
 
+                {/* Resume Countdown */}
+                {uiState.view === 'PLAYING' && uiState.countdown > 0 && (
+                    <div style={{
+                        position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)',
+                        fontSize: '6rem', color: GAME_COLORS.player, fontWeight: 'bold',
+                        textShadow: `0 0 20px ${GAME_COLORS.player}`
+                    }}>
+                        {uiState.countdown}
+                    </div>
+                )}
+
+                {/* Pause Menu */}
+                {uiState.view === 'PAUSED' && (
+                    <div style={panelStyle}>
+                        <h2 style={{ color: GAME_COLORS.player, fontSize: '2.5rem', margin: '0 0 10px' }}>PAUSED</h2>
+                        <div style={{ color: '#aaa', marginBottom: '30px' }}>{uiState.score}</div>
+                        <div style={menuColumnStyle}>
+                            <button type="button" onClick={resumeGame} style={{ ...secondaryButtonStyle, borderColor: GAME_COLORS.player, color: GAME_COLORS.player }}>
+                                RESUME
+                            </button>
+                            <button type="button" onClick={restartFromPause} style={secondaryButtonStyle}>
+                                RESTART
+                            </button>
+                            <button type="button" onClick={openSettings} style={secondaryButtonStyle}>
+                                SETTINGS
+                            </button>
+                            <button type="button" onClick={quitToTitle} style={secondaryButtonStyle}>
+                                QUIT TO TITLE
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Settings */}
+                {uiState.view === 'SETTINGS' && (
+                    <SettingsView
+                        settings={save.settings}
+                        onVolume={setVolume}
+                        onToggleMute={toggleBusMute}
+                        onToggleReducedMotion={toggleReducedMotion}
+                        onControls={openControls}
+                        onBack={closeSettings}
+                    />
+                )}
+
+                {/* Controls */}
+                {uiState.view === 'CONTROLS' && (
+                    <ControlsView
+                        settings={save.settings}
+                        listening={listening}
+                        onListen={listenForBinding}
+                        onUnbind={removeBinding}
+                        onToggle={toggleControlSetting}
+                        onReset={() => setBindings(DEFAULT_BINDINGS)}
+                        onBack={closeControls}
+                    />
+                )}
+
                 {/* Main Menu */}
                 {uiState.view === 'START' && (
                     <div style={{
@@ -766,8 +2067,8 @@ const SkyRider = () => {
                         <p style={{ color: '#fff', letterSpacing: '2px', margin: '20px 0 40px' }}>
                             NEON EDITION
                         </p>
-                        <button 
-                            onClick={startGame}
+                        <button type="button" 
+                            onClick={startFromMenu}
                             style={{
                                 background: 'transparent', border: `2px solid ${GAME_COLORS.player}`,
                                 color: GAME_COLORS.player, padding: '15px 50px', fontSize: '1.2rem',
@@ -786,9 +2087,118 @@ const SkyRider = () => {
                         >
                             INITIATE FLIGHT
                         </button>
+                        <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '25px' }}>
+                            {PRESET_IDS.map(id => (
+                                <button
+                                    type="button"
+                                    key={id}
+                                    onClick={() => selectPreset(id)}
+                                    style={{
+                                        ...secondaryButtonStyle,
+                                        ...(id === save.settings.preset ? {
+                                            borderColor: GAME_COLORS.player, color: GAME_COLORS.player,
+                                            boxShadow: `0 0 8px ${GAME_COLORS.player}`
+                                        } : {})
+                                    }}
+                                >
+                                    {id}
+                                </button>
+                            ))}
+                            <button
+                                type="button"
+                                onClick={toggleCombat}
+                                style={{
+                                    ...secondaryButtonStyle,
+                                    ...(save.settings.combat ? {
+                                        borderColor: GAME_COLORS.obstacle, color: GAME_COLORS.obstacle,
+                                        boxShadow: `0 0 8px ${GAME_COLORS.obstacle}`
+                                    } : {})
+                                }}
+                            >
+                                COMBAT {save.settings.combat ? 'ON' : 'OFF'}
+                            </button>
+                        </div>
+                        <div style={{ color: '#aaa', fontSize: '0.8rem', letterSpacing: '2px', marginTop: '10px' }}>
+                            BEST: {getHighScore(save, save.settings.preset)}
+                            {save.settings.combat && ` · FIRE: ${save.settings.bindings.FIRE.map(describeBinding).join(' / ')} OR A SECOND FINGER`}
+                        </div>
+                        <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '25px' }}>
+                            <button type="button" onClick={startDailyRun} style={secondaryButtonStyle}>
+                                DAILY RUN {dailyKey()}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={startVersus}
+                                style={{ ...secondaryButtonStyle, borderColor: PLAYER_COLORS[1], color: PLAYER_COLORS[1] }}
+                            >
+                                2P VERSUS
+                            </button>
+                            <input
+                                value={seedInput}
+                                onChange={e => setSeedInput(e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter') startFromMenu(); }}
+                                placeholder="SEED (OPTIONAL)"
+                                maxLength={16}
+                                style={{
+                                    ...secondaryButtonStyle, cursor: 'text', width: '170px',
+                                    textAlign: 'center', outline: 'none'
+                                }}
+                            />
+                            <button type="button" onClick={importReplay} style={secondaryButtonStyle}>
+                                IMPORT REPLAY
+                            </button>
+                        </div>
+                        <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '10px' }}>
+                            <button type="button" onClick={importGhost} style={secondaryButtonStyle}>
+                                RACE A GHOST
+                            </button>
+                            <button type="button" onClick={openLobby} style={{ ...secondaryButtonStyle, borderColor: RIVAL_LOOKS[1].stroke, color: RIVAL_LOOKS[1].stroke }}>
+                                NETWORK RACE
+                            </button>
+                            {hasGhost(save.settings.preset) && (
+                                <>
+                                    <button type="button" onClick={raceBestGhost} style={secondaryButtonStyle}>
+                                        RACE BEST GHOST
+                                    </button>
+                                    <button type="button" onClick={exportGhost} style={secondaryButtonStyle}>
+                                        EXPORT {save.settings.preset} GHOST
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                        <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '10px' }}>
+                            <button type="button" onClick={openStats} style={secondaryButtonStyle}>
+                                STATS
+                            </button>
+                            <button type="button" onClick={openAchievements} style={secondaryButtonStyle}>
+                                ACHIEVEMENTS
+                            </button>
+                            <button type="button" onClick={openShop} style={{ ...secondaryButtonStyle, borderColor: GAME_COLORS.coin, color: GAME_COLORS.coin }}>
+                                SHOP ${save.shop.coins}
+                            </button>
+                            <button type="button" onClick={openSettings} style={secondaryButtonStyle}>
+                                SETTINGS
+                            </button>
+                        </div>
                     </div>
                 )}
 
+                {/* Shop */}
+                {uiState.view === 'SHOP' && (
+                    <ShopView
+                        save={save}
+                        onBuyUpgrade={id => purchase(buyUpgrade(saveRef.current, id))}
+                        onBuyCosmetic={id => purchase(buyCosmetic(saveRef.current, id))}
+                        onBack={backToTitle}
+                    />
+                )}
+
+                {/* Achievements */}
+                {uiState.view === 'ACHIEVEMENTS' && <AchievementsView save={save} onBack={backToTitle} />}
+
+                {/* Stats */}
+                {uiState.view === 'STATS' && <StatsView save={save} onBack={backToTitle} />}
+
                 {/* Game Over */}
                 {uiState.view === 'GAMEOVER' && (
                     <div style={{
@@ -798,12 +2208,41 @@ const SkyRider = () => {
                         border: `1px solid ${GAME_COLORS.obstacle}`,
                         boxShadow: `0 0 30px rgba(255, 42, 109, 0.3)`
                     }}>
-                        <h2 style={{ color: GAME_COLORS.obstacle, fontSize: '3rem', margin: '0 0 20px' }}>CRASHED</h2>
+                        <h2 style={{ color: GAME_COLORS.obstacle, fontSize: '3rem', margin: '0 0 5px' }}>CRASHED</h2>
+                        {uiState.summary && (
+                            <div style={{ color: GAME_COLORS.obstacle, letterSpacing: '2px', marginBottom: '15px' }}>
+                                {describeCause(uiState.summary.cause)}
+                            </div>
+                        )}
                         <div style={{ fontSize: '2rem', color: '#fff', marginBottom: '10px' }}>{uiState.score}</div>
-                        <div style={{ color: '#aaa', marginBottom: '30px' }}>BEST: {uiState.highScore}</div>
+                        <div style={{ color: '#aaa', marginBottom: '10px' }}>BEST: {getHighScore(save, uiState.runPreset)}</div>
+                        {uiState.lastRun?.rank && (
+                            <div style={{ color: GAME_COLORS.text, marginBottom: '10px', fontSize: '0.9rem' }}>
+                                #{uiState.lastRun.rank} ON THE {uiState.runPreset} BOARD{' '}
+                                <input
+                                    value={save.history.find(r => r.id === uiState.lastRun?.id)?.initials ?? ''}
+                                    onChange={e => enterInitials(e.target.value)}
+                                    placeholder="AAA"
+                                    maxLength={3}
+                                    style={{
+                                        ...secondaryButtonStyle, cursor: 'text', width: '60px', padding: '4px',
+                                        textAlign: 'center', outline: 'none', marginLeft: '8px'
+                                    }}
+                                />
+                            </div>
+                        )}
+                        {uiState.summary && <RunSummaryGrid summary={uiState.summary} />}
+                        {uiState.lastRun && uiState.summary && uiState.summary.coins > 0 && (
+                            <div style={{ color: GAME_COLORS.coin, fontSize: '0.8rem', letterSpacing: '2px', marginBottom: '10px' }}>
+                                +${uiState.summary.coins} BANKED (${save.shop.coins})
+                            </div>
+                        )}
+                        <div style={{ color: '#aaa', fontSize: '0.8rem', letterSpacing: '2px', marginBottom: '30px' }}>
+                            {uiState.daily ? `DAILY ${uiState.daily} /// ` : ''}{uiState.runPreset} /// SEED {formatSeed(uiState.seed)}
+                        </div>
                         
-                        <button 
-                            onClick={startGame}
+                        <button type="button" 
+                            onClick={retryGame}
                             style={{
                                 background: GAME_COLORS.obstacle, border: 'none',
                                 color: '#fff', padding: '15px 40px', fontSize: '1.2rem',
@@ -814,12 +2253,129 @@ const SkyRider = () => {
                         >
                             RETRY
                         </button>
+                        <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '20px' }}>
+                            <button type="button" onClick={() => startGame(uiState.seed, uiState.daily, uiState.runPreset)} style={secondaryButtonStyle}>
+                                SAME COURSE
+                            </button>
+                            <button type="button" onClick={() => setUiState(prev => ({ ...prev, view: 'START' }))} style={secondaryButtonStyle}>
+                                MENU
+                            </button>
+                        </div>
+                        {lastReplay.current && (
+                            <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '10px' }}>
+                                <button type="button" onClick={() => lastReplay.current && watchReplay(lastReplay.current)} style={secondaryButtonStyle}>
+                                    WATCH REPLAY
+                                </button>
+                                <button type="button" onClick={exportReplay} style={secondaryButtonStyle}>
+                                    EXPORT
+                                </button>
+                                <button type="button" onClick={importReplay} style={secondaryButtonStyle}>
+                                    IMPORT
+                                </button>
+                            </div>
+                        )}
+                        {uiState.summary && (
+                            <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '10px' }}>
+                                <button type="button" onClick={exportSummary} style={secondaryButtonStyle}>
+                                    EXPORT RUN STATS
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Versus Results */}
+                {uiState.view === 'RESULTS' && uiState.versusResult && (
+                    <VersusResultsView
+                        result={uiState.versusResult}
+                        onRematch={retryGame}
+                        onMenu={() => setUiState(prev => ({ ...prev, view: 'START' }))}
+                    />
+                )}
+
+                {/* Network Race */}
+                {uiState.view === 'LOBBY' && (
+                    <LobbyView
+                        lobby={lobby}
+                        name={save.settings.initials}
+                        preset={save.settings.preset}
+                        onChange={updateLobby}
+                        onName={setRaceName}
+                        onJoin={joinRoom}
+                        onStart={startRace}
+                        onBack={leaveLobby}
+                    />
+                )}
+                {uiState.view === 'RACE_RESULTS' && (
+                    <RaceResultsView
+                        result={uiState.raceResult}
+                        you={lobby.you}
+                        online={lobby.status === 'ONLINE'}
+                        onLobby={backToLobby}
+                    />
+                )}
+
+                {/* Dev Tuning */}
+                {import.meta.env.DEV && tuningUi && (
+                    <TuningPanel config={tuningUi} onChange={applyTuning} onReset={resetTuning} />
+                )}
+
+                {/* Replay Controls */}
+                {uiState.view === 'REPLAY' && (
+                    <div style={{
+                        position: 'absolute', bottom: '30px', left: '50%', transform: 'translateX(-50%)',
+                        display: 'flex', gap: '10px', alignItems: 'center', pointerEvents: 'auto',
+                        background: 'rgba(0,0,0,0.6)', padding: '10px 15px', borderRadius: '10px'
+                    }}>
+                        <span style={{ color: GAME_COLORS.text, fontSize: '0.8rem', letterSpacing: '2px', marginRight: '10px' }}>
+                            REPLAY
+                        </span>
+                        <button type="button" onClick={() => updatePlayback({ paused: !playbackUi.paused })} style={secondaryButtonStyle}>
+                            {playbackUi.paused ? 'PLAY' : 'PAUSE'}
+                        </button>
+                        <button type="button" onClick={stepReplayFrame} style={secondaryButtonStyle}>
+                            STEP
+                        </button>
+                        {REPLAY_SPEEDS.map(speed => (
+                            <button
+                                type="button"
+                                key={speed}
+                                onClick={() => updatePlayback({ speed })}
+                                style={{
+                                    ...secondaryButtonStyle,
+                                    borderColor: playbackUi.speed === speed ? GAME_COLORS.player : 'rgba(255,255,255,0.4)',
+                                    color: playbackUi.speed === speed ? GAME_COLORS.player : '#fff'
+                                }}
+                            >
+                                {speed}X
+                            </button>
+                        ))}
+                        <button type="button" onClick={endReplay} style={secondaryButtonStyle}>
+                            EXIT
+                        </button>
                     </div>
                 )}
             </div>
 
+            {/* Touch Zones */}
+            {uiState.view === 'PLAYING' && touchZones() && (
+                <div style={{ position: 'absolute', inset: 0, display: 'flex', pointerEvents: 'none' }}>
+                    {touchZones()!.map((zone, i) => (
+                        <div key={zone} style={{
+                            flex: 1, display: 'flex', alignItems: 'flex-end', justifyContent: 'center', paddingBottom: '30px',
+                            borderLeft: i > 0 ? '1px dashed rgba(255,255,255,0.08)' : 'none',
+                            color: 'rgba(255,255,255,0.2)', fontSize: '12px', letterSpacing: '2px'
+                        }}>
+                            {uiState.versus
+                                ? `PLAYER ${i + 1} /// ${save.settings.bindings[zone as InputAction].slice(0, 2).map(describeBinding).join(' / ') || 'TOUCH'}`
+                                : zone === 'NONE' ? '' : zone}
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Tap Hint */}
-            {uiState.view === 'PLAYING' && (
+            {uiState.view === 'PLAYING' && !touchZones() && (
                 <div style={{
                     position: 'absolute', bottom: '30px', width: '100%', textAlign: 'center',
                     color: 'rgba(255,255,255,0.2)', fontSize: '12px', pointerEvents: 'none'
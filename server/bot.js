@@ -0,0 +1,108 @@
+// --- Headless Racer ---
+// A bot that joins a relay room and flies the real simulation with a simple
+// autopilot, for trying races out without a browser per racer:
+//
+//   npm run bot -- [room] [name] [--url ws://localhost:8787] [--start <players>]
+//
+// With --start it hosts: once the room holds that many players it starts a
+// NORMAL race on a random seed. The game's TypeScript is loaded through Vite,
+// which is already a dev dependency.
+
+import process from 'node:process';
+import { createServer } from 'vite';
+import { connect } from './ws.js';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+    const i = args.indexOf(name);
+    if (i < 0) return fallback;
+    const [, value] = args.splice(i, 2);
+    return value;
+};
+const url = option('--url', 'ws://localhost:8787');
+const startAt = Number(option('--start', 0));
+const [room = 'LOCAL', name = 'BOT'] = args;
+
+const FRAME_MS = 1000 / 60;
+
+const vite = await createServer({
+    root: new URL('..', import.meta.url).pathname,
+    server: { middlewareMode: true, hmr: false, ws: false },
+    appType: 'custom',
+    logLevel: 'warn',
+    optimizeDeps: { noDiscovery: true, include: [] }
+});
+const load = path => vite.ssrLoadModule(path);
+const { startRun, step } = await load('/game/simulation.ts');
+const { PRESETS, DEFAULT_PRESET, cloneConfig } = await load('/game/config.ts');
+const { parseReplayConfig } = await load('/game/replay.ts');
+const { createRaceOutbox, recordRaceInput, takePacket } = await load('/game/race.ts');
+const { randomSeed } = await load('/game/rng.ts');
+const { WORLD_WIDTH, WORLD_HEIGHT } = await load('/game/constants.ts');
+
+const relay = await connect(url);
+const send = message => relay.send(JSON.stringify(message));
+let you = null;
+let racing = false;
+
+// Holds the middle of the sky, with a little wander so bots don't fly as one
+const autopilot = (s, wander) => {
+    const target = s.worldHeight * (0.5 + 0.2 * Math.sin(s.frameCount / 90 + wander));
+    return { thrust: s.py + s.pvy * 6 > target, power: 1, fire: false };
+};
+
+const race = (seed, config, startsIn) => {
+    racing = true;
+    const s = startRun(config.worldWidth, config.worldHeight, seed, config.game);
+    const outbox = createRaceOutbox(seed, config);
+    const wander = Math.random() * Math.PI * 2;
+    console.log(`${name}: racing seed ${seed}`);
+    setTimeout(() => {
+        const started = performance.now();
+        const timer = setInterval(() => {
+            // Keeps to the clock like the game does, however late the timer runs
+            while (s.isPlaying && s.frameCount < (performance.now() - started) / FRAME_MS) {
+                const input = autopilot(s, wander);
+                recordRaceInput(outbox, s.frameCount, input);
+                step(s, input);
+                const packet = takePacket(outbox, s.frameCount, !s.isPlaying);
+                if (packet) send({ type: 'INPUT', distance: Math.floor(s.distance), ...packet });
+            }
+            if (s.isPlaying) return;
+            clearInterval(timer);
+            racing = false;
+            console.log(`${name}: crashed into ${s.stats.cause} at ${Math.floor(s.distance / 100)}m`);
+            send({ type: 'FINISH', frame: s.frameCount, distance: Math.floor(s.distance), score: Math.floor(s.score) });
+        }, FRAME_MS);
+    }, startsIn);
+};
+
+relay.on('message', text => {
+    const msg = JSON.parse(text);
+    if (msg.type === 'ROOM') {
+        you = msg.you;
+        console.log(`${name}: room ${msg.room} has ${msg.players.map(p => p.name).join(', ')}`);
+        if (startAt && msg.host === you && !msg.racing && !racing && msg.players.length >= startAt) {
+            const game = cloneConfig(PRESETS[DEFAULT_PRESET]);
+            game.combat = false;
+            send({ type: 'START', seed: randomSeed(), config: { worldWidth: WORLD_WIDTH, worldHeight: WORLD_HEIGHT, preset: DEFAULT_PRESET, game } });
+        }
+    } else if (msg.type === 'RACE') {
+        const config = parseReplayConfig(msg.config);
+        if (config && msg.racers.some(r => r.id === you)) race(msg.seed, config, msg.startsIn);
+    } else if (msg.type === 'STANDINGS' && msg.final) {
+        console.log(`${name}: results`);
+        msg.standings.forEach(r => console.log(`  ${r.place}. ${r.name} ${Math.floor(r.distance / 100)}m ${r.score}${r.left ? ' (left)' : ''}`));
+        // A one-shot host leaves once its race is over
+        if (startAt) relay.close();
+    } else if (msg.type === 'ERROR') {
+        console.log(`${name}: relay says ${msg.message}`);
+    }
+});
+
+relay.on('close', () => {
+    console.log(`${name}: disconnected`);
+    vite.close().then(() => process.exit(0));
+});
+
+send({ type: 'JOIN', room, name });
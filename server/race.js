@@ -0,0 +1,63 @@
+// --- Race Rules ---
+// The relay's judgement on a race, kept apart from the sockets so it can be
+// tested: which input packets are fit to pass on, and the finishing order.
+
+const FRAME_MS = 1000 / 60;
+const FRAME_SLACK = 60; // Frames a racer's clock may run ahead of the relay's before their packets are dropped
+const TOP_SPEED = 30; // Fastest starting speed a course may set (SETTING_LIMITS in game/replay.ts)
+
+export const isFiniteNumber = v => typeof v === 'number' && Number.isFinite(v);
+
+// Px a frame the race's course flies at; the course never speeds up, so no
+// racer can be further along than this times the frames they have flown
+export const courseSpeed = config => {
+    const speed = config?.game?.initialSpeed;
+    return isFiniteNumber(speed) && speed > 0 && speed < TOP_SPEED ? speed : TOP_SPEED;
+};
+
+// A distance a racer reports, held to what `frame` frames could cover; null if it isn't one
+export const reachableDistance = (race, frame, distance) =>
+    isFiniteNumber(distance) ? Math.min(Math.max(distance, 0), frame * race.speed) : null;
+
+// A clean copy of one input change, checked as the game checks replays; null if it can't be played
+export const cleanInput = data => {
+    if (!data || typeof data !== 'object' || !isFiniteNumber(data.frame) || typeof data.thrust !== 'boolean') return null;
+    if (typeof data.fire !== 'boolean') return null;
+    if (data.power !== undefined && !(isFiniteNumber(data.power) && data.power >= 0 && data.power <= 1)) return null;
+    return { frame: data.frame, thrust: data.thrust, power: data.power ?? 1, fire: data.fire };
+};
+
+// The inputs of a packet that follows on from the racer's last one, or null:
+// frames only move forward, no faster than the race clock, and at most one
+// input change lands on each of them
+export const cleanPacket = (race, racer, frame, inputs, now = Date.now()) => {
+    const elapsed = (now - race.startsAt) / FRAME_MS;
+    if (!Number.isInteger(frame) || frame < racer.frame || frame > elapsed + FRAME_SLACK) return null;
+    if (!Array.isArray(inputs) || inputs.length > frame - racer.frame + 1) return null;
+    const cleaned = [];
+    let from = racer.frame;
+    for (const data of inputs) {
+        const input = cleanInput(data);
+        if (!input || input.frame < from || input.frame > frame) return null;
+        cleaned.push(input);
+        from = input.frame;
+    }
+    return cleaned;
+};
+
+// Furthest first, then highest score; racers level on both share a place.
+// Places are only declared once everyone has finished.
+export const getStandings = racers => {
+    const final = racers.every(r => r.finished);
+    const sorted = [...racers].sort((a, b) => b.distance - a.distance || b.score - a.score);
+    let place = 0;
+    const standings = sorted.map((r, i) => {
+        const ahead = sorted[i - 1];
+        if (!ahead || ahead.distance !== r.distance || ahead.score !== r.score) place = i + 1;
+        return {
+            id: r.id, name: r.name, place: final ? place : null, distance: r.distance, score: r.score,
+            finished: r.finished, left: r.left
+        };
+    });
+    return { final, standings };
+};
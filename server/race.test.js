@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cleanPacket, courseSpeed, getStandings, reachableDistance } from './race.js';
+
+const racer = (id, distance, score, finished = true, left = false) => ({ id, name: `P${id}`, frame: 0, distance, score, finished, left });
+
+test('standings rank the furthest first, then the highest score', () => {
+    const { final, standings } = getStandings([racer(1, 500, 10), racer(2, 900, 5), racer(3, 500, 40)]);
+    assert.equal(final, true);
+    assert.deepEqual(standings.map(s => [s.id, s.place]), [[2, 1], [3, 2], [1, 3]]);
+});
+
+test('racers level on distance and score share a place', () => {
+    const { standings } = getStandings([racer(1, 300, 7), racer(2, 800, 1), racer(3, 300, 7), racer(4, 100, 0)]);
+    assert.deepEqual(standings.map(s => [s.id, s.place]), [[2, 1], [1, 2], [3, 2], [4, 4]]);
+});
+
+test('places wait until everyone has finished', () => {
+    const { final, standings } = getStandings([racer(1, 300, 7), racer(2, 100, 1, false)]);
+    assert.equal(final, false);
+    assert.deepEqual(standings.map(s => s.place), [null, null]);
+});
+
+test('a racer who left is ranked on how far they had got', () => {
+    const { standings } = getStandings([racer(1, 300, 7), racer(2, 900, 50, true, true)]);
+    assert.deepEqual(standings[0], { id: 2, name: 'P2', place: 1, distance: 900, score: 50, finished: true, left: true });
+});
+
+test('reported distances are held to what the frames flown could cover', () => {
+    const course = { speed: courseSpeed({ game: { initialSpeed: 6 } }) };
+    assert.equal(reachableDistance(course, 100, 450), 450);
+    assert.equal(reachableDistance(course, 100, 1e9), 600);
+    assert.equal(reachableDistance(course, 100, -20), 0);
+    assert.equal(reachableDistance(course, 100, '450'), null);
+    assert.equal(reachableDistance(course, 100, NaN), null);
+
+    // A course the relay can't read is held to the fastest any course may fly
+    assert.equal(courseSpeed({}), 30);
+    assert.equal(courseSpeed({ game: { initialSpeed: 1e6 } }), 30);
+    assert.equal(courseSpeed(null), 30);
+});
+
+// --- Packets ---
+
+const FRAME_MS = 1000 / 60;
+const race = { startsAt: 0 };
+const at = frame => frame * FRAME_MS; // Relay clock once `frame` frames have been flown
+
+test('packets that follow on are passed on clean', () => {
+    const inputs = [{ frame: 2, thrust: true, power: 0.5, fire: false, extra: 'dropped' }, { frame: 4, thrust: false, fire: true }];
+    assert.deepEqual(cleanPacket(race, racer(1, 0, 0), 6, inputs, at(6)), [
+        { frame: 2, thrust: true, power: 0.5, fire: false },
+        { frame: 4, thrust: false, power: 1, fire: true }
+    ]);
+    assert.deepEqual(cleanPacket(race, { ...racer(1, 0, 0), frame: 6 }, 12, [], at(12)), []);
+});
+
+test('packets that would stall or break the other racers are dropped', () => {
+    const r = { ...racer(1, 0, 0), frame: 60 };
+    const packet = (frame, inputs = []) => cleanPacket(race, r, frame, inputs, at(120));
+    assert.equal(packet(1e9), null);       // Far ahead of the race clock
+    assert.equal(packet(30), null);        // Backwards
+    assert.equal(packet(66.5), null);      // Not a frame
+    assert.equal(packet('66'), null);
+    assert.equal(packet(66, 'inputs'), null);
+    assert.equal(packet(66, [null]), null);
+    assert.equal(packet(66, [{ frame: 62, thrust: 'yes', fire: false }]), null);
+    assert.equal(packet(66, [{ frame: 62, thrust: true }]), null);
+    assert.equal(packet(66, [{ frame: 62, thrust: true, power: 2 }]), null);
+    assert.equal(packet(66, [{ frame: 50, thrust: true }]), null);  // Before the last packet
+    assert.equal(packet(66, [{ frame: 70, thrust: true }]), null);  // After this one
+    assert.equal(packet(66, [{ frame: 64, thrust: true }, { frame: 62, thrust: false }]), null); // Out of order
+    assert.equal(packet(61, Array.from({ length: 5 }, () => ({ frame: 60, thrust: true }))), null); // More changes than frames
+});
@@ -0,0 +1,175 @@
+// --- Race Relay ---
+// A small WebSocket server for networked races: `npm run relay`, then open the
+// game's NETWORK RACE screen in as many windows or machines as there are
+// racers (PORT sets the port, 8787 by default). The relay never runs the
+// game. It keeps rooms, hands a race's seed and course to everyone in it,
+// passes each racer's input packets to the rest and declares the finishing
+// order from the distances they report, held to what their frames allow.
+// Clients rank the results again from their own copies of each run.
+//
+// Messages are JSON text, one per frame (types in utils/relay.ts):
+//   client -> relay  JOIN { room, name }          Joins (or opens) a room; the first player in hosts it
+//                    START { seed, config }       Host only: everyone in the room races this course
+//                    INPUT { frame, distance, inputs }  Input changes since the last packet
+//                    FINISH { frame, distance, score }  Crashed
+//   relay -> client  ROOM { room, you, host, racing, players }
+//                    RACE { seed, config, racers, startsIn }
+//                    INPUT { from, frame, inputs }
+//                    STANDINGS { final, standings }     After every finish; final once everyone is done
+//                    ERROR { message }
+
+import http from 'node:http';
+import process from 'node:process';
+import { cleanPacket, courseSpeed, getStandings, isFiniteNumber, reachableDistance } from './race.js';
+import { acceptUpgrade } from './ws.js';
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_PLAYERS = 8;
+const NAME_LENGTH = 12;
+const COUNTDOWN_MS = 3000; // Between the host starting and the first frame, so everyone starts together
+
+const rooms = new Map(); // Code -> { code, players: Map<id, player>, host, race }
+let nextId = 1;
+
+const log = (...args) => console.log(new Date().toISOString().slice(11, 19), ...args);
+
+const cleanName = name => String(name ?? '').toUpperCase().replace(/[^A-Z0-9 ]/g, '').trim().slice(0, NAME_LENGTH);
+
+// --- Rooms ---
+
+const send = (player, message) => player.connection.send(JSON.stringify(message));
+
+const broadcast = (room, message, except = null) => {
+    const text = JSON.stringify(message);
+    room.players.forEach(p => { if (p !== except) p.connection.send(text); });
+};
+
+const sendRoom = room => {
+    const players = [...room.players.values()].map(p => ({ id: p.id, name: p.name, racing: !!room.race?.racers.has(p.id) }));
+    room.players.forEach(p => send(p, { type: 'ROOM', room: room.code, you: p.id, host: room.host, racing: !!room.race, players }));
+};
+
+const sendStandings = room => {
+    const { final, standings } = getStandings([...room.race.racers.values()]);
+    broadcast(room, { type: 'STANDINGS', final, standings });
+    if (final) {
+        log(`room ${room.code}: race over, ${standings.map(s => `${s.place}. ${s.name} ${Math.floor(s.distance / 100)}m`).join(', ')}`);
+        room.race = null;
+        sendRoom(room);
+    }
+};
+
+const finish = (room, racer, distance, score, left = false) => {
+    if (racer.finished) return;
+    racer.finished = true;
+    racer.left = left;
+    if (isFiniteNumber(distance)) racer.distance = distance;
+    if (isFiniteNumber(score)) racer.score = score;
+    sendStandings(room);
+};
+
+const leave = player => {
+    const room = player.room;
+    if (!room) return;
+    player.room = null;
+    room.players.delete(player.id);
+    log(`room ${room.code}: ${player.name} left`);
+    if (room.players.size === 0) {
+        rooms.delete(room.code);
+        return;
+    }
+    if (room.host === player.id) room.host = room.players.keys().next().value;
+    const racer = room.race?.racers.get(player.id);
+    // Ranked on how far they had got
+    if (racer && !racer.finished) finish(room, racer, racer.distance, racer.score, true);
+    sendRoom(room);
+};
+
+// --- Messages ---
+
+const handlers = {
+    JOIN(player, msg) {
+        const code = String(msg.room ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, NAME_LENGTH);
+        const name = cleanName(msg.name) || `PLAYER ${player.id}`;
+        if (!code) return send(player, { type: 'ERROR', message: 'Enter a room code' });
+        leave(player);
+        let room = rooms.get(code);
+        if (room && room.players.size >= MAX_PLAYERS) return send(player, { type: 'ERROR', message: `Room ${code} is full` });
+        if (!room) {
+            room = { code, players: new Map(), host: player.id, race: null };
+            rooms.set(code, room);
+        }
+        player.name = name;
+        player.room = room;
+        room.players.set(player.id, player);
+        log(`room ${code}: ${name} joined (${room.players.size} in room)`);
+        sendRoom(room);
+    },
+
+    START(player, msg) {
+        const room = player.room;
+        if (!room || room.host !== player.id) return send(player, { type: 'ERROR', message: 'Only the host can start the race' });
+        if (room.race) return send(player, { type: 'ERROR', message: 'A race is already running' });
+        if (!isFiniteNumber(msg.seed) || !msg.config || typeof msg.config !== 'object') {
+            return send(player, { type: 'ERROR', message: 'Race settings are missing' });
+        }
+        const racers = new Map();
+        room.players.forEach(p => racers.set(p.id, {
+            id: p.id, name: p.name, frame: 0, distance: 0, score: 0, finished: false, left: false
+        }));
+        room.race = { racers, startsAt: Date.now() + COUNTDOWN_MS, speed: courseSpeed(msg.config) };
+        log(`room ${room.code}: race on seed ${msg.seed >>> 0} with ${racers.size} racer(s)`);
+        broadcast(room, {
+            type: 'RACE', seed: msg.seed >>> 0, config: msg.config,
+            racers: [...racers.values()].map(r => ({ id: r.id, name: r.name })), startsIn: COUNTDOWN_MS
+        });
+        sendRoom(room);
+    },
+
+    INPUT(player, msg) {
+        const room = player.room;
+        const racer = room?.race?.racers.get(player.id);
+        if (!racer || racer.finished) return;
+        // Dropped whole: one the others can't fly would stall or break their copy of this racer
+        const inputs = cleanPacket(room.race, racer, msg.frame, msg.inputs);
+        if (!inputs) return;
+        racer.frame = msg.frame;
+        const distance = reachableDistance(room.race, msg.frame, msg.distance);
+        if (distance !== null) racer.distance = distance;
+        broadcast(room, { type: 'INPUT', from: player.id, frame: msg.frame, inputs }, player);
+    },
+
+    FINISH(player, msg) {
+        const room = player.room;
+        const racer = room?.race?.racers.get(player.id);
+        // The crash went out in their last packet, so that is as far as they got
+        if (racer) finish(room, racer, reachableDistance(room.race, racer.frame, msg.distance), msg.score);
+    }
+};
+
+// --- Server ---
+
+const server = http.createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end(`Sky Rider race relay: ${rooms.size} room(s) open\n`);
+});
+
+server.on('upgrade', (req, socket, head) => {
+    const connection = acceptUpgrade(req, socket, head);
+    if (!connection) return;
+    const player = { id: nextId++, name: '', room: null, connection };
+    connection.on('message', text => {
+        let msg;
+        try {
+            msg = JSON.parse(text);
+        } catch {
+            return send(player, { type: 'ERROR', message: 'Messages must be JSON' });
+        }
+        const handler = msg && Object.hasOwn(handlers, msg.type) ? handlers[msg.type] : null;
+        if (handler) handler(player, msg);
+        else send(player, { type: 'ERROR', message: `Unknown message ${msg?.type}` });
+    });
+    connection.on('close', () => leave(player));
+});
+
+server.listen(PORT, () => log(`race relay listening on ws://localhost:${PORT}`));
@@ -0,0 +1,200 @@
+// --- Minimal WebSocket ---
+// Just enough of RFC 6455 for the race relay and its headless clients: text
+// messages, ping/pong and close, on Node's own http module so the relay runs
+// with nothing but Node installed.
+
+import { Buffer } from 'node:buffer';
+import { createHash, randomBytes } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import http from 'node:http';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 1 << 20;
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+const acceptKey = key => createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+
+// Clients mask what they send; servers must not
+const encodeFrame = (opcode, payload, masked) => {
+    const length = payload.length;
+    const header = length < 126 ? 2 : length < 65536 ? 4 : 10;
+    const maskBytes = masked ? 4 : 0;
+    const frame = Buffer.alloc(header + maskBytes + length);
+    frame[0] = 0x80 | opcode; // Always a whole message
+    if (length < 126) {
+        frame[1] = length;
+    } else if (length < 65536) {
+        frame[1] = 126;
+        frame.writeUInt16BE(length, 2);
+    } else {
+        frame[1] = 127;
+        frame.writeBigUInt64BE(BigInt(length), 2);
+    }
+    if (masked) {
+        frame[1] |= 0x80;
+        const mask = randomBytes(4);
+        mask.copy(frame, header);
+        for (let i = 0; i < length; i++) frame[header + 4 + i] = payload[i] ^ mask[i & 3];
+    } else {
+        payload.copy(frame, header);
+    }
+    return frame;
+};
+
+/**
+ * One open connection. Emits 'message' with each text message and 'close'
+ * once when the connection ends, however it ends.
+ */
+export class WebSocketConnection extends EventEmitter {
+    constructor(socket, masked) {
+        super();
+        this.socket = socket;
+        this.masked = masked; // Client side: what it sends is masked, and what it receives must not be
+        this.open = true;
+        this.buffer = Buffer.alloc(0);
+        this.fragments = null; // Payloads of a message still arriving in pieces
+        this.fragmentBytes = 0;
+        socket.setNoDelay(true);
+        socket.on('data', data => this.receive(data));
+        socket.on('close', () => this.closed());
+        socket.on('error', () => socket.destroy());
+    }
+
+    send(text) {
+        if (this.open) this.socket.write(encodeFrame(OP_TEXT, Buffer.from(text, 'utf8'), this.masked));
+    }
+
+    close(code = 1000) {
+        if (!this.open) return;
+        this.socket.end(encodeFrame(OP_CLOSE, Buffer.from([code >> 8, code & 0xff]), this.masked));
+        this.closed();
+    }
+
+    closed() {
+        if (!this.open) return;
+        this.open = false;
+        this.emit('close');
+    }
+
+    receive(data) {
+        this.buffer = this.buffer.length ? Buffer.concat([this.buffer, data]) : data;
+        while (this.open && this.buffer.length >= 2) {
+            const buf = this.buffer;
+            const fin = (buf[0] & 0x80) !== 0;
+            const opcode = buf[0] & 0x0f;
+            const masked = (buf[1] & 0x80) !== 0;
+            // Frames from a client must be masked and frames from a server must not (RFC 6455 5.1)
+            if (masked === this.masked) {
+                this.close(1002);
+                return;
+            }
+            let length = buf[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (buf.length < 4) return;
+                length = buf.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buf.length < 10) return;
+                const big = buf.readBigUInt64BE(2);
+                length = big > BigInt(MAX_MESSAGE_BYTES) ? Infinity : Number(big);
+                offset = 10;
+            }
+            if (length > MAX_MESSAGE_BYTES) {
+                this.close(1009); // Too big
+                return;
+            }
+            const maskAt = offset;
+            if (masked) offset += 4;
+            if (buf.length < offset + length) return;
+
+            const payload = Buffer.from(buf.subarray(offset, offset + length));
+            if (masked) {
+                for (let i = 0; i < length; i++) payload[i] ^= buf[maskAt + (i & 3)];
+            }
+            this.buffer = buf.subarray(offset + length);
+            this.frame(fin, opcode, payload);
+        }
+    }
+
+    frame(fin, opcode, payload) {
+        if (opcode === OP_CLOSE) {
+            this.close();
+        } else if (opcode === OP_PING) {
+            this.socket.write(encodeFrame(OP_PONG, payload, this.masked));
+        } else if (opcode === OP_TEXT || opcode === OP_CONTINUATION) {
+            // A continuation needs a message to continue, and a new message needs the last one finished
+            if ((opcode === OP_CONTINUATION) !== (this.fragments !== null)) {
+                this.close(1002);
+                return;
+            }
+            this.fragments ??= [];
+            this.fragments.push(payload);
+            this.fragmentBytes += payload.length;
+            if (this.fragmentBytes > MAX_MESSAGE_BYTES) {
+                this.close(1009);
+                return;
+            }
+            if (!fin) return;
+            const text = Buffer.concat(this.fragments).toString('utf8');
+            this.fragments = null;
+            this.fragmentBytes = 0;
+            this.emit('message', text);
+        } else if (opcode !== OP_PONG) {
+            this.close(1003); // Binary messages aren't part of the protocol
+        }
+    }
+}
+
+// Completes a server-side handshake from an http 'upgrade' event; null if it wasn't a WebSocket request
+export const acceptUpgrade = (req, socket, head) => {
+    const key = req.headers['sec-websocket-key'];
+    if (!key || (req.headers.upgrade ?? '').toLowerCase() !== 'websocket') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return null;
+    }
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${acceptKey(key)}`,
+        '', ''
+    ].join('\r\n'));
+    const connection = new WebSocketConnection(socket, false);
+    if (head.length) connection.receive(head);
+    return connection;
+};
+
+// Opens a client connection to a ws:// URL
+export const connect = url => new Promise((resolve, reject) => {
+    const key = randomBytes(16).toString('base64');
+    const req = http.request(url.replace(/^ws/, 'http'), {
+        headers: {
+            Connection: 'Upgrade',
+            Upgrade: 'websocket',
+            'Sec-WebSocket-Key': key,
+            'Sec-WebSocket-Version': '13'
+        }
+    });
+    req.on('upgrade', (res, socket, head) => {
+        if (res.headers['sec-websocket-accept'] !== acceptKey(key)) {
+            socket.destroy();
+            reject(new Error('Relay handshake failed'));
+            return;
+        }
+        const connection = new WebSocketConnection(socket, true);
+        if (head.length) connection.receive(head);
+        resolve(connection);
+    });
+    req.on('response', res => {
+        res.resume();
+        reject(new Error(`Relay answered ${res.statusCode} instead of upgrading`));
+    });
+    req.on('error', reject);
+    req.end();
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WORLD_WIDTH, WORLD_HEIGHT } from '../game/constants';
+import { PRESETS } from '../game/config';
+import { getShips, startRun, step } from '../game/simulation';
+import type { SimEvent, SimState } from '../game/types';
+import { AudioController, MAX_VOICES, type SoundEvent } from './audio';
+import { FakeAudioContext, fakeContext } from './fakeAudio';
+
+const FRAME_SECONDS = 1 / 60;
+
+const createAudio = () => {
+    const ctx = new FakeAudioContext();
+    const audio = new AudioController({ context: fakeContext(ctx), log: true });
+    audio.init();
+    return { ctx, audio };
+};
+
+const sounds = (log: SoundEvent[]) => log.flatMap(e => e.type === 'SOUND' ? [e] : []);
+
+// Holds the middle of the sky with a slow weave, as the game loop would fly it
+const autopilot = (s: SimState) => {
+    const target = s.worldHeight * (0.5 + 0.25 * Math.sin(s.frameCount / 80));
+    return { thrust: s.py + s.pvy * 6 > target, power: 1, fire: false };
+};
+
+test('a run is heard as it flew', () => {
+    const { ctx, audio } = createAudio();
+    audio.startEngine();
+    audio.startMusic();
+
+    const s = startRun(WORLD_WIDTH, WORLD_HEIGHT, 7, PRESETS.NORMAL);
+    const steps: { frame: number; events: SimEvent[]; thrusting: boolean }[] = [];
+    while (s.isPlaying && s.frameCount < 20000) {
+        const events = step(s, autopilot(s));
+        ctx.currentTime = s.frameCount * FRAME_SECONDS;
+        audio.frame = s.frameCount;
+        const thrusting = getShips(s).some(ship => ship.alive && ship.isThrusting);
+        audio.modulateEngine(thrusting);
+        audio.playEvents(events);
+        steps.push({ frame: s.frameCount, events, thrusting });
+    }
+    audio.stopEngine();
+    const log = audio.takeLog();
+
+    assert.equal(s.isPlaying, false);
+    assert.deepEqual(log[0], { type: 'MUSIC', playing: true, frame: 0, time: 0 });
+    for (const e of log) assert.equal(e.time, e.frame * FRAME_SECONDS);
+
+    // The engine follows every change of thrust, with a whoosh as it kicks in
+    const changes = steps.filter((st, i) => st.thrusting !== (i > 0 && steps[i - 1].thrusting));
+    assert.ok(changes.length > 2);
+    assert.deepEqual(
+        log.filter(e => e.type === 'ENGINE').map(e => [e.frame, e.type === 'ENGINE' && e.thrusting]),
+        changes.map(st => [st.frame, st.thrusting])
+    );
+    assert.deepEqual(
+        sounds(log).filter(e => e.sound === 'JUMP').map(e => e.frame),
+        changes.filter(st => st.thrusting).map(st => st.frame)
+    );
+
+    // A coin for every pickup, then the crash and the stinger on the last frame
+    const expected = steps.flatMap(({ frame, events }) => events.flatMap(ev =>
+        ev.type === 'PICKUP' ? [[frame, 'COIN']] : ev.type === 'CRASH' ? [[frame, 'CRASH'], [frame, 'STINGER']] : []
+    ));
+    assert.ok(expected.length > 2);
+    assert.deepEqual(
+        sounds(log).filter(e => ['COIN', 'CRASH', 'STINGER'].includes(e.sound)).map(e => [e.frame, e.sound]),
+        expected
+    );
+    assert.equal(expected[expected.length - 1][0], s.frameCount);
+    assert.ok(sounds(log).every(e => !e.dropped));
+});
+
+test('a burst of sounds is held to the voice cap', () => {
+    const { ctx, audio } = createAudio();
+    const coins = (n: number): SimEvent[] => Array.from({ length: n }, () => ({ type: 'PICKUP', kind: 'COIN', x: 0, y: 0 }));
+
+    audio.playEvents(coins(MAX_VOICES + 6));
+    let log = sounds(audio.takeLog());
+    assert.equal(log.filter(e => !e.dropped).length, MAX_VOICES);
+    assert.equal(log.filter(e => e.dropped).length, 6);
+    assert.equal(ctx.sounding().length, MAX_VOICES);
+
+    // The crash and its stinger get through however busy things are
+    audio.playEvents([{ type: 'CRASH', cause: 'ROCK' }]);
+    assert.deepEqual(sounds(audio.takeLog()).map(e => [e.sound, e.dropped]), [['CRASH', false], ['STINGER', false]]);
+
+    // Voices free up as their sounds end
+    ctx.advance(2);
+    audio.playEvents(coins(3));
+    log = sounds(audio.takeLog());
+    assert.deepEqual(log.map(e => e.dropped), [false, false, false]);
+    assert.equal(ctx.sounding().length, 3);
+});
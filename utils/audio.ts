@@ -0,0 +1,326 @@
+import type { SimEvent } from '../game/types';
+import type { AudioBus, AudioMix } from './save';
+import { MusicSequencer, createNoiseBuffer } from './music';
+
+// --- Audio Engine (Synth) ---
+// Everything the game hears is synthesised on one Web Audio graph. The context
+// can be injected, so an OfflineAudioContext or a stand-in can drive it away
+// from the browser, and every sound asked for can be written to a log.
+
+const MASTER_VOLUME = 0.4; // Master bus at full volume
+// Effect voices (oscillators and noise bursts) sounding at once; a magnet
+// sweeping up a row of coins would otherwise start dozens together
+export const MAX_VOICES = 24;
+
+type MixBus = Exclude<AudioBus, 'master'>;
+const MIX_BUSES: MixBus[] = ['music', 'sfx', 'engine'];
+
+export type SoundName =
+    | 'COIN' | 'POWERUP' | 'CRASH' | 'SHIELD_POP' | 'EXPLOSION'
+    | 'SHOT' | 'HIT' | 'OVERHEAT' | 'JUMP' | 'STINGER';
+
+// Never dropped for the voice cap
+const ESSENTIAL_SOUNDS: SoundName[] = ['CRASH', 'STINGER'];
+
+type SoundCue =
+    | { type: 'SOUND'; sound: SoundName; dropped: boolean } // Dropped: over the voice cap
+    | { type: 'ENGINE'; thrusting: boolean }                // Engine note changed
+    | { type: 'MUSIC'; playing: boolean };
+// `frame` is the simulation frame the sound belongs to; `time` is the audio
+// clock, in seconds (0 before there is a context)
+export type SoundEvent = SoundCue & { frame: number; time: number };
+
+export interface AudioOptions {
+    // Called on init(); a live AudioContext by default
+    context?: () => BaseAudioContext;
+    // Keep a SoundEvent log
+    log?: boolean;
+}
+
+const createLiveContext = (): BaseAudioContext => {
+    const AudioContext = window.AudioContext || (window as unknown as { webkitAudioContext: typeof window.AudioContext }).webkitAudioContext;
+    return new AudioContext();
+};
+
+export class AudioController {
+    ctx: BaseAudioContext | null = null;
+    masterGain: GainNode | null = null;
+    // Music, sound effects and the engine drone each mix through their own bus into the master
+    buses: Partial<Record<MixBus, GainNode>> = {};
+    engineOsc: OscillatorNode | null = null;
+    engineGain: GainNode | null = null;
+    thrusting = false;
+    music: MusicSequencer | null = null;
+    noise: AudioBuffer | null = null;
+    initialized = false;
+    mix: AudioMix | null = null;
+    log: SoundEvent[] | null;
+    frame = 0; // Set by the game loop before each step's sounds
+
+    private createContext: () => BaseAudioContext;
+    private voiceEnds: number[] = []; // When each sounding effect voice stops
+
+    constructor(options: AudioOptions = {}) {
+        this.createContext = options.context ?? createLiveContext;
+        this.log = options.log ? [] : null;
+    }
+
+    init() {
+        if (this.initialized) return;
+        try {
+            this.ctx = this.createContext();
+            // Limiter on the way out so stacked sounds squash rather than clip
+            const limiter = this.ctx.createDynamicsCompressor();
+            limiter.threshold.value = -3;
+            limiter.knee.value = 0;
+            limiter.ratio.value = 20;
+            limiter.attack.value = 0.003;
+            limiter.release.value = 0.1;
+            limiter.connect(this.ctx.destination);
+            this.masterGain = this.ctx.createGain();
+            this.masterGain.connect(limiter);
+            for (const bus of MIX_BUSES) {
+                const gain = this.ctx.createGain();
+                gain.connect(this.masterGain);
+                this.buses[bus] = gain;
+            }
+            this.music = new MusicSequencer(this.ctx, this.buses.music!);
+            this.noise = createNoiseBuffer(this.ctx);
+            this.applyMix();
+            this.initialized = true;
+        } catch (e) {
+            console.error("Audio init failed", e);
+        }
+    }
+
+    // Offline contexts render on their own schedule; only live ones pause
+    private live(): AudioContext | null {
+        const ctx = this.ctx;
+        if (!ctx || (typeof OfflineAudioContext !== 'undefined' && ctx instanceof OfflineAudioContext)) return null;
+        return typeof (ctx as AudioContext).suspend === 'function' ? ctx as AudioContext : null;
+    }
+
+    resume() {
+        const ctx = this.live();
+        if (ctx && ctx.state === 'suspended') {
+            ctx.resume();
+        }
+    }
+
+    // Freezes everything, including the engine drone, until resume()
+    suspend() {
+        const ctx = this.live();
+        if (ctx && ctx.state === 'running') {
+            ctx.suspend();
+        }
+    }
+
+    setMix(mix: AudioMix) {
+        this.mix = mix;
+        this.applyMix();
+    }
+
+    private applyMix() {
+        const mix = this.mix;
+        if (!mix || !this.masterGain) return;
+        this.masterGain.gain.value = mix.muted.master ? 0 : MASTER_VOLUME * mix.volume.master;
+        for (const bus of MIX_BUSES) {
+            const gain = this.buses[bus];
+            if (gain) gain.gain.value = mix.muted[bus] ? 0 : mix.volume[bus];
+        }
+    }
+
+    // --- Sound Log ---
+
+    private record(cue: SoundCue) {
+        this.log?.push({ ...cue, frame: this.frame, time: this.ctx ? this.ctx.currentTime : 0 });
+    }
+
+    // The log so far, which starts over
+    takeLog(): SoundEvent[] {
+        const log = this.log ?? [];
+        if (this.log) this.log = [];
+        return log;
+    }
+
+    // --- Engine ---
+
+    startEngine() {
+        if (!this.ctx || !this.buses.engine) return;
+        if (this.engineOsc) return; // Already running
+
+        this.engineOsc = this.ctx.createOscillator();
+        this.engineGain = this.ctx.createGain();
+
+        this.engineOsc.type = 'sawtooth';
+        this.engineOsc.frequency.value = 50; // Low drone
+
+        this.engineGain.gain.value = 0.05;
+
+        this.engineOsc.connect(this.engineGain);
+        this.engineGain.connect(this.buses.engine);
+        this.engineOsc.start();
+    }
+
+    // Called every step; only a change of thrust does anything
+    modulateEngine(isThrusting: boolean) {
+        if (isThrusting === this.thrusting) return;
+        this.thrusting = isThrusting;
+        this.record({ type: 'ENGINE', thrusting: isThrusting });
+        if (isThrusting) this.playJump();
+        if (!this.ctx || !this.engineOsc || !this.engineGain) return;
+        const now = this.ctx.currentTime;
+        if (isThrusting) {
+            this.engineOsc.frequency.setTargetAtTime(80, now, 0.2);
+            this.engineGain.gain.setTargetAtTime(0.1, now, 0.1);
+        } else {
+            this.engineOsc.frequency.setTargetAtTime(50, now, 0.5);
+            this.engineGain.gain.setTargetAtTime(0.05, now, 0.5);
+        }
+    }
+
+    stopEngine() {
+        if (this.engineOsc) {
+            try { this.engineOsc.stop(); } catch { /* Already stopped */ }
+            this.engineOsc = null;
+        }
+        this.thrusting = false;
+    }
+
+    // --- Music ---
+
+    // From the top, even if a run was cut short mid-bar
+    startMusic() {
+        this.record({ type: 'MUSIC', playing: true });
+        this.music?.stop();
+        this.music?.start();
+    }
+
+    stopMusic() {
+        this.record({ type: 'MUSIC', playing: false });
+        this.music?.stop();
+    }
+
+    // `intensity` 0..1 sets the tempo and how many layers play
+    updateMusic(intensity: number, slowMo: boolean) {
+        this.music?.setIntensity(intensity);
+        this.music?.setSlowMo(slowMo);
+    }
+
+    // Ends the music on a crash
+    playStinger() {
+        this.play('STINGER', 0, () => this.music?.stinger());
+    }
+
+    // --- Effects ---
+
+    // Logs the sound and plays it, unless it needs more voices than are free
+    private play(sound: SoundName, voices: number, render: () => void) {
+        let dropped = false;
+        if (this.ctx && !ESSENTIAL_SOUNDS.includes(sound)) {
+            const now = this.ctx.currentTime;
+            this.voiceEnds = this.voiceEnds.filter(end => end > now);
+            dropped = this.voiceEnds.length + voices > MAX_VOICES;
+        }
+        this.record({ type: 'SOUND', sound, dropped });
+        if (!dropped) render();
+    }
+
+    // `delay` is seconds from now
+    playTone(freq: number, type: OscillatorType, duration: number, vol = 1, slideTo?: number, delay = 0) {
+        if (!this.ctx || !this.buses.sfx) return;
+        const start = this.ctx.currentTime + delay;
+        const osc = this.ctx.createOscillator();
+        const gain = this.ctx.createGain();
+        osc.type = type;
+        osc.frequency.setValueAtTime(freq, start);
+        if (slideTo) {
+            osc.frequency.exponentialRampToValueAtTime(slideTo, start + duration);
+        }
+
+        gain.connect(this.buses.sfx);
+        osc.connect(gain);
+
+        // A few ms of fade-in so notes don't start with a click
+        gain.gain.setValueAtTime(0, start);
+        gain.gain.linearRampToValueAtTime(vol, start + 0.005);
+        gain.gain.exponentialRampToValueAtTime(0.01, start + duration);
+
+        osc.start(start);
+        osc.stop(start + duration);
+        this.voiceEnds.push(start + duration);
+    }
+
+    // Filtered noise burst; `sweepTo` glides the filter over its length
+    playNoise(duration: number, vol: number, filter: BiquadFilterType, freq: number, sweepTo?: number, bus: MixBus = 'sfx') {
+        const output = this.buses[bus];
+        if (!this.ctx || !this.noise || !output) return;
+        const now = this.ctx.currentTime;
+        const source = this.ctx.createBufferSource();
+        source.buffer = this.noise;
+        const shape = this.ctx.createBiquadFilter();
+        shape.type = filter;
+        shape.frequency.setValueAtTime(freq, now);
+        if (sweepTo) shape.frequency.exponentialRampToValueAtTime(sweepTo, now + duration);
+        const gain = this.ctx.createGain();
+        gain.gain.setValueAtTime(0, now);
+        gain.gain.linearRampToValueAtTime(vol, now + 0.005);
+        gain.gain.exponentialRampToValueAtTime(0.01, now + duration);
+        source.connect(shape);
+        shape.connect(gain);
+        gain.connect(output);
+        source.start();
+        source.stop(now + duration);
+        this.voiceEnds.push(now + duration);
+    }
+
+    // Soft whoosh as thrust kicks in, mixed with the engine
+    playJump() { this.play('JUMP', 1, () => this.playNoise(0.25, 0.12, 'bandpass', 400, 1600, 'engine')); }
+    playCoin() { this.play('COIN', 1, () => this.playTone(1200, 'sine', 0.15, 0.4, 1800)); }
+    // Fatal: a long low rumble. The layers add up to well under full scale
+    playCrash() {
+        this.play('CRASH', 3, () => {
+            this.playTone(100, 'sawtooth', 0.6, 0.35, 25);
+            this.playTone(50, 'square', 0.6, 0.25, 20);
+            this.playNoise(0.8, 0.35, 'lowpass', 1200, 80);
+        });
+    }
+    // Survived: a bright glassy crack, nothing like the crash
+    playShieldPop() {
+        this.play('SHIELD_POP', 2, () => {
+            this.playTone(1600, 'sine', 0.25, 0.3, 500);
+            this.playNoise(0.15, 0.25, 'highpass', 3000);
+        });
+    }
+    // Something else blowing up (shot down, bombed)
+    playExplosion() { this.play('EXPLOSION', 1, () => this.playNoise(0.35, 0.35, 'lowpass', 2000, 200)); }
+    playPowerup() {
+        this.play('POWERUP', 2, () => {
+            this.playTone(400, 'sine', 0.3, 0.5, 800);
+            this.playTone(800, 'sine', 0.3, 0.5, 1200, 0.1);
+        });
+    }
+    playShot() { this.play('SHOT', 1, () => this.playTone(900, 'square', 0.08, 0.15, 300)); }
+    playHit() { this.play('HIT', 1, () => this.playTone(300, 'square', 0.1, 0.3, 150)); }
+    playOverheat() { this.play('OVERHEAT', 1, () => this.playTone(200, 'sawtooth', 0.5, 0.4, 60)); }
+
+    // The sounds a simulation step's events make
+    playEvents(events: SimEvent[]) {
+        for (const ev of events) {
+            if (ev.type === 'PICKUP') this.playCoin();
+            else if (ev.type === 'POWERUP') this.playPowerup();
+            else if (ev.type === 'SHIELD_POP' || ev.type === 'REVIVE') this.playShieldPop();
+            else if (ev.type === 'BOMB' && ev.destroyed > 0) this.playExplosion();
+            else if (ev.type === 'FIRE') this.playShot();
+            else if (ev.type === 'HIT') this.playHit();
+            else if (ev.type === 'KILL') this.playExplosion();
+            else if (ev.type === 'OVERHEAT') this.playOverheat();
+            else if (ev.type === 'BOSS_END') this.playPowerup();
+            else if (ev.type === 'SHIP_DOWN') this.playCrash();
+            else if (ev.type === 'CRASH') {
+                this.playCrash();
+                this.playStinger();
+            }
+        }
+    }
+}
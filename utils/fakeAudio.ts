@@ -0,0 +1,88 @@
+// --- Stand-in Audio Context ---
+// Enough of the Web Audio API for AudioController and the music sequencer to
+// run without a browser: nodes connect but make no sound, the clock only moves
+// when told to, and every source started is kept so tests can count voices.
+
+export interface FakeSource {
+    kind: 'oscillator' | 'buffer';
+    start: number; // Audio clock, seconds
+    stop: number | null;
+}
+
+const createParam = (value = 0) => ({
+    value,
+    setValueAtTime(v: number) { this.value = v; return this; },
+    linearRampToValueAtTime(v: number) { this.value = v; return this; },
+    exponentialRampToValueAtTime(v: number) { this.value = v; return this; },
+    setTargetAtTime(v: number) { this.value = v; return this; }
+});
+
+const createNode = () => ({
+    connect<T>(destination: T) { return destination; },
+    disconnect() {}
+});
+
+export class FakeAudioContext {
+    currentTime = 0;
+    readonly sampleRate = 8000; // Keeps the noise buffers small
+    readonly destination = createNode();
+    readonly sources: FakeSource[] = [];
+
+    advance(seconds: number) {
+        this.currentTime += seconds;
+    }
+
+    // Sources due to be sounding now
+    sounding() {
+        return this.sources.filter(s => s.start <= this.currentTime && (s.stop === null || s.stop > this.currentTime));
+    }
+
+    private createSource(kind: FakeSource['kind']) {
+        const source: FakeSource = { kind, start: 0, stop: null };
+        return {
+            ...createNode(),
+            start: (when = 0) => {
+                source.start = Math.max(when, this.currentTime);
+                this.sources.push(source);
+            },
+            stop: (when = 0) => {
+                source.stop = Math.max(when, this.currentTime);
+            }
+        };
+    }
+
+    createGain() {
+        return { ...createNode(), gain: createParam(1) };
+    }
+
+    createOscillator() {
+        return { ...this.createSource('oscillator'), type: 'sine', frequency: createParam(440) };
+    }
+
+    createBufferSource() {
+        return { ...this.createSource('buffer'), buffer: null };
+    }
+
+    createBiquadFilter() {
+        return { ...createNode(), type: 'lowpass', frequency: createParam(350) };
+    }
+
+    createDynamicsCompressor() {
+        return {
+            ...createNode(),
+            threshold: createParam(-24),
+            knee: createParam(30),
+            ratio: createParam(12),
+            attack: createParam(0.003),
+            release: createParam(0.25)
+        };
+    }
+
+    createBuffer(channels: number, length: number, sampleRate: number) {
+        const data = Array.from({ length: channels }, () => new Float32Array(length));
+        return { numberOfChannels: channels, length, sampleRate, getChannelData: (channel: number) => data[channel] };
+    }
+}
+
+// For AudioOptions.context
+export const fakeContext = (ctx: FakeAudioContext) => () => ctx as unknown as BaseAudioContext;
@@ -0,0 +1,26 @@
+// --- File helpers ---
+// Browser-side save/load for the JSON files players share (replays, exports).
+
+export const downloadText = (filename: string, text: string, type = 'application/json') => {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+};
+
+// Opens the file picker; resolves with the file's text, or null if nothing was chosen.
+export const pickTextFile = (accept = '.json,application/json') => new Promise<string | null>(resolve => {
+    const picker = document.createElement('input');
+    picker.type = 'file';
+    picker.accept = accept;
+    picker.onchange = () => {
+        const file = picker.files?.[0];
+        if (!file) return resolve(null);
+        file.text().then(resolve, () => resolve(null));
+    };
+    picker.click();
+});
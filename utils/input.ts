@@ -0,0 +1,269 @@
+// --- Input ---
+// Keyboard, mouse, touch and gamepads all feed one controller that turns
+// whatever is held into ship controls and reports presses as game actions.
+// Mouse and touch arrive as Pointer Events, tracked pointer by pointer.
+// What each action is bound to is plain data, so players can remap it and
+// the save can keep it.
+
+export type InputAction = 'THRUST' | 'FIRE' | 'PAUSE' | 'RESTART' | 'P2_THRUST';
+
+export type Binding =
+    | { device: 'KEY'; code: string }     // KeyboardEvent.code
+    | { device: 'MOUSE'; button: number } // MouseEvent.button
+    | { device: 'PAD'; button: number };  // Button index in the standard gamepad layout
+
+export type Bindings = Record<InputAction, Binding[]>;
+
+export const INPUT_ACTIONS: InputAction[] = ['THRUST', 'FIRE', 'PAUSE', 'RESTART', 'P2_THRUST'];
+
+export const ACTION_NAMES: Record<InputAction, string> = {
+    THRUST: 'THRUST',
+    FIRE: 'FIRE (COMBAT)',
+    PAUSE: 'PAUSE / RESUME',
+    RESTART: 'RESTART',
+    P2_THRUST: 'PLAYER 2 THRUST (VERSUS)'
+};
+
+const key = (code: string): Binding => ({ device: 'KEY', code });
+const mouse = (button: number): Binding => ({ device: 'MOUSE', button });
+const pad = (button: number): Binding => ({ device: 'PAD', button });
+
+export const DEFAULT_BINDINGS: Bindings = {
+    THRUST: [key('Space'), key('ArrowUp'), mouse(0), pad(0), pad(7)],
+    FIRE: [key('KeyX'), key('KeyF'), mouse(2), pad(2), pad(5)],
+    PAUSE: [key('Escape'), key('KeyP'), pad(9)],
+    RESTART: [key('KeyR'), pad(3)],
+    P2_THRUST: [key('Enter'), key('NumpadEnter')]
+};
+
+// PointerEvent.buttons bit -> MouseEvent.button number
+const MOUSE_BUTTON_BITS: [number, number][] = [[1, 0], [2, 2], [4, 1], [8, 3], [16, 4]];
+
+// Pressure a pad button needs before it counts as held
+const PAD_THRESHOLD = 0.1;
+// Analog thrust is rounded to this many levels so replays only store real changes
+export const POWER_STEPS = 16;
+
+export const sameBinding = (a: Binding, b: Binding) =>
+    a.device === b.device && (a.device === 'KEY' ? a.code === (b as typeof a).code : a.button === (b as typeof a).button);
+
+// Binds to `action`, taking the binding off whatever action had it before
+export const bindInput = (bindings: Bindings, action: InputAction, binding: Binding): Bindings => {
+    const next = {} as Bindings;
+    for (const a of INPUT_ACTIONS) next[a] = bindings[a].filter(b => !sameBinding(b, binding));
+    next[action] = [...next[action], binding];
+    return next;
+};
+
+export const unbindInput = (bindings: Bindings, action: InputAction, index: number): Bindings => ({
+    ...bindings, [action]: bindings[action].filter((_, i) => i !== index)
+});
+
+// --- Labels ---
+
+const PAD_BUTTON_NAMES = [
+    'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'SELECT', 'START', 'L-STICK', 'R-STICK',
+    'D-UP', 'D-DOWN', 'D-LEFT', 'D-RIGHT', 'HOME'
+];
+const MOUSE_BUTTON_NAMES = ['LEFT CLICK', 'MIDDLE CLICK', 'RIGHT CLICK'];
+
+const describeKey = (code: string) => {
+    if (code.startsWith('Key')) return code.slice(3);
+    if (code.startsWith('Digit')) return code.slice(5);
+    if (code.startsWith('Arrow')) return `${code.slice(5).toUpperCase()} ARROW`;
+    return code.replace(/([a-z])([A-Z])/g, '$1 $2').toUpperCase();
+};
+
+export const describeBinding = (b: Binding) => {
+    if (b.device === 'KEY') return describeKey(b.code);
+    if (b.device === 'MOUSE') return MOUSE_BUTTON_NAMES[b.button] ?? `MOUSE ${b.button}`;
+    return `PAD ${PAD_BUTTON_NAMES[b.button] ?? b.button}`;
+};
+
+// --- Stored Bindings ---
+
+const isIndex = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 0;
+
+// Parsed JSON whose fields haven't been checked yet
+type Fields = Record<string, unknown>;
+
+const isFields = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const parseBinding = (data: unknown): Binding | null => {
+    if (!isFields(data)) return null;
+    if (data.device === 'KEY' && typeof data.code === 'string' && data.code) return key(data.code);
+    if (data.device === 'MOUSE' && isIndex(data.button)) return mouse(data.button);
+    if (data.device === 'PAD' && isIndex(data.button)) return pad(data.button);
+    return null;
+};
+
+// Anything unreadable falls back to the defaults, one action at a time
+export const parseBindings = (data: unknown): Bindings => {
+    const bindings = {} as Bindings;
+    for (const action of INPUT_ACTIONS) {
+        const stored = isFields(data) ? data[action] : undefined;
+        bindings[action] = Array.isArray(stored)
+            ? stored.map(parseBinding).filter((b): b is Binding => b !== null)
+            : [...DEFAULT_BINDINGS[action]];
+    }
+    return bindings;
+};
+
+// --- Haptics ---
+
+// Where the device can (most phones; not desktops or iOS Safari)
+export const vibrate = (pattern: number | number[]) => {
+    if (typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function') navigator.vibrate(pattern);
+};
+
+// --- Controller ---
+
+// What the ship is being told to do right now
+export interface ControlState {
+    thrust: boolean;
+    fire: boolean;
+    power: number; // 0..1 share of full thrust; below 1 only with analog thrust on
+}
+
+// What a finger on the screen does: a zone's action, 'NONE' for a zone with
+// nothing to do, or null without zones (any finger thrusts, and a second one fires)
+export type TouchRole = 'THRUST' | 'FIRE' | 'P2_THRUST' | 'NONE' | null;
+
+export class InputController {
+    bindings: Bindings = DEFAULT_BINDINGS;
+    // Let trigger pressure throttle the thrust instead of it being all or nothing
+    analogThrust = false;
+    // Called once per press (never on key repeat) of anything bound to an action
+    onAction: (action: InputAction) => void = () => {};
+
+    private keys = new Set<string>();
+    private mouseButtons = new Set<number>();
+    private touches = new Map<number, TouchRole>(); // Pointer id -> role
+    private pad: number[] = []; // Pressure per button, strongest across connected pads
+    // While set, the next press is handed here instead of to the game
+    private capture: ((binding: Binding | null) => void) | null = null;
+
+    get capturing() {
+        return this.capture !== null;
+    }
+
+    // Waits for the next key, mouse or pad button. Escape cancels with null.
+    listen(callback: (binding: Binding | null) => void) {
+        this.capture = callback;
+    }
+
+    cancelListen() {
+        this.capture = null;
+    }
+
+    private press(binding: Binding) {
+        if (this.capture) {
+            const callback = this.capture;
+            this.capture = null;
+            callback(binding.device === 'KEY' && binding.code === 'Escape' ? null : binding);
+            return;
+        }
+        for (const action of INPUT_ACTIONS) {
+            if (this.bindings[action].some(b => sameBinding(b, binding))) this.onAction(action);
+        }
+    }
+
+    keyDown(code: string) {
+        if (this.keys.has(code)) return; // Key repeat
+        this.keys.add(code);
+        this.press(key(code));
+    }
+
+    keyUp(code: string) {
+        this.keys.delete(code);
+    }
+
+    // `buttons` is PointerEvent.buttons: everything held now, not just what changed
+    private setMouseButtons(buttons: number) {
+        const before = this.mouseButtons;
+        this.mouseButtons = new Set(MOUSE_BUTTON_BITS.filter(([bit]) => buttons & bit).map(([, button]) => button));
+        this.mouseButtons.forEach(button => { if (!before.has(button)) this.press(mouse(button)); });
+    }
+
+    mouseDown(buttons: number) {
+        this.setMouseButtons(buttons);
+    }
+
+    // Moves and releases. A second button pressed while one is held only shows
+    // up here, but a press that began on a menu control is never picked up.
+    mouseChange(buttons: number) {
+        if (this.mouseButtons.size > 0) this.setMouseButtons(buttons);
+    }
+
+    // Touch isn't remappable
+    touchDown(id: number, role: TouchRole) {
+        this.touches.set(id, role);
+        const unzoned = [...this.touches.values()].filter(r => r === null).length;
+        if (role !== 'NONE') this.onAction(role ?? (unzoned > 1 ? 'FIRE' : 'THRUST'));
+    }
+
+    touchUp(id: number) {
+        this.touches.delete(id);
+    }
+
+    // Gamepads can't be listened to, so this runs once per animation frame
+    poll() {
+        const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+        const next: number[] = [];
+        for (const gamepad of pads) {
+            if (!gamepad) continue;
+            gamepad.buttons.forEach((button, i) => {
+                const value = button.pressed ? Math.max(button.value, PAD_THRESHOLD) : button.value;
+                next[i] = Math.max(next[i] ?? 0, value);
+            });
+        }
+        const before = this.pad;
+        this.pad = next;
+        next.forEach((value, i) => {
+            if (value >= PAD_THRESHOLD && !((before[i] ?? 0) >= PAD_THRESHOLD)) this.press(pad(i));
+        });
+    }
+
+    // Forgets everything held, e.g. when the window loses focus and releases go unseen
+    release() {
+        this.keys.clear();
+        this.mouseButtons.clear();
+        this.touches.clear();
+    }
+
+    // How hard a binding is held, 0..1
+    private pressure(b: Binding) {
+        if (b.device === 'KEY') return this.keys.has(b.code) ? 1 : 0;
+        if (b.device === 'MOUSE') return this.mouseButtons.has(b.button) ? 1 : 0;
+        const value = this.pad[b.button] ?? 0;
+        return value >= PAD_THRESHOLD ? value : 0;
+    }
+
+    private strongest(action: InputAction) {
+        return this.bindings[action].reduce((max, b) => Math.max(max, this.pressure(b)), 0);
+    }
+
+    private power(pressure: number) {
+        return pressure > 0 && this.analogThrust ? Math.ceil(pressure * POWER_STEPS) / POWER_STEPS : 1;
+    }
+
+    read(): ControlState {
+        // Thrust holds while any finger is down, whichever went down first
+        const roles = [...this.touches.values()];
+        const touchThrust = roles.some(r => r === 'THRUST' || r === null);
+        const touchFire = roles.includes('FIRE') || roles.filter(r => r === null).length > 1;
+        const thrustPressure = Math.max(this.strongest('THRUST'), touchThrust ? 1 : 0);
+        return {
+            thrust: thrustPressure > 0,
+            fire: this.strongest('FIRE') > 0 || touchFire,
+            power: this.power(thrustPressure)
+        };
+    }
+
+    // Player 2's ship in versus, which is never armed
+    readPlayerTwo(): ControlState {
+        const touchThrust = [...this.touches.values()].includes('P2_THRUST');
+        const thrustPressure = Math.max(this.strongest('P2_THRUST'), touchThrust ? 1 : 0);
+        return { thrust: thrustPressure > 0, fire: false, power: this.power(thrustPressure) };
+    }
+}
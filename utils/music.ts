@@ -0,0 +1,180 @@
+// --- Procedural Soundtrack ---
+// A small synthwave sequencer on the game's Web Audio graph. A timer wakes
+// every few milliseconds and books the notes due in the next moment against
+// the audio clock, so the beat stays tight even when frames are dropped.
+// The game says how intense things are; tempo and layers follow.
+
+const LOOKAHEAD_MS = 25;      // How often the scheduler wakes
+const SCHEDULE_AHEAD = 0.1;   // Seconds of notes booked at each wake
+const STEPS_PER_BAR = 16;     // Sixteenth notes
+const MIN_BPM = 100;
+const MAX_BPM = 132;
+
+// Low-pass cutoff, Hz: wide open normally, swept down while time is slowed
+const OPEN_CUTOFF = 16000;
+const SLOWMO_CUTOFF = 500;
+
+// Intensity each layer joins at; the kick and bass always play
+const HAT_LAYER = 0.15;
+const ARP_LAYER = 0.35;
+const SNARE_LAYER = 0.55;
+const DRIVE_LAYER = 0.8; // Octave-jumping bass
+
+// Am - F - C - G, one chord a bar: root as a MIDI note, chord tones above it
+const PROGRESSION = [
+    { root: 45, tones: [0, 3, 7, 12] },
+    { root: 41, tones: [0, 4, 7, 12] },
+    { root: 48, tones: [0, 4, 7, 12] },
+    { root: 43, tones: [0, 4, 7, 12] }
+];
+const ARP_PATTERN = [0, 1, 2, 3, 2, 1, 2, 3];
+
+export const midiToFreq = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// A second of white noise, for drums and noisy effects
+export const createNoiseBuffer = (ctx: BaseAudioContext) => {
+    const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    return buffer;
+};
+
+export class MusicSequencer {
+    private ctx: BaseAudioContext;
+    private filter: BiquadFilterNode; // Everything passes through it
+    private noise: AudioBuffer;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private step = 0;
+    private nextStepTime = 0;
+    private intensity = 0;
+    private slowMo = false;
+
+    constructor(ctx: BaseAudioContext, output: AudioNode) {
+        this.ctx = ctx;
+        this.filter = ctx.createBiquadFilter();
+        this.filter.type = 'lowpass';
+        this.filter.frequency.value = OPEN_CUTOFF;
+        this.filter.connect(output);
+        this.noise = createNoiseBuffer(ctx);
+    }
+
+    get playing() {
+        return this.timer !== null;
+    }
+
+    // From the top of the progression
+    start() {
+        if (this.timer !== null) return;
+        this.step = 0;
+        this.nextStepTime = this.ctx.currentTime + 0.05;
+        this.timer = setInterval(() => this.schedule(), LOOKAHEAD_MS);
+    }
+
+    // Notes already booked ring out
+    stop() {
+        if (this.timer === null) return;
+        clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // 0 (calm) to 1 (flat out)
+    setIntensity(intensity: number) {
+        this.intensity = Math.max(0, Math.min(intensity, 1));
+    }
+
+    setSlowMo(slowMo: boolean) {
+        if (slowMo === this.slowMo) return;
+        this.slowMo = slowMo;
+        this.filter.frequency.setTargetAtTime(slowMo ? SLOWMO_CUTOFF : OPEN_CUTOFF, this.ctx.currentTime, slowMo ? 0.4 : 0.2);
+    }
+
+    // Cuts the loop off with a falling minor arpeggio
+    stinger() {
+        this.stop();
+        const t = this.ctx.currentTime + 0.05;
+        [24, 19, 15, 12, 0].forEach((offset, i) => {
+            this.note('sawtooth', midiToFreq(45 + offset), t + i * 0.1, 0.12, i === 4 ? 1.2 : 0.25);
+        });
+    }
+
+    private secondsPerStep() {
+        const bpm = MIN_BPM + (MAX_BPM - MIN_BPM) * this.intensity;
+        return 60 / bpm / 4;
+    }
+
+    private schedule() {
+        const now = this.ctx.currentTime;
+        // A suspended context stands still, so nothing piles up while paused; a
+        // throttled background timer can still fall behind, so skip what was missed
+        if (this.nextStepTime < now - SCHEDULE_AHEAD) this.nextStepTime = now;
+        while (this.nextStepTime < now + SCHEDULE_AHEAD) {
+            this.playStep(this.step, this.nextStepTime);
+            this.nextStepTime += this.secondsPerStep();
+            this.step = (this.step + 1) % (STEPS_PER_BAR * PROGRESSION.length);
+        }
+    }
+
+    private playStep(step: number, t: number) {
+        const chord = PROGRESSION[Math.floor(step / STEPS_PER_BAR)];
+        const beat = step % STEPS_PER_BAR;
+        const length = this.secondsPerStep();
+        const i = this.intensity;
+
+        // Drums: four on the floor, off-beat hats, backbeat snare
+        if (beat % 4 === 0) this.kick(t);
+        if (i >= HAT_LAYER && beat % 4 === 2) this.hiss(t, 7000, 0.05, 0.04);
+        if (i >= SNARE_LAYER && beat % 8 === 4) this.hiss(t, 1200, 0.15, 0.12);
+
+        // Bass on the eighths, jumping the octave on the off-beats once it's driving
+        if (beat % 2 === 0) {
+            const octave = i >= DRIVE_LAYER && beat % 4 === 2 ? 12 : 0;
+            this.note('sawtooth', midiToFreq(chord.root + octave), t, 0.1, length * 1.8);
+        }
+
+        // Arpeggio two octaves up
+        if (i >= ARP_LAYER) {
+            const tone = chord.tones[ARP_PATTERN[beat % ARP_PATTERN.length]];
+            this.note('square', midiToFreq(chord.root + 24 + tone), t, 0.035, length * 0.9);
+        }
+    }
+
+    private envelope(t: number, volume: number, duration: number) {
+        const gain = this.ctx.createGain();
+        gain.gain.setValueAtTime(0, t);
+        gain.gain.linearRampToValueAtTime(volume, t + 0.005);
+        gain.gain.exponentialRampToValueAtTime(0.001, t + duration);
+        gain.connect(this.filter);
+        return gain;
+    }
+
+    private note(type: OscillatorType, freq: number, t: number, volume: number, duration: number) {
+        const osc = this.ctx.createOscillator();
+        osc.type = type;
+        osc.frequency.value = freq;
+        osc.connect(this.envelope(t, volume, duration));
+        osc.start(t);
+        osc.stop(t + duration);
+    }
+
+    private kick(t: number) {
+        const osc = this.ctx.createOscillator();
+        osc.frequency.setValueAtTime(150, t);
+        osc.frequency.exponentialRampToValueAtTime(40, t + 0.12);
+        osc.connect(this.envelope(t, 0.35, 0.18));
+        osc.start(t);
+        osc.stop(t + 0.18);
+    }
+
+    // Hats and snare: noise through a high-pass
+    private hiss(t: number, cutoff: number, volume: number, duration: number) {
+        const source = this.ctx.createBufferSource();
+        source.buffer = this.noise;
+        const filter = this.ctx.createBiquadFilter();
+        filter.type = 'highpass';
+        filter.frequency.value = cutoff;
+        source.connect(filter);
+        filter.connect(this.envelope(t, volume, duration));
+        source.start(t);
+        source.stop(t + duration);
+    }
+}
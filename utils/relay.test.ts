@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseServerMessage } from './relay';
+
+test('relay messages are passed on clean', () => {
+    assert.deepEqual(parseServerMessage({
+        type: 'ROOM', room: 'SKY', you: 2, host: 1, racing: false,
+        players: [{ id: 1, name: 'ACE', racing: false, extra: true }, { id: 2, name: 'BO', racing: false }]
+    }), {
+        type: 'ROOM', room: 'SKY', you: 2, host: 1, racing: false,
+        players: [{ id: 1, name: 'ACE', racing: false }, { id: 2, name: 'BO', racing: false }]
+    });
+    assert.deepEqual(parseServerMessage({ type: 'RACE', seed: 7, config: { any: 'thing' }, racers: [{ id: 1, name: 'ACE' }], startsIn: 3000 }), {
+        type: 'RACE', seed: 7, config: { any: 'thing' }, racers: [{ id: 1, name: 'ACE' }], startsIn: 3000
+    });
+    assert.deepEqual(parseServerMessage({ type: 'INPUT', from: 3, frame: 'checked later', inputs: null }), {
+        type: 'INPUT', from: 3, frame: 'checked later', inputs: null
+    });
+    const standing = { id: 1, name: 'ACE', place: null, distance: 1200, score: 40, finished: true, left: false };
+    assert.deepEqual(parseServerMessage({ type: 'STANDINGS', final: false, standings: [standing] }), {
+        type: 'STANDINGS', final: false, standings: [standing]
+    });
+    assert.deepEqual(parseServerMessage({ type: 'ERROR', message: 'Room is full' }), { type: 'ERROR', message: 'Room is full' });
+});
+
+test('messages the game could trip over are dropped', () => {
+    const standing = { id: 1, name: 'ACE', place: 1, distance: 1200, score: 40, finished: true, left: false };
+    for (const message of [
+        null, 'ROOM', [], { type: 'HELLO' },
+        { type: 'ROOM', room: 'SKY', you: 2, host: 1, racing: false, players: null },
+        { type: 'ROOM', room: 'SKY', you: '2', host: 1, racing: false, players: [] },
+        { type: 'ROOM', room: 'SKY', you: 2, host: 1, racing: false, players: [{ id: 1, racing: false }] },
+        { type: 'RACE', seed: 7, config: {}, racers: [{ id: 1, name: 'ACE' }], startsIn: -1 },
+        { type: 'RACE', seed: 7, config: {}, racers: {}, startsIn: 3000 },
+        { type: 'INPUT', from: 'P1', frame: 6, inputs: [] },
+        { type: 'STANDINGS', final: true, standings: [{ ...standing, distance: Infinity }] },
+        { type: 'STANDINGS', final: true, standings: [{ ...standing, place: 0.5 }] },
+        { type: 'STANDINGS', final: 'yes', standings: [] },
+        { type: 'ERROR', message: { text: 'no' } }
+    ]) {
+        assert.equal(parseServerMessage(message), null, JSON.stringify(message));
+    }
+});
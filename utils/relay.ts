@@ -0,0 +1,158 @@
+import type { RacePacket } from '../game/race';
+import type { ReplayConfig } from '../game/replay';
+
+// --- Race Relay Client ---
+// The browser end of server/relay.js. The relay keeps rooms of players, hands
+// a race's seed and course to everyone in it, passes each racer's input
+// packets to the rest and declares the finishing order from what they report.
+// Messages are JSON text frames; the server's header has the same list. Any
+// that don't have the shape listed here are dropped before the game sees them.
+
+export const RELAY_PORT = 8787;
+
+// The relay on the machine serving the game, which is where `npm run relay` puts it
+export const defaultRelayUrl = () => `ws://${window.location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+export interface RoomPlayer {
+    id: number;
+    name: string;
+    racing: boolean; // In the race being flown
+}
+
+export interface RaceStanding {
+    id: number;
+    name: string;
+    place: number | null; // Declared once everyone has finished
+    distance: number;     // Px
+    score: number;
+    finished: boolean;
+    left: boolean;        // Disconnected before finishing; ranked on the last inputs they sent
+}
+
+export type ClientMessage =
+    | { type: 'JOIN'; room: string; name: string }
+    | { type: 'START'; seed: number; config: ReplayConfig } // Host only
+    | ({ type: 'INPUT'; distance: number } & RacePacket)
+    | { type: 'FINISH'; frame: number; distance: number; score: number };
+
+export type ServerMessage =
+    | { type: 'ROOM'; room: string; you: number; host: number; racing: boolean; players: RoomPlayer[] }
+    | { type: 'RACE'; seed: number; config: unknown; racers: { id: number; name: string }[]; startsIn: number }
+    | { type: 'INPUT'; from: number; frame: unknown; inputs: unknown } // Checked with parseRacePacket
+    | { type: 'STANDINGS'; final: boolean; standings: RaceStanding[] }
+    | { type: 'ERROR'; message: string };
+
+// --- Checking Messages ---
+
+type Fields = Record<string, unknown>;
+
+const isFields = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isId = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 0;
+const isListOf = <T>(v: unknown, isItem: (item: unknown) => item is T): v is T[] => Array.isArray(v) && v.every(isItem);
+
+const isPlayer = (v: unknown): v is RoomPlayer =>
+    isFields(v) && isId(v.id) && typeof v.name === 'string' && typeof v.racing === 'boolean';
+
+const isRacer = (v: unknown): v is { id: number; name: string } =>
+    isFields(v) && isId(v.id) && typeof v.name === 'string';
+
+const isStanding = (v: unknown): v is RaceStanding =>
+    isFields(v) && isId(v.id) && typeof v.name === 'string' && (v.place === null || isId(v.place)) && isFiniteNumber(v.distance) && isFiniteNumber(v.score)
+    && typeof v.finished === 'boolean' && typeof v.left === 'boolean';
+
+// A clean copy of a message from the relay, or null if it isn't one. INPUT
+// packets are left for parseRacePacket, which knows the racer they follow on from.
+export const parseServerMessage = (data: unknown): ServerMessage | null => {
+    if (!isFields(data)) return null;
+    switch (data.type) {
+        case 'ROOM': {
+            const { room, you, host, racing, players } = data;
+            if (typeof room !== 'string' || !isId(you) || !isId(host) || typeof racing !== 'boolean') return null;
+            if (!isListOf(players, isPlayer)) return null;
+            return {
+                type: 'ROOM', room, you, host, racing,
+                players: players.map(p => ({ id: p.id, name: p.name, racing: p.racing }))
+            };
+        }
+        case 'RACE': {
+            const { seed, config, racers, startsIn } = data;
+            if (!isFiniteNumber(seed) || !isListOf(racers, isRacer) || !isFiniteNumber(startsIn) || startsIn < 0) return null;
+            return { type: 'RACE', seed, config, racers: racers.map(r => ({ id: r.id, name: r.name })), startsIn };
+        }
+        case 'INPUT':
+            return isId(data.from) ? { type: 'INPUT', from: data.from, frame: data.frame, inputs: data.inputs } : null;
+        case 'STANDINGS': {
+            const { final, standings } = data;
+            if (typeof final !== 'boolean' || !isListOf(standings, isStanding)) return null;
+            return {
+                type: 'STANDINGS', final,
+                standings: standings.map(r => ({
+                    id: r.id, name: r.name, place: r.place, distance: r.distance, score: r.score, finished: r.finished, left: r.left
+                }))
+            };
+        }
+        case 'ERROR':
+            return typeof data.message === 'string' ? { type: 'ERROR', message: data.message } : null;
+        default:
+            return null;
+    }
+};
+
+export class RelayClient {
+    onMessage: (message: ServerMessage) => void = () => {};
+    // Only for connections that were open; a failed connect rejects instead
+    onClose: () => void = () => {};
+
+    private socket: WebSocket | null = null;
+
+    get connected() {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    // Resolves once the socket is open; rejects with a player-readable message
+    connect(url: string) {
+        this.close();
+        return new Promise<void>((resolve, reject) => {
+            let socket: WebSocket;
+            try {
+                socket = new WebSocket(url);
+            } catch {
+                reject(new Error('Not a valid relay address'));
+                return;
+            }
+            this.socket = socket;
+            let opened = false;
+            socket.onopen = () => {
+                opened = true;
+                resolve();
+            };
+            socket.onmessage = e => {
+                let message: ServerMessage | null;
+                try {
+                    message = parseServerMessage(JSON.parse(e.data));
+                } catch {
+                    return; // Not from our relay
+                }
+                if (message) this.onMessage(message);
+            };
+            socket.onclose = () => {
+                if (this.socket !== socket) return;
+                this.socket = null;
+                if (opened) this.onClose();
+                else reject(new Error(`Could not reach the relay at ${url}`));
+            };
+        });
+    }
+
+    send(message: ClientMessage) {
+        if (this.connected) this.socket!.send(JSON.stringify(message));
+    }
+
+    // Leaves quietly: onClose is only for connections that drop
+    close() {
+        const socket = this.socket;
+        this.socket = null;
+        socket?.close();
+    }
+}
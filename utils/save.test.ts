@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WORLD_WIDTH, WORLD_HEIGHT } from '../game/constants';
+import { PRESETS } from '../game/config';
+import { createGhost, finishGhost } from '../game/ghost';
+import { startRun } from '../game/simulation';
+import {
+    SAVE_KEY, SAVE_VERSION, createSave, hasGhost, loadCourseGhost, loadGhost, loadSave, offerGhost, writeSave
+} from './save';
+
+const memoryStorage = (entries: Record<string, string> = {}, full = false) => {
+    const items = new Map(Object.entries(entries));
+    return {
+        items,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            if (full) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+            items.set(key, value);
+        },
+        removeItem: (key: string) => void items.delete(key)
+    } as Storage & { items: Map<string, string> };
+};
+
+const run = { id: 'r1', initials: 'ACE', date: '2024-01-01T00:00:00.000Z', preset: 'HARD' as const, score: 900, distance: 5000 };
+
+test('the current version loads as written', () => {
+    const save = createSave();
+    save.shop.coins = 120;
+    save.history = [{ ...run, daily: '', seed: 3, coins: 4, powerups: { COIN: 4 }, cause: 'ROCK', combat: false }];
+    const storage = memoryStorage();
+    assert.equal(writeSave(save, storage), true);
+    assert.deepEqual(loadSave(storage), save);
+});
+
+test('runs that can\'t be trusted are dropped and the rest kept', () => {
+    const storage = memoryStorage({
+        [SAVE_KEY]: JSON.stringify({ version: SAVE_VERSION, history: [run, { id: 'r2', score: 'lots' }], leaderboards: { HARD: [run] } })
+    });
+    const save = loadSave(storage);
+    assert.deepEqual(save.history.map(r => r.id), ['r1']);
+    assert.equal(save.leaderboards.HARD[0].score, 900);
+});
+
+test('unreadable saves are set aside and the game starts fresh', () => {
+    const storage = memoryStorage({ [SAVE_KEY]: '{"version":' });
+    assert.deepEqual(loadSave(storage), createSave());
+    assert.equal(storage.items.get(`${SAVE_KEY}.corrupt`), '{"version":');
+
+    const newer = memoryStorage({ [SAVE_KEY]: JSON.stringify({ version: SAVE_VERSION + 1 }) });
+    assert.deepEqual(loadSave(newer), createSave());
+    assert.ok(newer.items.has(`${SAVE_KEY}.corrupt`));
+});
+
+test('a full storage still lets the game start', () => {
+    assert.deepEqual(loadSave(memoryStorage({ [SAVE_KEY]: '{"version":' }, true)), createSave());
+    assert.equal(writeSave(createSave(), memoryStorage({}, true)), false);
+});
+
+test('the high score from before the store is carried over', () => {
+    const storage = memoryStorage({ skyRiderHighScore: '1500' });
+    const save = loadSave(storage);
+    assert.equal(save.leaderboards.NORMAL[0].score, 1500);
+    assert.deepEqual([...storage.items.keys()], [SAVE_KEY]);
+
+    // Kept where it was until the store can be written
+    const full = memoryStorage({ skyRiderHighScore: '1500' }, true);
+    assert.equal(loadSave(full).leaderboards.NORMAL[0].score, 1500);
+    assert.equal(full.items.get('skyRiderHighScore'), '1500');
+});
+
+// --- Ghosts ---
+
+const ghost = (seed: number, score: number, daily = '') => {
+    const config = { worldWidth: WORLD_WIDTH, worldHeight: WORLD_HEIGHT, preset: 'HARD' as const, game: PRESETS.HARD };
+    const g = createGhost(startRun(WORLD_WIDTH, WORLD_HEIGHT, seed, PRESETS.HARD), config, daily);
+    finishGhost(g, score, 'ACE');
+    return g;
+};
+
+test('each preset keeps the ghost of its best run', () => {
+    const storage = memoryStorage();
+    assert.equal(hasGhost('HARD', storage), false);
+    assert.equal(offerGhost(ghost(3, 500), storage), true);
+    assert.equal(offerGhost(ghost(4, 200), storage), false);
+    assert.equal(offerGhost(ghost(5, 500), storage), false); // A tie keeps the first
+    const best = ghost(6, 800);
+    assert.equal(offerGhost(best, storage), true);
+    assert.deepEqual(loadGhost('HARD', storage), best);
+    assert.equal(hasGhost('NORMAL', storage), false);
+});
+
+test('the best ghost only turns up on the seed and day it flew', () => {
+    const storage = memoryStorage();
+    offerGhost(ghost(6, 800, '2024-01-01'), storage);
+    assert.equal(loadCourseGhost('HARD', 6, '2024-01-01', storage)?.score, 800);
+    assert.equal(loadCourseGhost('HARD', 7, '2024-01-01', storage), null);
+    assert.equal(loadCourseGhost('HARD', 6, '', storage), null);
+    assert.equal(loadCourseGhost('NORMAL', 6, '2024-01-01', storage), null);
+});
+
+test('an unreadable ghost is dropped', () => {
+    const storage = memoryStorage({ [`${SAVE_KEY}.ghost.HARD`]: '{"format":' });
+    assert.equal(loadGhost('HARD', storage), null);
+    assert.equal(hasGhost('HARD', storage), false);
+    assert.equal(offerGhost(ghost(3, 10), storage), true);
+});
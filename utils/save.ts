@@ -0,0 +1,464 @@
+import { PRESET_IDS, DEFAULT_PRESET, isPresetId, type PresetId } from '../game/config';
+import { createTally, type Tally } from '../game/achievements';
+import {
+    UPGRADES, SHIP_SKINS, TRAIL_STYLES, DEFAULT_SKIN, DEFAULT_TRAIL, upgradeCost
+} from '../game/shop';
+import type { CrashCause, EntityType } from '../game/types';
+import { parseGhost, serializeGhost, type Ghost } from '../game/ghost';
+import { DEFAULT_BINDINGS, parseBindings, type Bindings } from './input';
+
+// --- Save Store ---
+// Everything the game remembers between sessions lives under one versioned
+// localStorage key. Older layouts are migrated forward one version at a time
+// on load; anything unreadable is set aside rather than crashing the game.
+
+export const SAVE_KEY = 'skyRiderSave';
+export const SAVE_VERSION = 1;
+
+export const LEADERBOARD_SIZE = 10; // Per preset
+export const HISTORY_SIZE = 100;    // Most recent runs kept
+
+export interface RunRecord {
+    id: string;
+    initials: string;
+    date: string; // ISO timestamp; empty for scores carried over from before the store
+    preset: PresetId;
+    daily: string;
+    seed: number;
+    score: number;
+    distance: number;
+    coins: number;
+    powerups: Record<EntityType, number>;
+    cause: CrashCause | ''; // Empty when unknown
+    combat: boolean;
+}
+
+// Music, effects and the engine drone each have a volume bus; master scales them all
+export type AudioBus = 'master' | 'music' | 'sfx' | 'engine';
+export const AUDIO_BUSES: AudioBus[] = ['master', 'music', 'sfx', 'engine'];
+
+export interface AudioMix {
+    volume: Record<AudioBus, number>; // 0..1
+    muted: Record<AudioBus, boolean>;
+}
+
+const createMix = (): AudioMix => ({
+    volume: { master: 1, music: 1, sfx: 1, engine: 1 },
+    muted: { master: false, music: false, sfx: false, engine: false }
+});
+
+// The OS setting decides until the player picks one
+const prefersReducedMotion = () =>
+    typeof matchMedia === 'function' && matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+export interface SaveSettings {
+    audio: AudioMix;
+    reducedMotion: boolean; // Still background, no flicker or debris
+    preset: PresetId;
+    initials: string; // Last entered, offered again next time
+    combat: boolean;  // Fly armed (combat mode)
+    bindings: Bindings;
+    analogThrust: boolean; // Trigger pressure throttles thrust
+    touchZones: boolean;   // Left half of the screen thrusts, right half fires
+    vibration: boolean;
+}
+
+export interface SaveProgress {
+    achievements: Record<string, string>; // Id -> ISO time unlocked
+    lifetime: Tally;
+    // Missions completed on the current rotation (a dailyKey)
+    missions: { key: string; completed: string[] };
+}
+
+export interface SaveShop {
+    coins: number; // Banked, spendable
+    upgrades: Record<string, number>; // Upgrade id -> level owned
+    owned: string[]; // Cosmetic ids bought (the free ones are always owned)
+    skin: string;
+    trail: string;
+}
+
+export interface SaveData {
+    version: number;
+    settings: SaveSettings;
+    progress: SaveProgress;
+    shop: SaveShop;
+    // Newest first
+    history: RunRecord[];
+    // Best first. Kept apart from history so old records survive it rolling over
+    leaderboards: Record<PresetId, RunRecord[]>;
+}
+
+const emptyLeaderboards = () => {
+    const boards = {} as Record<PresetId, RunRecord[]>;
+    for (const id of PRESET_IDS) boards[id] = [];
+    return boards;
+};
+
+export const createSave = (): SaveData => ({
+    version: SAVE_VERSION,
+    settings: {
+        audio: createMix(), reducedMotion: prefersReducedMotion(),
+        preset: DEFAULT_PRESET, initials: 'AAA', combat: false,
+        bindings: DEFAULT_BINDINGS, analogThrust: false, touchZones: false, vibration: true
+    },
+    progress: { achievements: {}, lifetime: createTally(), missions: { key: '', completed: [] } },
+    shop: { coins: 0, upgrades: {}, owned: [], skin: DEFAULT_SKIN, trail: DEFAULT_TRAIL },
+    history: [],
+    leaderboards: emptyLeaderboards()
+});
+
+// --- Migrations ---
+
+// Before the store: a single loose high score, with no run details
+const LEGACY_HIGH_SCORE = 'skyRiderHighScore';
+
+const migrateLegacy = (storage: Storage): SaveData => {
+    const save = createSave();
+    const score = parseInt(storage.getItem(LEGACY_HIGH_SCORE) ?? '', 10);
+    if (score > 0) {
+        save.leaderboards[DEFAULT_PRESET].push({
+            id: 'legacy', initials: '---', date: '', preset: DEFAULT_PRESET, daily: '', seed: 0,
+            score, distance: 0, coins: 0, powerups: {}, cause: '', combat: false
+        });
+    }
+    return save;
+};
+
+// Parsed JSON whose fields haven't been checked yet
+type Fields = Record<string, unknown>;
+
+const isFields = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Upgrades data saved by version N to version N + 1. None yet: bump
+// SAVE_VERSION and add one here whenever the layout changes.
+const MIGRATIONS: Record<number, (data: Fields) => Fields> = {};
+
+// --- Validation ---
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const parseMix = (data: unknown): AudioMix => {
+    const mix = createMix();
+    const volumes = isFields(data) && isFields(data.volume) ? data.volume : {};
+    const muted = isFields(data) && isFields(data.muted) ? data.muted : {};
+    for (const bus of AUDIO_BUSES) {
+        const volume = volumes[bus];
+        if (isFiniteNumber(volume)) mix.volume[bus] = Math.max(0, Math.min(volume, 1));
+        mix.muted[bus] = muted[bus] === true;
+    }
+    return mix;
+};
+
+const parseCounts = (data: unknown) => {
+    const counts: Record<EntityType, number> = {};
+    if (isFields(data)) {
+        for (const [kind, n] of Object.entries(data)) if (isFiniteNumber(n)) counts[kind] = n;
+    }
+    return counts;
+};
+
+// A clean copy of a stored run, or null if it can't be trusted
+const parseRunRecord = (data: unknown): RunRecord | null => {
+    if (!isFields(data) || typeof data.id !== 'string' || !isPresetId(data.preset) || !isFiniteNumber(data.score)) return null;
+    return {
+        id: data.id,
+        initials: typeof data.initials === 'string' ? data.initials.slice(0, 3) : '---',
+        date: typeof data.date === 'string' ? data.date : '',
+        preset: data.preset,
+        daily: typeof data.daily === 'string' ? data.daily : '',
+        seed: isFiniteNumber(data.seed) ? data.seed >>> 0 : 0,
+        score: data.score,
+        distance: isFiniteNumber(data.distance) ? data.distance : 0,
+        coins: isFiniteNumber(data.coins) ? data.coins : 0,
+        powerups: parseCounts(data.powerups),
+        cause: typeof data.cause === 'string' ? data.cause : '',
+        combat: data.combat === true
+    };
+};
+
+const parseRuns = (data: unknown) =>
+    Array.isArray(data) ? data.map(parseRunRecord).filter((r): r is RunRecord => r !== null) : [];
+
+const parseProgress = (data: unknown): SaveProgress => {
+    const progress = createSave().progress;
+    if (!isFields(data)) return progress;
+    if (isFields(data.achievements)) {
+        for (const [id, date] of Object.entries(data.achievements)) {
+            if (typeof date === 'string') progress.achievements[id] = date;
+        }
+    }
+    const lifetime = isFields(data.lifetime) ? data.lifetime : {};
+    for (const key of Object.keys(progress.lifetime) as (keyof Tally)[]) {
+        const count = lifetime[key];
+        if (isFiniteNumber(count)) progress.lifetime[key] = count;
+    }
+    const missions = data.missions;
+    if (isFields(missions) && typeof missions.key === 'string' && Array.isArray(missions.completed)) {
+        progress.missions = {
+            key: missions.key,
+            completed: missions.completed.filter((id: unknown) => typeof id === 'string')
+        };
+    }
+    return progress;
+};
+
+const isCosmetic = (id: unknown) =>
+    SHIP_SKINS.some(s => s.id === id) || TRAIL_STYLES.some(t => t.id === id);
+
+const parseShop = (data: unknown): SaveShop => {
+    const shop = createSave().shop;
+    if (!isFields(data)) return shop;
+    if (isFiniteNumber(data.coins) && data.coins > 0) shop.coins = Math.floor(data.coins);
+    const upgrades = isFields(data.upgrades) ? data.upgrades : {};
+    for (const upgrade of UPGRADES) {
+        const level = upgrades[upgrade.id];
+        if (isFiniteNumber(level)) shop.upgrades[upgrade.id] = Math.max(0, Math.min(Math.floor(level), upgrade.maxLevel));
+    }
+    if (Array.isArray(data.owned)) shop.owned = data.owned.filter(isCosmetic);
+    if (typeof data.skin === 'string' && ownsCosmetic(shop, data.skin)) shop.skin = data.skin;
+    if (typeof data.trail === 'string' && ownsCosmetic(shop, data.trail)) shop.trail = data.trail;
+    return shop;
+};
+
+// Throws when the data isn't a save at all; individual bad runs are dropped.
+const parseSave = (stored: unknown): SaveData => {
+    if (!isFields(stored) || !isFiniteNumber(stored.version)) throw new Error('not a save');
+    let data = stored;
+    let version = stored.version;
+    while (version < SAVE_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new Error(`no migration from version ${version}`);
+        version++;
+        data = { ...migrate(data), version };
+    }
+    if (version > SAVE_VERSION) throw new Error(`save is from a newer version (${version})`);
+
+    const save = createSave();
+    const settings = isFields(data.settings) ? data.settings : {};
+    save.settings.audio = parseMix(settings.audio);
+    if (typeof settings.reducedMotion === 'boolean') save.settings.reducedMotion = settings.reducedMotion;
+    if (isPresetId(settings.preset)) save.settings.preset = settings.preset;
+    if (typeof settings.initials === 'string') save.settings.initials = settings.initials.slice(0, 3);
+    save.settings.combat = settings.combat === true;
+    save.settings.bindings = parseBindings(settings.bindings);
+    save.settings.analogThrust = settings.analogThrust === true;
+    save.settings.touchZones = settings.touchZones === true;
+    save.settings.vibration = settings.vibration !== false;
+    save.progress = parseProgress(data.progress);
+    save.shop = parseShop(data.shop);
+    save.history = parseRuns(data.history).slice(0, HISTORY_SIZE);
+    const leaderboards = isFields(data.leaderboards) ? data.leaderboards : {};
+    for (const id of PRESET_IDS) {
+        save.leaderboards[id] = parseRuns(leaderboards[id])
+            .filter(r => r.preset === id)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, LEADERBOARD_SIZE);
+    }
+    return save;
+};
+
+// --- Load / Store ---
+
+// False if storage is full or blocked, which shouldn't take the game down with it
+export const writeSave = (save: SaveData, storage: Storage = localStorage) => {
+    try {
+        storage.setItem(SAVE_KEY, JSON.stringify(save));
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const loadSave = (storage: Storage = localStorage): SaveData => {
+    const raw = storage.getItem(SAVE_KEY);
+    if (raw === null) {
+        const save = migrateLegacy(storage);
+        // The old score is only let go once it's safely in the store
+        if (writeSave(save, storage)) storage.removeItem(LEGACY_HIGH_SCORE);
+        return save;
+    }
+    try {
+        return parseSave(JSON.parse(raw));
+    } catch {
+        // Start fresh, but keep the broken copy around so it can be recovered by hand
+        try {
+            storage.setItem(`${SAVE_KEY}.corrupt`, raw);
+        } catch {
+            // No room for it either; the game still starts
+        }
+        return createSave();
+    }
+};
+
+// --- Updates ---
+// Each returns a new SaveData and leaves the old one untouched.
+
+export const updateSettings = (save: SaveData, patch: Partial<SaveSettings>): SaveData => ({
+    ...save, settings: { ...save.settings, ...patch }
+});
+
+/**
+ * Adds a finished run to the history and, if it scores high enough, to its
+ * preset's leaderboard. `rank` is its 1-based leaderboard place, or null.
+ */
+export const recordRun = (save: SaveData, run: RunRecord) => {
+    const history = [run, ...save.history].slice(0, HISTORY_SIZE);
+    const board = [...save.leaderboards[run.preset], run]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, LEADERBOARD_SIZE);
+    const index = board.indexOf(run);
+    return {
+        save: { ...save, history, leaderboards: { ...save.leaderboards, [run.preset]: board } },
+        rank: index >= 0 ? index + 1 : null
+    };
+};
+
+// Renames a run everywhere it appears and remembers the initials for next time
+export const setRunInitials = (save: SaveData, id: string, initials: string): SaveData => {
+    const rename = (r: RunRecord) => r.id === id ? { ...r, initials } : r;
+    const leaderboards = { ...save.leaderboards };
+    for (const preset of PRESET_IDS) leaderboards[preset] = leaderboards[preset].map(rename);
+    return {
+        ...save,
+        settings: { ...save.settings, initials },
+        history: save.history.map(rename),
+        leaderboards
+    };
+};
+
+// --- Progress ---
+
+export const unlockAchievements = (save: SaveData, ids: string[]): SaveData => {
+    const achievements = { ...save.progress.achievements };
+    const now = new Date().toISOString();
+    ids.forEach(id => { achievements[id] ??= now; });
+    return { ...save, progress: { ...save.progress, achievements } };
+};
+
+// Missions done today; a new rotation key starts the list over
+export const completeMissions = (save: SaveData, key: string, ids: string[]): SaveData => {
+    const previous = save.progress.missions.key === key ? save.progress.missions.completed : [];
+    const completed = [...new Set([...previous, ...ids])];
+    return { ...save, progress: { ...save.progress, missions: { key, completed } } };
+};
+
+export const isMissionComplete = (save: SaveData, key: string, id: string) =>
+    save.progress.missions.key === key && save.progress.missions.completed.includes(id);
+
+export const setLifetime = (save: SaveData, lifetime: Tally): SaveData => ({
+    ...save, progress: { ...save.progress, lifetime }
+});
+
+// --- Shop ---
+
+export const ownsCosmetic = (shop: SaveShop, id: string) => {
+    const item = SHIP_SKINS.find(s => s.id === id) ?? TRAIL_STYLES.find(t => t.id === id);
+    return !!item && (item.cost === 0 || shop.owned.includes(id));
+};
+
+export const bankCoins = (save: SaveData, coins: number): SaveData => ({
+    ...save, shop: { ...save.shop, coins: save.shop.coins + coins }
+});
+
+// Null when maxed out or unaffordable
+export const buyUpgrade = (save: SaveData, id: string): SaveData | null => {
+    const upgrade = UPGRADES.find(u => u.id === id);
+    if (!upgrade) return null;
+    const level = save.shop.upgrades[id] ?? 0;
+    const cost = upgradeCost(upgrade, level);
+    if (level >= upgrade.maxLevel || save.shop.coins < cost) return null;
+    return {
+        ...save,
+        shop: { ...save.shop, coins: save.shop.coins - cost, upgrades: { ...save.shop.upgrades, [id]: level + 1 } }
+    };
+};
+
+// Buys the skin or trail if needed and puts it on. Null when unaffordable.
+export const buyCosmetic = (save: SaveData, id: string): SaveData | null => {
+    const skin = SHIP_SKINS.find(s => s.id === id);
+    const trail = TRAIL_STYLES.find(t => t.id === id);
+    const item = skin ?? trail;
+    if (!item) return null;
+    let shop = save.shop;
+    if (!ownsCosmetic(shop, id)) {
+        if (shop.coins < item.cost) return null;
+        shop = { ...shop, coins: shop.coins - item.cost, owned: [...shop.owned, id] };
+    }
+    shop = skin ? { ...shop, skin: id } : { ...shop, trail: id };
+    return { ...save, shop };
+};
+
+export const getHighScore = (save: SaveData, preset: PresetId) =>
+    save.leaderboards[preset][0]?.score ?? 0;
+
+// --- Ghosts ---
+// The best run's ghost for each preset, each under its own key: a long run's
+// flight path outweighs the rest of the save, and a bad one shouldn't take it down.
+
+const ghostKey = (preset: PresetId) => `${SAVE_KEY}.ghost.${preset}`;
+
+export const hasGhost = (preset: PresetId, storage: Storage = localStorage) =>
+    storage.getItem(ghostKey(preset)) !== null;
+
+export const loadGhost = (preset: PresetId, storage: Storage = localStorage): Ghost | null => {
+    const raw = storage.getItem(ghostKey(preset));
+    if (raw === null) return null;
+    try {
+        return parseGhost(raw);
+    } catch {
+        // An unreadable ghost is dropped; the next best run replaces it
+        storage.removeItem(ghostKey(preset));
+        return null;
+    }
+};
+
+// The preset's best ghost if it flew this seed and day, the only course it can be flown against
+export const loadCourseGhost = (preset: PresetId, seed: number, daily: string, storage: Storage = localStorage) => {
+    const ghost = loadGhost(preset, storage);
+    return ghost && ghost.seed === seed && ghost.daily === daily ? ghost : null;
+};
+
+export const writeGhost = (ghost: Ghost, storage: Storage = localStorage) => {
+    try {
+        storage.setItem(ghostKey(ghost.preset), serializeGhost(ghost));
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// Keeps `ghost` if it outscored the one stored for its preset. True if it did.
+export const offerGhost = (ghost: Ghost, storage: Storage = localStorage) => {
+    const best = loadGhost(ghost.preset, storage);
+    if (best && best.score >= ghost.score) return false;
+    return writeGhost(ghost, storage);
+};
+
+// --- Aggregates ---
+
+export interface RunTotals {
+    runs: number;
+    distance: number;
+    coins: number;
+    bestScore: number;
+    averageScore: number;
+    causes: Record<string, number>;
+    powerups: Record<EntityType, number>;
+}
+
+export const summarizeRuns = (runs: RunRecord[]): RunTotals => {
+    const totals: RunTotals = {
+        runs: runs.length, distance: 0, coins: 0, bestScore: 0, averageScore: 0, causes: {}, powerups: {}
+    };
+    for (const r of runs) {
+        totals.distance += r.distance;
+        totals.coins += r.coins;
+        totals.bestScore = Math.max(totals.bestScore, r.score);
+        totals.averageScore += r.score / runs.length;
+        const cause = r.cause || 'UNKNOWN';
+        totals.causes[cause] = (totals.causes[cause] ?? 0) + 1;
+        for (const [kind, n] of Object.entries(r.powerups)) totals.powerups[kind] = (totals.powerups[kind] ?? 0) + n;
+    }
+    return totals;
+};